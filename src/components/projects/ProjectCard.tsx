@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Box, Copy, MoreVertical, Pencil, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { StoredProject } from '@/lib/projectStore';
+
+interface ProjectCardProps {
+  stored: StoredProject;
+  onOpen: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+export function ProjectCard({ stored, onOpen, onRename, onDuplicate, onDelete }: ProjectCardProps) {
+  const { project, thumbnail } = stored;
+  const [renaming, setRenaming] = useState(false);
+  const [name, setName] = useState(project.name);
+  const defaults = project.sketch.sheetMetalDefaults;
+  const featureCount = project.features.features.filter(f => f.kind !== 'sketch').length;
+
+  const commitRename = () => {
+    setRenaming(false);
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== project.name) onRename(trimmed);
+    else setName(project.name);
+  };
+
+  return (
+    <Card className="overflow-hidden group">
+      <button className="block w-full aspect-[16/10] bg-muted/50 border-b" onClick={onOpen}>
+        {thumbnail ? (
+          <img src={thumbnail} alt={project.name} className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <Box className="h-10 w-10 text-muted-foreground/40" />
+          </div>
+        )}
+      </button>
+      <div className="p-3 space-y-1">
+        <div className="flex items-center gap-1">
+          {renaming ? (
+            <Input
+              autoFocus
+              className="h-7 text-sm"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={e => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') { setName(project.name); setRenaming(false); }
+              }}
+            />
+          ) : (
+            <button className="flex-1 text-left text-sm font-medium truncate hover:underline" onClick={onOpen}>
+              {project.name}
+            </button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0">
+                <MoreVertical className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setRenaming(true)}>
+                <Pencil className="h-3.5 w-3.5 mr-2" /> Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={onDuplicate}>
+                <Copy className="h-3.5 w-3.5 mr-2" /> Duplicate
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem className="text-destructive focus:text-destructive" onClick={onDelete}>
+                <Trash2 className="h-3.5 w-3.5 mr-2" /> Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {defaults.material} · {defaults.thickness}mm{featureCount > 0 && ` · ${featureCount} feature(s)`}
+        </p>
+        <p className="text-[11px] text-muted-foreground/70">
+          Modified {new Date(project.modifiedAt).toLocaleString()}
+        </p>
+      </div>
+    </Card>
+  );
+}
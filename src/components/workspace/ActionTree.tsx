@@ -1,58 +1,120 @@
 import { cn } from '@/lib/utils';
-import { HistoryEntry } from '@/hooks/useActionHistory';
-import { Scissors, ArrowUpFromLine, PenLine, Box, Trash2, RotateCcw } from 'lucide-react';
+import { Feature, FeatureTree, activeCount, featureLabel } from '@/lib/featureTree';
+import { Scissors, ArrowUpFromLine, PenLine, Box, Trash2, AlertTriangle, ChevronsDown, Pencil, CornerDownRight, Undo2, TrendingUp, Rainbow, Stamp, Grid3x3, Shapes } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 
-const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
-  'initial': Box,
-  'base-face': Box,
+const iconMap: Record<Feature['kind'], React.ComponentType<{ className?: string }>> = {
+  'sketch': PenLine,
+  'pattern': Grid3x3,
   'fold': Scissors,
+  'jog': TrendingUp,
   'flange': ArrowUpFromLine,
-  'sketch': PenLine,
-  'remove-fold': Trash2,
-  'remove-flange': Trash2,
-  'update-flange': RotateCcw,
+  'arcFlange': Rainbow,
+  'corner': CornerDownRight,
+  'hem': Undo2,
+  'form': Stamp,
 };
 
 interface ActionTreeProps {
-  entries: HistoryEntry[];
-  currentIndex: number;
-  onGoTo: (index: number) => void;
+  tree: FeatureTree;
+  /** Active features the last build could not place */
+  failedIds: Set<string>;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  /** Build only the first `index` features; null rolls forward to the end */
+  onRollback: (index: number | null) => void;
+  onRemove: (id: string) => void;
+  onEditBaseSketch: () => void;
+  /** What the features are built on; a lofted bend builds none of them */
+  base?: 'face' | 'loft';
 }
 
-export function ActionTree({ entries, currentIndex, onGoTo }: ActionTreeProps) {
+/**
+ * The parametric feature tree: the base face followed by its features in build order.
+ * The rollback bar marks where the build stops; features below it are kept but not built.
+ */
+export function ActionTree({
+  tree, failedIds, selectedId, onSelect, onRollback, onRemove, onEditBaseSketch, base = 'face',
+}: ActionTreeProps) {
+  const active = activeCount(tree);
+  const BaseIcon = base === 'loft' ? Shapes : Box;
+
+  const rollbackBar = (
+    <div className="flex items-center gap-1 px-2 py-0.5 text-[10px] text-primary">
+      <div className="flex-1 h-0.5 rounded bg-primary" />
+      <span className="font-semibold">Rollback</span>
+      <button className="hover:underline" title="Roll forward to the end" onClick={() => onRollback(null)}>
+        <ChevronsDown className="h-3 w-3" />
+      </button>
+    </div>
+  );
+
   return (
-    <ScrollArea className="max-h-48">
+    <ScrollArea className="max-h-full">
       <div className="space-y-0.5">
-        {entries.map((entry, i) => {
-          const Icon = iconMap[entry.type] || Box;
-          const isCurrent = i === currentIndex;
-          const isFuture = i > currentIndex;
+        <button
+          onClick={onEditBaseSketch}
+          title={base === 'loft'
+            ? 'Edit the base sketch; converting it to a base face again replays the features'
+            : 'Edit the base sketch; all features are replayed on the new profile'}
+          className="group w-full flex items-center gap-2 px-2 py-1 rounded text-[11px] text-left text-foreground/80 hover:bg-muted/50"
+        >
+          <div className="w-4 h-4 rounded-full flex items-center justify-center shrink-0 bg-muted">
+            <BaseIcon className="h-2.5 w-2.5" />
+          </div>
+          <span className="truncate flex-1 font-medium">{base === 'loft' ? 'Lofted Bend' : 'Base Face'}</span>
+          <Pencil className="h-2.5 w-2.5 opacity-0 group-hover:opacity-60" />
+        </button>
+
+        {tree.features.map((feature, i) => {
+          const Icon = iconMap[feature.kind];
+          const isSuppressed = i >= active;
+          const isFailed = !isSuppressed && failedIds.has(feature.id);
+          const isSelected = feature.id === selectedId;
 
           return (
-            <button
-              key={entry.id}
-              onClick={() => onGoTo(i)}
-              className={cn(
-                'w-full flex items-center gap-2 px-2 py-1 rounded text-[11px] transition-colors text-left',
-                isCurrent && 'bg-primary/15 text-primary font-semibold',
-                !isCurrent && !isFuture && 'text-foreground/70 hover:bg-muted/50',
-                isFuture && 'text-muted-foreground/40 hover:bg-muted/30 line-through',
-              )}
-            >
-              <div className={cn(
-                'w-4 h-4 rounded-full flex items-center justify-center shrink-0',
-                isCurrent && 'bg-primary/20',
-                !isCurrent && !isFuture && 'bg-muted',
-                isFuture && 'bg-muted/50',
-              )}>
-                <Icon className="h-2.5 w-2.5" />
+            <div key={feature.id}>
+              {i === active && rollbackBar}
+              <div
+                className={cn(
+                  'group w-full flex items-center gap-2 px-2 py-1 rounded text-[11px] transition-colors',
+                  isSelected && 'bg-primary/15 text-primary font-semibold',
+                  !isSelected && !isSuppressed && 'text-foreground/70 hover:bg-muted/50',
+                  isSuppressed && 'text-muted-foreground/50 hover:bg-muted/30',
+                  isFailed && 'text-destructive',
+                )}
+              >
+                <button
+                  className="flex items-center gap-2 flex-1 min-w-0 text-left"
+                  title={isSuppressed ? 'Roll forward to this feature' : isFailed ? 'Could not be rebuilt on the current geometry' : undefined}
+                  onClick={() => isSuppressed ? onRollback(i + 1) : onSelect(feature.id)}
+                >
+                  <div className={cn(
+                    'w-4 h-4 rounded-full flex items-center justify-center shrink-0',
+                    isSuppressed ? 'bg-muted/50' : isFailed ? 'bg-destructive/15' : 'bg-muted',
+                  )}>
+                    {isFailed ? <AlertTriangle className="h-2.5 w-2.5" /> : <Icon className="h-2.5 w-2.5" />}
+                  </div>
+                  <span className={cn('truncate flex-1', isSuppressed && 'italic')}>{featureLabel(feature)}</span>
+                </button>
+                {i + 1 < active && (
+                  <button
+                    className="opacity-0 group-hover:opacity-60 hover:opacity-100"
+                    title="Roll back to here"
+                    onClick={() => onRollback(i + 1)}
+                  >
+                    <ChevronsDown className="h-3 w-3" />
+                  </button>
+                )}
+                <button
+                  className="opacity-0 group-hover:opacity-60 hover:opacity-100 text-destructive"
+                  title="Delete feature"
+                  onClick={() => onRemove(feature.id)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
               </div>
-              <span className="truncate flex-1">{entry.label}</span>
-              {isCurrent && (
-                <span className="w-1.5 h-1.5 rounded-full bg-primary shrink-0" />
-              )}
-            </button>
+            </div>
           );
         })}
       </div>
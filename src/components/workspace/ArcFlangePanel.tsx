@@ -0,0 +1,104 @@
+import { ReactNode, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { ArrowDownFromLine, ArrowUpFromLine, Plus, Rainbow, Trash2 } from 'lucide-react';
+import { ArcFlange } from '@/lib/geometry';
+
+export type ArcFlangeParams = Pick<ArcFlange, 'height' | 'angle' | 'direction' | 'gap'>;
+
+interface ArcFlangePanelProps {
+  /** Arc flange already on the arc of the selected edge; edited in place */
+  arcFlange: ArcFlange | null;
+  /** Number of facets in the arc the selected edge belongs to */
+  segmentCount: number;
+  onAdd: (params: ArcFlangeParams) => void;
+  onUpdate: (id: string, updates: Partial<ArcFlange>) => void;
+  onRemove: (id: string) => void;
+  /** Extra fields shown while editing, e.g. bend overrides */
+  children?: ReactNode;
+}
+
+function ArcFlangeFields({ params, onChange }: { params: ArcFlangeParams; onChange: (updates: Partial<ArcFlangeParams>) => void }) {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-[10px]">Height (mm)</Label>
+          <Input type="number" step={1} min={1} value={params.height}
+            onChange={(e) => onChange({ height: parseFloat(e.target.value) || 20 })}
+            className="h-7 text-xs font-mono" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-[10px]">Bend Angle (°)</Label>
+          <Input type="number" step={1} min={1} max={180} value={params.angle}
+            onChange={(e) => onChange({ angle: parseFloat(e.target.value) || 90 })}
+            className="h-7 text-xs font-mono" />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-[10px]">Segment Gap (mm)</Label>
+        <Input type="number" step={0.1} min={0} value={params.gap}
+          onChange={(e) => onChange({ gap: Math.max(parseFloat(e.target.value) || 0, 0) })}
+          className="h-7 text-xs font-mono" />
+        <p className="text-[10px] text-muted-foreground">Segments on a concave arc are also cut back so they clear each other</p>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-[10px]">Direction</Label>
+        <div className="flex gap-1">
+          <Button variant={params.direction === 'up' ? 'default' : 'outline'} size="sm"
+            className="flex-1 h-7 text-[10px] gap-1" onClick={() => onChange({ direction: 'up' })}>
+            <ArrowUpFromLine className="h-3 w-3" /> Up
+          </Button>
+          <Button variant={params.direction === 'down' ? 'default' : 'outline'} size="sm"
+            className="flex-1 h-7 text-[10px] gap-1" onClick={() => onChange({ direction: 'down' })}>
+            <ArrowDownFromLine className="h-3 w-3" /> Down
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Arc flange tool for an edge on a curved stretch of the profile: flanges the
+ * whole arc as one feature, or edits the arc flange already on it.
+ */
+export function ArcFlangePanel({ arcFlange, segmentCount, onAdd, onUpdate, onRemove, children }: ArcFlangePanelProps) {
+  const [draft, setDraft] = useState<ArcFlangeParams>({ height: 20, angle: 90, direction: 'up', gap: 0.5 });
+
+  if (arcFlange) {
+    return (
+      <div className="p-3 rounded-lg bg-accent/10 border border-accent/30 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Rainbow className="h-4 w-4 text-accent" />
+            <p className="text-xs font-semibold">Arc Flange</p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-6 w-6 text-destructive" onClick={() => onRemove(arcFlange.id)}>
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+        <p className="text-[10px] text-muted-foreground font-mono">{arcFlange.edgeIds.length} segment(s)</p>
+        <ArcFlangeFields params={arcFlange} onChange={(updates) => onUpdate(arcFlange.id, updates)} />
+        {children}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/50 border space-y-3">
+      <div className="flex items-center gap-2">
+        <Rainbow className="h-4 w-4 text-primary" />
+        <p className="text-xs font-semibold">Add Arc Flange</p>
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        This edge is one of {segmentCount} facets of a curved edge; flange them all as one feature.
+      </p>
+      <ArcFlangeFields params={draft} onChange={(updates) => setDraft({ ...draft, ...updates })} />
+      <Button size="sm" className="w-full text-xs gap-1" onClick={() => onAdd(draft)}>
+        <Plus className="h-3 w-3" /> Add Arc Flange
+      </Button>
+    </div>
+  );
+}
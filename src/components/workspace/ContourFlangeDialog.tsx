@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FlipVertical2 } from 'lucide-react';
+import { ContourProfile } from '@/lib/geometry';
+
+export interface ContourFlangeParams {
+  length: number;
+  bendRadius: number;
+  flip: boolean;
+}
+
+interface ContourFlangeDialogProps {
+  open: boolean;
+  contour: ContourProfile;
+  defaultBendRadius: number;
+  onApply: (params: ContourFlangeParams) => void;
+  onClose: () => void;
+}
+
+export function ContourFlangeDialog({ open, contour, defaultBendRadius, onApply, onClose }: ContourFlangeDialogProps) {
+  const [length, setLength] = useState(100);
+  const [bendRadius, setBendRadius] = useState(defaultBendRadius);
+  const [flip, setFlip] = useState(false);
+
+  const segments = contour.points.length - 1;
+  const sharpCorners = contour.radii.filter(r => r === null).length;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-base">Contour Flange</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="p-3 rounded-lg bg-muted/50 border">
+            <p className="text-xs text-muted-foreground mb-1">Cross-Section</p>
+            <p className="text-[10px] font-mono text-muted-foreground">
+              {segments} segment(s), {contour.radii.length} bend(s)
+              {contour.radii.length > sharpCorners && `, ${contour.radii.length - sharpCorners} from sketched arcs`}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Length (mm)</Label>
+              <Input type="number" step={1} min={1} value={length}
+                onChange={(e) => setLength(Math.max(parseFloat(e.target.value) || 100, 1))}
+                className="h-8 text-xs font-mono" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Corner Radius (mm)</Label>
+              <Input type="number" step={0.1} min={0} value={bendRadius}
+                onChange={(e) => setBendRadius(Math.max(parseFloat(e.target.value) || 0, 0))}
+                className="h-8 text-xs font-mono" />
+            </div>
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            Sketched lines are the mold lines of the sketch surface; sharp corners get the corner radius.
+          </p>
+
+          <Button variant={flip ? 'default' : 'outline'} size="sm" className="w-full h-8 text-xs gap-1.5"
+            onClick={() => setFlip(!flip)}>
+            <FlipVertical2 className="h-3.5 w-3.5" /> Material on Other Side
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+          <Button size="sm" onClick={() => onApply({ length, bendRadius, flip })}>
+            Create Contour Flange
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
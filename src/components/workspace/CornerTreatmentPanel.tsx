@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { CornerDownRight, Trash2 } from 'lucide-react';
+import { Flange, CornerTreatment, CornerTreatmentType, CORNER_TREATMENT_LABELS } from '@/lib/geometry';
+
+interface CornerTreatmentPanelProps {
+  flanges: Flange[];
+  corners: CornerTreatment[];
+  onApply: (flangeIds: [string, string], type: CornerTreatmentType, gap: number) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Corner tool of the fold-flanges step: pick two flanges that meet at a corner
+ * and set how they are finished there. Applying to a pair that already has a
+ * treatment edits it.
+ */
+export function CornerTreatmentPanel({ flanges, corners, onApply, onRemove }: CornerTreatmentPanelProps) {
+  const [first, setFirst] = useState<string>('');
+  const [second, setSecond] = useState<string>('');
+  const [type, setType] = useState<CornerTreatmentType>('open');
+  const [gap, setGap] = useState(0.5);
+
+  const flangeLabel = (id: string) => {
+    const index = flanges.findIndex(f => f.id === id);
+    return index < 0 ? 'Missing flange' : `Flange ${index + 1} · ${flanges[index].edgeId}`;
+  };
+
+  const flangeSelect = (value: string, onChange: (id: string) => void, exclude: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-7 text-xs"><SelectValue placeholder="Pick a flange" /></SelectTrigger>
+      <SelectContent>
+        {flanges.filter(f => f.id !== exclude).map(f => (
+          <SelectItem key={f.id} value={f.id} className="text-xs">{flangeLabel(f.id)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 rounded-lg bg-muted/50 border space-y-3">
+        <div className="flex items-center gap-2">
+          <CornerDownRight className="h-4 w-4 text-primary" />
+          <p className="text-xs font-semibold">Corner Treatment</p>
+        </div>
+        {flanges.length < 2 ? (
+          <p className="text-[10px] text-muted-foreground">Add two flanges on adjacent edges first.</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="space-y-1">
+              <Label className="text-[10px]">First Flange</Label>
+              {flangeSelect(first, setFirst, second)}
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px]">Second Flange</Label>
+              {flangeSelect(second, setSecond, first)}
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px]">Treatment</Label>
+              <Select value={type} onValueChange={(v) => setType(v as CornerTreatmentType)}>
+                <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CORNER_TREATMENT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-[10px] text-muted-foreground">
+                {type === 'overlap' && 'The first flange runs over the end of the second'}
+                {type === 'underlap' && 'The second flange runs over the end of the first'}
+                {type === 'open' && 'Both flanges stop short, leaving the gap between them'}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px]">Gap (mm)</Label>
+              <Input type="number" step={0.1} min={0} value={gap}
+                onChange={(e) => setGap(Math.max(0, parseFloat(e.target.value) || 0))}
+                className="h-7 text-xs font-mono" />
+            </div>
+            <Button size="sm" className="w-full h-7 text-xs" disabled={!first || !second}
+              onClick={() => onApply([first, second], type, gap)}>
+              Apply to Corner
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {corners.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold">Corners ({corners.length})</p>
+          {corners.map(c => (
+            <div key={c.id} className="flex items-center justify-between p-2 rounded bg-muted/30 border text-[10px]">
+              <button className="font-mono text-left" title="Edit this corner"
+                onClick={() => { setFirst(c.flangeIds[0]); setSecond(c.flangeIds[1]); setType(c.type); setGap(c.gap); }}>
+                {CORNER_TREATMENT_LABELS[c.type]} · gap {c.gap}mm
+                <br />
+                <span className="text-muted-foreground">{flangeLabel(c.flangeIds[0])} / {flangeLabel(c.flangeIds[1])}</span>
+              </button>
+              <Button variant="ghost" size="icon" className="h-5 w-5 text-destructive" onClick={() => onRemove(c.id)}>
+                <Trash2 className="h-2.5 w-2.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,15 @@
 import { useState, useEffect, useSyncExternalStore } from 'react';
 import { getApiLogs, subscribeApiLogs, clearApiLogs, ApiLogEntry } from '@/lib/apiLogger';
+import {
+  getBackendSettings, setBackendSettings, subscribeBackendSettings,
+  getMockFixtures, setMockFixtures, fixturesFromApiLogs, TransportKind,
+} from '@/lib/apiTransport';
+import { clearResponseCache, getResponseCacheSize, subscribeResponseCache } from '@/lib/responseCache';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Copy, CopyCheck, Trash2, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, CopyCheck, Trash2, X, ChevronDown, ChevronRight, Server, DatabaseZap } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -10,6 +17,10 @@ function useApiLogs() {
   return useSyncExternalStore(subscribeApiLogs, getApiLogs, getApiLogs);
 }
 
+function useBackendSettings() {
+  return useSyncExternalStore(subscribeBackendSettings, getBackendSettings, getBackendSettings);
+}
+
 function CopyButton({ text, label }: { text: string; label?: string }) {
   const [copied, setCopied] = useState(false);
   const handleCopy = async () => {
@@ -31,7 +42,7 @@ function LogEntry({ entry, index }: { entry: ApiLogEntry; index: number }) {
   const resStr = JSON.stringify(entry.responseBody, null, 2);
   const fullStr = JSON.stringify({ request: entry.requestBody, response: entry.responseBody }, null, 2);
 
-  const endpointShort = entry.endpoint.replace('https://api.metal-hero.com', '');
+  const endpointShort = entry.endpoint.replace(/^https?:\/\/[^/]+/, '');
 
   return (
     <div className="border rounded bg-card text-[11px]">
@@ -78,6 +89,51 @@ function LogEntry({ entry, index }: { entry: ApiLogEntry; index: number }) {
   );
 }
 
+function BackendSettings({ logs }: { logs: ApiLogEntry[] }) {
+  const settings = useBackendSettings();
+  const [baseUrl, setBaseUrl] = useState(settings.baseUrl);
+  const fixtureCount = useSyncExternalStore(subscribeBackendSettings, () => getMockFixtures().length);
+
+  useEffect(() => setBaseUrl(settings.baseUrl), [settings.baseUrl]);
+
+  const handleUseLogsAsMock = () => {
+    const fixtures = fixturesFromApiLogs(logs);
+    setMockFixtures(fixtures);
+    toast.success(`${fixtures.length} response(s) recorded for mock replay`);
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 border-b shrink-0 text-xs">
+      <Server className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+      <Select value={settings.kind} onValueChange={v => setBackendSettings({ kind: v as TransportKind })}>
+        <SelectTrigger className="h-7 w-36 text-xs"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="http">Remote API</SelectItem>
+          <SelectItem value="local">Local kernel</SelectItem>
+          <SelectItem value="mock">Mock replay</SelectItem>
+        </SelectContent>
+      </Select>
+      {settings.kind === 'http' && (
+        <Input
+          className="h-7 text-xs font-mono flex-1"
+          value={baseUrl}
+          onChange={e => setBaseUrl(e.target.value)}
+          onBlur={() => baseUrl.trim() && setBackendSettings({ baseUrl: baseUrl.trim() })}
+          onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        />
+      )}
+      {settings.kind === 'mock' && (
+        <>
+          <span className="text-muted-foreground flex-1">{fixtureCount} fixture(s)</span>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleUseLogsAsMock} disabled={logs.length === 0}>
+            Use logs as mock
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
 interface DebugPanelProps {
   open: boolean;
   onClose: () => void;
@@ -85,6 +141,7 @@ interface DebugPanelProps {
 
 export function DebugPanel({ open, onClose }: DebugPanelProps) {
   const logs = useApiLogs();
+  const cacheSize = useSyncExternalStore(subscribeResponseCache, getResponseCacheSize);
 
   if (!open) return null;
 
@@ -102,6 +159,11 @@ export function DebugPanel({ open, onClose }: DebugPanelProps) {
     toast.success(`${logs.length} API log(s) copied to clipboard`);
   };
 
+  const handleClearCache = async () => {
+    await clearResponseCache();
+    toast.success('Response cache cleared');
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
       <div className="bg-background border rounded-lg shadow-xl w-[720px] max-w-[90vw] max-h-[80vh] flex flex-col">
@@ -112,6 +174,9 @@ export function DebugPanel({ open, onClose }: DebugPanelProps) {
             <Button variant="outline" size="sm" className="h-7 text-xs gap-1" onClick={handleCopyAll} disabled={logs.length === 0}>
               <Copy className="h-3 w-3" /> Copy All
             </Button>
+            <Button variant="outline" size="sm" className="h-7 text-xs gap-1" onClick={handleClearCache} title={`${cacheSize} response(s) in memory`}>
+              <DatabaseZap className="h-3 w-3" /> Clear Cache
+            </Button>
             <Button variant="outline" size="sm" className="h-7 text-xs gap-1" onClick={clearApiLogs} disabled={logs.length === 0}>
               <Trash2 className="h-3 w-3" /> Clear
             </Button>
@@ -121,6 +186,8 @@ export function DebugPanel({ open, onClose }: DebugPanelProps) {
           </div>
         </div>
 
+        <BackendSettings logs={logs} />
+
         {/* Body */}
         <ScrollArea className="flex-1 p-3">
           {logs.length === 0 ? (
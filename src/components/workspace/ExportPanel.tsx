@@ -3,9 +3,10 @@ import { FileDown, FileText, Image, File, Table2, Download, Loader2 } from 'luci
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { Point2D } from '@/lib/sheetmetal';
-import { Flange, Fold, FaceSketch, ProfileCutout } from '@/lib/geometry';
-import { unfoldModel, FlatPatternResult } from '@/lib/metalHeroApi';
+import { Point2D, DEFAULT_RELIEF } from '@/lib/sheetmetal';
+import { Flange, Fold, FaceSketch, ProfileCutout, ReliefSettings, CornerTreatment, Hem, FormFeature } from '@/lib/geometry';
+import { unfoldModel, FlatPatternResult, isAbortError } from '@/lib/metalHeroApi';
+import type { BendTable } from '@/lib/bendTables';
 import {
   exportFlatPatternSVG,
   exportFlatPatternDXF,
@@ -23,8 +24,15 @@ interface ExportPanelProps {
   flanges: Flange[];
   folds: Fold[];
   kFactor: number;
+  bendTable?: BendTable | null;
+  relief?: ReliefSettings;
+  corners?: CornerTreatment[];
+  hems?: Hem[];
+  forms?: FormFeature[];
   cutouts?: ProfileCutout[];
   faceSketches?: FaceSketch[];
+  /** Pattern developed outside the kernel (a lofted bend); no unfold request is made */
+  flatPattern?: FlatPatternResult | null;
 }
 
 const FORMATS = [
@@ -35,7 +43,7 @@ const FORMATS = [
 
 type FormatId = typeof FORMATS[number]['id'];
 
-export function ExportPanel({ profile, thickness, flanges, folds, kFactor, cutouts = [], faceSketches = [] }: ExportPanelProps) {
+export function ExportPanel({ profile, thickness, flanges, folds, kFactor, bendTable: measuredBendTable = null, relief = DEFAULT_RELIEF, corners = [], hems = [], forms = [], cutouts = [], faceSketches = [], flatPattern = null }: ExportPanelProps) {
   const [exporting, setExporting] = useState<FormatId | null>(null);
 
   // Async unfold from API
@@ -45,22 +53,35 @@ export function ExportPanel({ profile, thickness, flanges, folds, kFactor, cutou
   const debounceRef = useRef<ReturnType<typeof setTimeout>>();
 
   useEffect(() => {
+    if (flatPattern) {
+      setPattern(flatPattern);
+      setError(null);
+      return;
+    }
     if (debounceRef.current) clearTimeout(debounceRef.current);
+    const controller = new AbortController();
     debounceRef.current = setTimeout(async () => {
       setLoading(true);
       setError(null);
       try {
-        const result = await unfoldModel(profile, thickness, cutouts, folds, flanges, faceSketches, kFactor);
+        const result = await unfoldModel({ profile, thickness, cutouts, folds, flanges, faceSketches, kFactor, bendTable: measuredBendTable, relief, corners, hems, forms }, {
+          signal: controller.signal,
+          channel: 'export',
+        });
         setPattern(result);
       } catch (err: any) {
+        if (isAbortError(err)) return;
         console.error('[API] unfoldModel failed:', err);
         setError(err.message ?? 'Unknown error');
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     }, 300);
-    return () => { if (debounceRef.current) clearTimeout(debounceRef.current); };
-  }, [profile, thickness, flanges, kFactor, folds, cutouts, faceSketches]);
+    return () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+      controller.abort();
+    };
+  }, [profile, thickness, flanges, kFactor, measuredBendTable, relief, corners, hems, forms, folds, cutouts, faceSketches, flatPattern]);
 
   // Convert API pattern to export-compatible format
   const exportPattern = useMemo(() => {
@@ -81,6 +102,7 @@ export function ExportPanel({ profile, thickness, flanges, folds, kFactor, cutou
       boundingBox: pattern.boundingBox,
       overallWidth: pattern.overallWidth,
       overallHeight: pattern.overallHeight,
+      formMarkers: pattern.formMarkers ?? [],
     };
   }, [pattern]);
 
@@ -2,7 +2,59 @@ import { useRef, useState, useCallback, useMemo, useEffect } from 'react';
 import { Line, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import { Point2D, generateId } from '@/lib/sheetmetal';
-import { FaceSketchEntity, FaceSketchLine, FaceSketchCircle, FaceSketchRect, FaceSketchTool } from '@/lib/geometry';
+import {
+  FaceSketchEntity, FaceSketchLine, FaceSketchCircle, FaceSketchRect, FaceSketchTool,
+  faceSketchOutline, isClosedFaceSketchEntity,
+} from '@/lib/geometry';
+
+/** Entities drawn from their outline rather than a shape of their own */
+const OUTLINE_TYPES = new Set<FaceSketchEntity['type']>(['arc', 'slot', 'polygon', 'ellipse', 'spline']);
+
+/** Clicks closer than this to a spline's first or last point close or finish it */
+const SPLINE_END_SNAP = 1.5;
+
+/** Outline as plane points; closed outlines run back to their start */
+function outlinePoints(entity: FaceSketchEntity, ox: number, oy: number, z: number, dx = 0, dy = 0): [number, number, number][] {
+  const pts = faceSketchOutline(entity).map((p): [number, number, number] => [ox + p.x + dx, oy + p.y + dy, z]);
+  return isClosedFaceSketchEntity(entity) && pts.length > 0 ? [...pts, pts[0]] : pts;
+}
+
+function distanceToOutline(p: Point2D, entity: FaceSketchEntity): number {
+  const pts = faceSketchOutline(entity);
+  if (isClosedFaceSketchEntity(entity) && pts.length > 0) pts.push(pts[0]);
+  let best = Infinity;
+  for (let i = 0; i + 1 < pts.length; i++) {
+    const a = pts[i], b = pts[i + 1];
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+    best = Math.min(best, Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy));
+  }
+  return best;
+}
+
+/** Dimension tag of an outline entity and where it sits */
+function outlineLabel(entity: FaceSketchEntity): { at: Point2D; text: string } | null {
+  switch (entity.type) {
+    case 'arc': {
+      const mid = entity.startAngle + (((entity.endAngle - entity.startAngle) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI) / 2;
+      return {
+        at: { x: entity.center.x + Math.cos(mid) * entity.radius, y: entity.center.y + Math.sin(mid) * entity.radius },
+        text: `R${entity.radius.toFixed(1)}`,
+      };
+    }
+    case 'slot': {
+      const length = Math.hypot(entity.end.x - entity.start.x, entity.end.y - entity.start.y) + 2 * entity.radius;
+      return { at: entity.end, text: `${length.toFixed(1)} × ${(2 * entity.radius).toFixed(1)}` };
+    }
+    case 'polygon':
+      return { at: { x: entity.center.x + entity.radius, y: entity.center.y }, text: `${entity.sides}× R${entity.radius.toFixed(1)}` };
+    case 'ellipse':
+      return { at: { x: entity.center.x, y: entity.center.y + entity.radiusY }, text: `${(2 * entity.radiusX).toFixed(1)} × ${(2 * entity.radiusY).toFixed(1)}` };
+    default:
+      return null;
+  }
+}
 
 interface FaceSketchPlaneProps {
   faceOrigin: Point2D;
@@ -21,6 +73,8 @@ interface FaceSketchPlaneProps {
   selectedIds: string[];
   onSelectEntity: (id: string, multi?: boolean) => void;
   onDeselectAll: () => void;
+  /** Sides of the next polygon drawn */
+  polygonSides?: number;
 }
 
 export function FaceSketchPlane({
@@ -28,9 +82,12 @@ export function FaceSketchPlane({
   surfaceZ: surfaceZProp, worldTransform,
   entities, activeTool, gridSize, snapEnabled,
   onAddEntity, onUpdateEntity, onRemoveEntity, selectedIds, onSelectEntity, onDeselectAll,
+  polygonSides = 6,
 }: FaceSketchPlaneProps) {
   const [cursorPos, setCursorPos] = useState<Point2D | null>(null);
   const [drawStart, setDrawStart] = useState<Point2D | null>(null);
+  // Points placed so far by the arc, slot and spline tools
+  const [drawPoints, setDrawPoints] = useState<Point2D[]>([]);
 
   // Move state
   const [moveStart, setMoveStart] = useState<Point2D | null>(null);
@@ -50,6 +107,7 @@ export function FaceSketchPlane({
     const handler = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         setDrawStart(null);
+        setDrawPoints([]);
         setCursorPos(null);
         setMoveStart(null);
         setMoveDragging(false);
@@ -115,6 +173,8 @@ export function FaceSketchPlane({
         d = Math.abs(Math.hypot(p.x - ent.center.x, p.y - ent.center.y) - ent.radius);
       } else if (ent.type === 'point') {
         d = Math.hypot(p.x - ent.position.x, p.y - ent.position.y);
+      } else {
+        d = distanceToOutline(p, ent);
       }
       if (d < bestDist) { bestDist = d; best = ent; }
     }
@@ -133,6 +193,12 @@ export function FaceSketchPlane({
         onUpdateEntity(id, { center: { x: ent.center.x + dx, y: ent.center.y + dy } });
       } else if (ent.type === 'point') {
         onUpdateEntity(id, { position: { x: ent.position.x + dx, y: ent.position.y + dy } });
+      } else if (ent.type === 'arc' || ent.type === 'polygon' || ent.type === 'ellipse') {
+        onUpdateEntity(id, { center: { x: ent.center.x + dx, y: ent.center.y + dy } });
+      } else if (ent.type === 'slot') {
+        onUpdateEntity(id, { start: { x: ent.start.x + dx, y: ent.start.y + dy }, end: { x: ent.end.x + dx, y: ent.end.y + dy } });
+      } else if (ent.type === 'spline') {
+        onUpdateEntity(id, { points: ent.points.map(p => ({ x: p.x + dx, y: p.y + dy })) });
       }
     }
   }, [selectedIds, entities, onUpdateEntity]);
@@ -148,7 +214,13 @@ export function FaceSketchPlane({
     const local = clamp(toLocal(e.point));
 
     if (activeTool === 'select') {
-      onDeselectAll();
+      // Outline entities have no pick mesh; take the one under the cursor
+      const nearest = findNearestEntity(local);
+      if (nearest && OUTLINE_TYPES.has(nearest.type) && distanceToOutline(local, nearest) < 3) {
+        onSelectEntity(nearest.id, e.shiftKey);
+      } else {
+        onDeselectAll();
+      }
       return;
     }
 
@@ -211,12 +283,68 @@ export function FaceSketchPlane({
         }
         setDrawStart(null);
       }
+    } else if (activeTool === 'polygon' || activeTool === 'ellipse') {
+      if (!drawStart) {
+        setDrawStart(local);
+      } else {
+        const dx = local.x - drawStart.x, dy = local.y - drawStart.y;
+        if (activeTool === 'polygon' && Math.hypot(dx, dy) > 1) {
+          onAddEntity({
+            id: generateId(), type: 'polygon', center: drawStart,
+            radius: Math.hypot(dx, dy), sides: polygonSides, rotation: Math.atan2(dy, dx),
+          });
+        } else if (activeTool === 'ellipse' && Math.abs(dx) > 1 && Math.abs(dy) > 1) {
+          onAddEntity({ id: generateId(), type: 'ellipse', center: drawStart, radiusX: Math.abs(dx), radiusY: Math.abs(dy) });
+        }
+        setDrawStart(null);
+      }
+    } else if (activeTool === 'arc') {
+      // Centre, then start point (sets the radius), then end angle
+      const [center, start] = drawPoints;
+      if (!center) {
+        setDrawPoints([local]);
+      } else if (!start) {
+        if (Math.hypot(local.x - center.x, local.y - center.y) > 1) setDrawPoints([center, local]);
+      } else {
+        onAddEntity({
+          id: generateId(), type: 'arc', center,
+          radius: Math.hypot(start.x - center.x, start.y - center.y),
+          startAngle: Math.atan2(start.y - center.y, start.x - center.x),
+          endAngle: Math.atan2(local.y - center.y, local.x - center.x),
+        });
+        setDrawPoints([]);
+      }
+    } else if (activeTool === 'slot') {
+      // Both ends of the centre line, then a point on the side sets the width
+      const [start, end] = drawPoints;
+      if (!start) {
+        setDrawPoints([local]);
+      } else if (!end) {
+        if (Math.hypot(local.x - start.x, local.y - start.y) > 1) setDrawPoints([start, local]);
+      } else {
+        const radius = distanceToOutline(local, { id: '', type: 'line', start, end });
+        if (radius > 0.5) onAddEntity({ id: generateId(), type: 'slot', start, end, radius });
+        setDrawPoints([]);
+      }
+    } else if (activeTool === 'spline') {
+      // Clicking the first point closes the spline, clicking the last again finishes it open
+      const first = drawPoints[0], last = drawPoints[drawPoints.length - 1];
+      if (first && drawPoints.length >= 3 && Math.hypot(local.x - first.x, local.y - first.y) < SPLINE_END_SNAP) {
+        onAddEntity({ id: generateId(), type: 'spline', points: drawPoints, closed: true });
+        setDrawPoints([]);
+      } else if (last && Math.hypot(local.x - last.x, local.y - last.y) < SPLINE_END_SNAP) {
+        if (drawPoints.length >= 2) onAddEntity({ id: generateId(), type: 'spline', points: drawPoints, closed: false });
+        setDrawPoints([]);
+      } else {
+        setDrawPoints([...drawPoints, local]);
+      }
     }
-  }, [activeTool, drawStart, toLocal, clamp, onAddEntity, onDeselectAll, selectedIds, moveStart, moveDragging, moveEntities, findNearestEntity, onSelectEntity]);
+  }, [activeTool, drawStart, drawPoints, polygonSides, toLocal, clamp, onAddEntity, onDeselectAll, selectedIds, moveStart, moveDragging, moveEntities, findNearestEntity, onSelectEntity]);
 
   // Reset draw state when tool changes
   useEffect(() => {
     setDrawStart(null);
+    setDrawPoints([]);
     setCursorPos(null);
     setMoveStart(null);
     setMoveDragging(false);
@@ -242,6 +370,33 @@ export function FaceSketchPlane({
     return pts;
   }, [ox, oy, z]);
 
+  // What the arc, slot, polygon, ellipse and spline tools would add at the cursor
+  const outlinePreview = useMemo((): FaceSketchEntity | null => {
+    if (!cursorPos) return null;
+    const c = cursorPos;
+    if (drawStart && activeTool === 'polygon') {
+      const dx = c.x - drawStart.x, dy = c.y - drawStart.y;
+      return { id: 'preview', type: 'polygon', center: drawStart, radius: Math.hypot(dx, dy), sides: polygonSides, rotation: Math.atan2(dy, dx) };
+    }
+    if (drawStart && activeTool === 'ellipse') {
+      return { id: 'preview', type: 'ellipse', center: drawStart, radiusX: Math.abs(c.x - drawStart.x), radiusY: Math.abs(c.y - drawStart.y) };
+    }
+    const [p0, p1] = drawPoints;
+    if (activeTool === 'arc' && p0) {
+      if (!p1) return { id: 'preview', type: 'circle', center: p0, radius: Math.hypot(c.x - p0.x, c.y - p0.y) };
+      return {
+        id: 'preview', type: 'arc', center: p0, radius: Math.hypot(p1.x - p0.x, p1.y - p0.y),
+        startAngle: Math.atan2(p1.y - p0.y, p1.x - p0.x), endAngle: Math.atan2(c.y - p0.y, c.x - p0.x),
+      };
+    }
+    if (activeTool === 'slot' && p0) {
+      if (!p1) return { id: 'preview', type: 'line', start: p0, end: c };
+      return { id: 'preview', type: 'slot', start: p0, end: p1, radius: distanceToOutline(c, { id: '', type: 'line', start: p0, end: p1 }) };
+    }
+    if (activeTool === 'spline' && p0) return { id: 'preview', type: 'spline', points: [...drawPoints, c], closed: false };
+    return null;
+  }, [cursorPos, drawStart, drawPoints, activeTool, polygonSides]);
+
   return (
     <group>
       {/* Semi-transparent face highlight */}
@@ -311,6 +466,11 @@ export function FaceSketchPlane({
         />
       )}
 
+      {/* Preview: outline tools */}
+      {outlinePreview && (
+        <Line points={outlinePoints(outlinePreview, ox, oy, z + 0.01)} color="#3b82f6" lineWidth={1.5} dashed dashSize={2} gapSize={1} />
+      )}
+
       {/* Preview: move ghost */}
       {moveDragging && moveStart && cursorPos && activeTool === 'move' && (() => {
         const dx = cursorPos.x - moveStart.x;
@@ -345,6 +505,10 @@ export function FaceSketchPlane({
                   points={getCirclePoints({ x: ent.center.x + dx, y: ent.center.y + dy }, ent.radius)}
                   color="#22c55e" lineWidth={1.5} dashed dashSize={2} gapSize={1} />;
               }
+              if (OUTLINE_TYPES.has(ent.type)) {
+                return <Line key={`mv-${id}`} points={outlinePoints(ent, ox, oy, z + 0.02, dx, dy)}
+                  color="#22c55e" lineWidth={1.5} dashed dashSize={2} gapSize={1} />;
+              }
               return null;
             })}
           </group>
@@ -461,6 +625,22 @@ export function FaceSketchPlane({
           );
         }
 
+        if (OUTLINE_TYPES.has(entity.type)) {
+          const label = outlineLabel(entity);
+          return (
+            <group key={entity.id}>
+              <Line points={outlinePoints(entity, ox, oy, z + 0.01)} color={color} lineWidth={lw} />
+              {label && (
+                <Html position={[ox + label.at.x, oy + label.at.y, z + 0.5]} center>
+                  <div className="bg-card/90 border border-border px-1.5 py-0.5 rounded text-[10px] font-mono text-foreground whitespace-nowrap pointer-events-none">
+                    {label.text}
+                  </div>
+                </Html>
+              )}
+            </group>
+          );
+        }
+
         return null;
       })}
     </group>
@@ -1,5 +1,6 @@
 import { Button } from '@/components/ui/button';
-import { MousePointer2, Minus, Circle, Square, Check, X, Dot, Move } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { MousePointer2, Minus, Circle, Square, Check, X, Dot, Move, Spline, Pill, Hexagon, Egg, PenTool } from 'lucide-react';
 import { FaceSketchTool } from '@/lib/geometry';
 
 interface FaceSketchToolbarProps {
@@ -10,10 +11,21 @@ interface FaceSketchToolbarProps {
   faceHeight: number;
   onFinish: () => void;
   onExit: () => void;
+  /** Sides of the next polygon drawn */
+  polygonSides: number;
+  onPolygonSidesChange: (sides: number) => void;
 }
 
+const SHAPE_TOOLS: { tool: FaceSketchTool; icon: typeof Circle; label: string }[] = [
+  { tool: 'arc', icon: Spline, label: 'Arc' },
+  { tool: 'slot', icon: Pill, label: 'Slot' },
+  { tool: 'polygon', icon: Hexagon, label: 'Polygon' },
+  { tool: 'ellipse', icon: Egg, label: 'Ellipse' },
+  { tool: 'spline', icon: PenTool, label: 'Spline' },
+];
+
 export function FaceSketchToolbar({
-  activeTool, onToolChange, faceId, faceWidth, faceHeight, onFinish, onExit,
+  activeTool, onToolChange, faceId, faceWidth, faceHeight, onFinish, onExit, polygonSides, onPolygonSidesChange,
 }: FaceSketchToolbarProps) {
   return (
     <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1 px-2 py-1.5 rounded-lg bg-card/95 border border-border shadow-lg backdrop-blur-sm">
@@ -37,6 +49,17 @@ export function FaceSketchToolbar({
         onClick={() => onToolChange('point')}>
         <Dot className="h-3 w-3" /> Point
       </Button>
+      {SHAPE_TOOLS.map(({ tool, icon: Icon, label }) => (
+        <Button key={tool} variant={activeTool === tool ? 'default' : 'ghost'} size="sm" className="h-7 text-xs gap-1"
+          onClick={() => onToolChange(tool)}>
+          <Icon className="h-3 w-3" /> {label}
+        </Button>
+      ))}
+      {activeTool === 'polygon' && (
+        <Input type="number" min={3} max={24} step={1} value={polygonSides} title="Polygon sides"
+          onChange={(e) => onPolygonSidesChange(Math.min(24, Math.max(3, Math.round(parseFloat(e.target.value) || 3))))}
+          className="h-7 w-14 text-xs font-mono" />
+      )}
       <div className="w-px h-5 bg-border mx-1" />
       <Button variant={activeTool === 'move' ? 'default' : 'ghost'} size="sm" className="h-7 text-xs gap-1"
         onClick={() => onToolChange('move')}>
@@ -5,29 +5,37 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ArrowUpFromLine, ArrowDownFromLine } from 'lucide-react';
-import { FaceSketchLine } from '@/lib/geometry';
+import { FaceSketchLine, BendReliefType, BEND_RELIEF_LABELS } from '@/lib/geometry';
+import { parseKFactor } from '@/lib/sheetmetal';
 
 interface FoldDialogProps {
   open: boolean;
   sketchLine: FaceSketchLine;
   defaultBendRadius: number;
+  /** K-factor the fold gets when no override is entered */
+  defaultKFactor: number;
   onApply: (params: {
     angle: number;
     direction: 'up' | 'down';
     bendRadius: number;
     foldLocation: 'centerline' | 'material-inside' | 'material-outside';
+    kFactor?: number;
+    reliefType?: BendReliefType;
   }) => void;
   onClose: () => void;
 }
 
 type FoldLocation = 'centerline' | 'material-inside' | 'material-outside';
 
-export function FoldDialog({ open, sketchLine, defaultBendRadius, onApply, onClose }: FoldDialogProps) {
+export function FoldDialog({ open, sketchLine, defaultBendRadius, defaultKFactor, onApply, onClose }: FoldDialogProps) {
   const [angle, setAngle] = useState(90);
   const [direction, setDirection] = useState<'up' | 'down'>('up');
   const [bendRadius, setBendRadius] = useState(defaultBendRadius);
   const [foldLocation, setFoldLocation] = useState<FoldLocation>('centerline');
+  const [kFactor, setKFactor] = useState<number | undefined>(undefined);
+  const [reliefType, setReliefType] = useState<BendReliefType | undefined>(undefined);
 
   // Derive orientation from line geometry
   const isHoriz = Math.abs(sketchLine.start.y - sketchLine.end.y) < 1;
@@ -107,11 +115,35 @@ export function FoldDialog({ open, sketchLine, defaultBendRadius, onApply, onClo
               onChange={(e) => setBendRadius(parseFloat(e.target.value) || 1)}
               className="h-8 text-xs font-mono" />
           </div>
+
+          {/* Per-bend overrides */}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">K-Factor</Label>
+              <Input type="number" step={0.01} min={0} max={1} value={kFactor ?? ''}
+                placeholder={`${defaultKFactor} (default)`}
+                onChange={(e) => setKFactor(parseKFactor(e.target.value))}
+                className="h-8 text-xs font-mono" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Relief</Label>
+              <Select value={reliefType ?? 'default'}
+                onValueChange={(v) => setReliefType(v === 'default' ? undefined : v as BendReliefType)}>
+                <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default" className="text-xs">Default</SelectItem>
+                  {Object.entries(BEND_RELIEF_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
         </div>
 
         <DialogFooter>
           <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
-          <Button size="sm" onClick={() => onApply({ angle, direction, bendRadius, foldLocation })}>
+          <Button size="sm" onClick={() => onApply({ angle, direction, bendRadius, foldLocation, kFactor, reliefType })}>
             Apply Fold
           </Button>
         </DialogFooter>
@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { ArrowDownFromLine, ArrowUpFromLine, Stamp, Trash2 } from 'lucide-react';
+import {
+  FaceSketch, FaceSketchPoint, FaceSketchRect, FormFeature, FormFeatureType, FORM_FEATURE_LABELS, isRoundForm,
+} from '@/lib/geometry';
+
+export type FormParams = Pick<FormFeature, 'type' | 'length' | 'width' | 'height' | 'rotation' | 'direction'>;
+
+interface FormToolPanelProps {
+  faceSketches: FaceSketch[];
+  forms: FormFeature[];
+  onApply: (locatorId: string, params: FormParams) => void;
+  onRemove: (id: string) => void;
+}
+
+/** Starting size of each tool when it is picked */
+const FORM_TOOL_DEFAULTS: Record<FormFeatureType, Omit<FormParams, 'type' | 'rotation' | 'direction'>> = {
+  louver: { length: 40, width: 8, height: 4 },
+  lance: { length: 20, width: 8, height: 3 },
+  emboss: { length: 30, width: 20, height: 2 },
+  dimple: { length: 12, width: 12, height: 3 },
+  bridgeLance: { length: 30, width: 8, height: 3 },
+  extrudedHole: { length: 10, width: 10, height: 4 },
+};
+
+const FORM_HINTS: Record<FormFeatureType, string> = {
+  louver: 'Vent raised open along one long side, ends drawn closed',
+  lance: 'Tab cut on three sides and raised at its free end',
+  emboss: 'Raised pad with drafted sides',
+  dimple: 'Round raised pad; length is the diameter',
+  bridgeLance: 'Strip cut along both sides and raised between its ends',
+  extrudedHole: 'Hole with a drawn collar; length is the outside diameter',
+};
+
+type Locator = { faceId: string; entity: FaceSketchPoint | FaceSketchRect };
+
+/**
+ * Form tool of the fold-flanges step: pick a face-sketch point or rect and
+ * stamp a louver, lance, emboss, dimple, bridge lance or extruded hole on it.
+ * A rect sets the tool's footprint; applying to a locator that already has a
+ * form edits it.
+ */
+export function FormToolPanel({ faceSketches, forms, onApply, onRemove }: FormToolPanelProps) {
+  const [locatorId, setLocatorId] = useState('');
+  const [params, setParams] = useState<FormParams>({ type: 'louver', ...FORM_TOOL_DEFAULTS.louver, rotation: 0, direction: 'up' });
+
+  const locators = useMemo(() => faceSketches.flatMap(fs => fs.entities
+    .filter((e): e is FaceSketchPoint | FaceSketchRect => e.type === 'point' || e.type === 'rect')
+    .map((entity): Locator => ({ faceId: fs.faceId, entity }))), [faceSketches]);
+  const locator = locators.find(l => l.entity.id === locatorId);
+  const sizedByRect = locator?.entity.type === 'rect';
+  const round = isRoundForm(params.type);
+
+  const locatorLabel = ({ faceId, entity }: Locator) => entity.type === 'point'
+    ? `Point (${entity.position.x.toFixed(1)}, ${entity.position.y.toFixed(1)}) · ${faceId}`
+    : `Rect ${entity.width.toFixed(1)} × ${entity.height.toFixed(1)} · ${faceId}`;
+
+  const update = (updates: Partial<FormParams>) => setParams({ ...params, ...updates });
+  const numberField = (label: string, key: 'length' | 'width' | 'height' | 'rotation', min: number, disabled = false) => (
+    <div className="space-y-1">
+      <Label className="text-[10px]">{label}</Label>
+      <Input type="number" step={key === 'rotation' ? 15 : 0.5} min={min} value={params[key]} disabled={disabled}
+        onChange={(e) => update({ [key]: Math.max(parseFloat(e.target.value) || 0, min) })}
+        className="h-7 text-xs font-mono" />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 rounded-lg bg-muted/50 border space-y-3">
+        <div className="flex items-center gap-2">
+          <Stamp className="h-4 w-4 text-primary" />
+          <p className="text-xs font-semibold">Form Tool</p>
+        </div>
+        {locators.length === 0 ? (
+          <p className="text-[10px] text-muted-foreground">Sketch a point or rectangle on a face first.</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="space-y-1">
+              <Label className="text-[10px]">Locator</Label>
+              <Select value={locatorId} onValueChange={setLocatorId}>
+                <SelectTrigger className="h-7 text-xs"><SelectValue placeholder="Pick a point or rect" /></SelectTrigger>
+                <SelectContent>
+                  {locators.map(l => (
+                    <SelectItem key={l.entity.id} value={l.entity.id} className="text-xs">{locatorLabel(l)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px]">Tool</Label>
+              <Select value={params.type}
+                onValueChange={(v) => update({ type: v as FormFeatureType, ...FORM_TOOL_DEFAULTS[v as FormFeatureType] })}>
+                <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FORM_FEATURE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-[10px] text-muted-foreground">{FORM_HINTS[params.type]}</p>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {numberField(round ? 'Diameter (mm)' : 'Length (mm)', 'length', 1, sizedByRect)}
+              {!round && numberField('Width (mm)', 'width', 1, sizedByRect)}
+              {numberField('Height (mm)', 'height', 0.1)}
+              {!round && numberField('Rotation (°)', 'rotation', -360, sizedByRect)}
+            </div>
+            {sizedByRect && <p className="text-[10px] text-muted-foreground">The rectangle sets the footprint</p>}
+            <div className="flex gap-1">
+              <Button variant={params.direction === 'up' ? 'default' : 'outline'} size="sm"
+                className="flex-1 h-7 text-[10px] gap-1" onClick={() => update({ direction: 'up' })}>
+                <ArrowUpFromLine className="h-3 w-3" /> Up
+              </Button>
+              <Button variant={params.direction === 'down' ? 'default' : 'outline'} size="sm"
+                className="flex-1 h-7 text-[10px] gap-1" onClick={() => update({ direction: 'down' })}>
+                <ArrowDownFromLine className="h-3 w-3" /> Down
+              </Button>
+            </div>
+            <Button size="sm" className="w-full h-7 text-xs" disabled={!locator}
+              onClick={() => onApply(locatorId, params)}>
+              Apply Form
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {forms.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold">Forms ({forms.length})</p>
+          {forms.map(f => (
+            <div key={f.id} className="flex items-center justify-between p-2 rounded bg-muted/30 border text-[10px]">
+              <button className="font-mono text-left" title="Edit this form"
+                onClick={() => {
+                  setLocatorId(f.locatorId);
+                  setParams({ type: f.type, length: f.length, width: f.width, height: f.height, rotation: f.rotation, direction: f.direction });
+                }}>
+                {FORM_FEATURE_LABELS[f.type]} · {f.height}mm {f.direction}
+                <br />
+                <span className="text-muted-foreground">{f.faceId}</span>
+              </button>
+              <Button variant="ghost" size="icon" className="h-5 w-5 text-destructive" onClick={() => onRemove(f.id)}>
+                <Trash2 className="h-2.5 w-2.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { ArrowDownFromLine, ArrowUpFromLine, Plus, Trash2, Undo2 } from 'lucide-react';
+import { Hem, HemType, HEM_TYPE_LABELS, hemBend } from '@/lib/geometry';
+import { SheetMetalDefaults, effectiveKFactor, parseKFactor } from '@/lib/sheetmetal';
+import { bendTableKFactor } from '@/lib/bendTables';
+
+export type HemParams = Pick<Hem, 'type' | 'length' | 'radius' | 'direction' | 'kFactor'>;
+
+interface HemPanelProps {
+  /** Hem already on the selected edge; edited in place */
+  hem: Hem | null;
+  defaults: SheetMetalDefaults;
+  onAdd: (params: HemParams) => void;
+  onUpdate: (id: string, updates: Partial<Hem>) => void;
+  onRemove: (id: string) => void;
+}
+
+const HEM_HINTS: Record<HemType, string> = {
+  closed: 'Folded 180° and pressed flat onto the face',
+  open: 'Folded 180°, leaving twice the radius between leg and face',
+  teardrop: 'Folded past 180° until the leg touches the face',
+  rolled: 'Curled 270° around the radius',
+};
+
+function HemFields({ params, defaults, onChange }: {
+  params: HemParams;
+  defaults: SheetMetalDefaults;
+  onChange: (updates: Partial<HemParams>) => void;
+}) {
+  // What the hem bends with when no K-factor of its own is set
+  const defaultK = effectiveKFactor(
+    params.radius, defaults.kFactor, defaults.thickness, hemBend(params, defaults.thickness).angle,
+    bendTableKFactor(defaults.bendTable),
+  );
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        <Label className="text-[10px]">Hem Type</Label>
+        <Select value={params.type} onValueChange={(v) => onChange({ type: v as HemType })}>
+          <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {Object.entries(HEM_TYPE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-[10px] text-muted-foreground">{HEM_HINTS[params.type]}</p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-[10px]">Length (mm)</Label>
+          <Input type="number" step={1} min={1} value={params.length}
+            onChange={(e) => onChange({ length: Math.max(parseFloat(e.target.value) || 10, 0.1) })}
+            className="h-7 text-xs font-mono" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-[10px]">Radius (mm)</Label>
+          <Input type="number" step={0.1} min={0} value={params.radius}
+            onChange={(e) => onChange({ radius: Math.max(parseFloat(e.target.value) || 0, 0) })}
+            className="h-7 text-xs font-mono" />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-[10px]">K-Factor</Label>
+        <Input type="number" step={0.01} min={0} max={1} value={params.kFactor ?? ''}
+          placeholder={`${defaultK} (default)`}
+          onChange={(e) => onChange({ kFactor: parseKFactor(e.target.value) })}
+          className="h-7 text-xs font-mono" />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-[10px]">Direction</Label>
+        <div className="flex gap-1">
+          <Button variant={params.direction === 'up' ? 'default' : 'outline'} size="sm"
+            className="flex-1 h-7 text-[10px] gap-1" onClick={() => onChange({ direction: 'up' })}>
+            <ArrowUpFromLine className="h-3 w-3" /> Up
+          </Button>
+          <Button variant={params.direction === 'down' ? 'default' : 'outline'} size="sm"
+            className="flex-1 h-7 text-[10px] gap-1" onClick={() => onChange({ direction: 'down' })}>
+            <ArrowDownFromLine className="h-3 w-3" /> Down
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Hem tool for the selected edge: adds a hem, or edits the one already on it.
+ */
+export function HemPanel({ hem, defaults, onAdd, onUpdate, onRemove }: HemPanelProps) {
+  const [draft, setDraft] = useState<HemParams>({ type: 'closed', length: 10, radius: defaults.bendRadius, direction: 'up' });
+
+  if (hem) {
+    return (
+      <div className="p-3 rounded-lg bg-accent/10 border border-accent/30 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Undo2 className="h-4 w-4 text-accent" />
+            <p className="text-xs font-semibold">Hem</p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-6 w-6 text-destructive" onClick={() => onRemove(hem.id)}>
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+        <HemFields params={hem} defaults={defaults} onChange={(updates) => onUpdate(hem.id, updates)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/50 border space-y-3">
+      <div className="flex items-center gap-2">
+        <Undo2 className="h-4 w-4 text-primary" />
+        <p className="text-xs font-semibold">Add Hem</p>
+      </div>
+      <HemFields params={draft} defaults={defaults} onChange={(updates) => setDraft({ ...draft, ...updates })} />
+      <Button size="sm" className="w-full text-xs gap-1" onClick={() => onAdd(draft)}>
+        <Plus className="h-3 w-3" /> Add Hem
+      </Button>
+    </div>
+  );
+}
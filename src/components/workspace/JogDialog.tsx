@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowUpFromLine, ArrowDownFromLine } from 'lucide-react';
+import { FaceSketchLine, JogDimension, JOG_DIMENSION_LABELS } from '@/lib/geometry';
+
+/** Which side of the jog line stays put: the one holding the face centre, or the one toward the edge */
+export type JogFixedSide = 'centre' | 'edge';
+
+export interface JogParams {
+  offset: number;
+  dimension: JogDimension;
+  fixedSide: JogFixedSide;
+  angle: number;
+  direction: 'up' | 'down';
+  bendRadius: number;
+}
+
+interface JogDialogProps {
+  open: boolean;
+  sketchLine: FaceSketchLine;
+  defaultBendRadius: number;
+  onApply: (params: JogParams) => void;
+  onClose: () => void;
+}
+
+export function JogDialog({ open, sketchLine, defaultBendRadius, onApply, onClose }: JogDialogProps) {
+  const [offset, setOffset] = useState(10);
+  const [dimension, setDimension] = useState<JogDimension>('outside');
+  const [fixedSide, setFixedSide] = useState<JogFixedSide>('centre');
+  const [angle, setAngle] = useState(90);
+  const [direction, setDirection] = useState<'up' | 'down'>('up');
+  const [bendRadius, setBendRadius] = useState(defaultBendRadius);
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-base">Jog</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="p-3 rounded-lg bg-muted/50 border">
+            <p className="text-xs text-muted-foreground mb-1">Jog Line</p>
+            <p className="text-[10px] font-mono text-muted-foreground">
+              ({sketchLine.start.x.toFixed(1)}, {sketchLine.start.y.toFixed(1)}) → ({sketchLine.end.x.toFixed(1)}, {sketchLine.end.y.toFixed(1)})
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Offset (mm)</Label>
+              <Input type="number" step={0.5} min={0.1} value={offset}
+                onChange={(e) => setOffset(Math.max(parseFloat(e.target.value) || 10, 0.1))}
+                className="h-8 text-xs font-mono" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Dimension</Label>
+              <div className="flex gap-1">
+                {(Object.keys(JOG_DIMENSION_LABELS) as JogDimension[]).map(d => (
+                  <Button key={d} variant={dimension === d ? 'default' : 'outline'} size="sm"
+                    className="flex-1 h-8 text-[10px] px-1" onClick={() => setDimension(d)}>
+                    {JOG_DIMENSION_LABELS[d]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Fixed Side</Label>
+            <div className="flex gap-1">
+              <Button variant={fixedSide === 'centre' ? 'default' : 'outline'} size="sm"
+                className="flex-1 h-8 text-xs" onClick={() => setFixedSide('centre')}>
+                Face Centre Side
+              </Button>
+              <Button variant={fixedSide === 'edge' ? 'default' : 'outline'} size="sm"
+                className="flex-1 h-8 text-xs" onClick={() => setFixedSide('edge')}>
+                Edge Side
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Jog Direction</Label>
+            <div className="flex gap-1">
+              <Button variant={direction === 'up' ? 'default' : 'outline'} size="sm"
+                className="flex-1 h-8 text-xs gap-1.5"
+                onClick={() => setDirection('up')}>
+                <ArrowUpFromLine className="h-3.5 w-3.5" /> Up
+              </Button>
+              <Button variant={direction === 'down' ? 'default' : 'outline'} size="sm"
+                className="flex-1 h-8 text-xs gap-1.5"
+                onClick={() => setDirection('down')}>
+                <ArrowDownFromLine className="h-3.5 w-3.5" /> Down
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Bend Angle (°)</Label>
+              <Input type="number" step={1} min={1} max={90} value={angle}
+                onChange={(e) => setAngle(Math.min(parseFloat(e.target.value) || 90, 90))}
+                className="h-8 text-xs font-mono" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Bend Radius (mm)</Label>
+              <Input type="number" step={0.1} min={0.1} value={bendRadius}
+                onChange={(e) => setBendRadius(parseFloat(e.target.value) || 1)}
+                className="h-8 text-xs font-mono" />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+          <Button size="sm" onClick={() => onApply({ offset, dimension, fixedSide, angle, direction, bendRadius })}>
+            Apply Jog
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls, GizmoHelper, GizmoViewcube, Grid, PerspectiveCamera, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { LoftedBend, loftBends, loftGeometry } from '@/lib/loft';
+import { SceneSetup } from './Viewer3D';
+
+interface LoftViewerProps {
+  loft: LoftedBend;
+  thickness: number;
+}
+
+/**
+ * 3D view of a lofted bend: the faceted sheet with its bend lines.
+ */
+export function LoftViewer({ loft, thickness }: LoftViewerProps) {
+  const geometry = useMemo(() => loftGeometry(loft, thickness), [loft, thickness]);
+  const bends = useMemo(() => loftBends(loft), [loft]);
+
+  const bounds = useMemo(() => {
+    const pts = [...loft.bottom, ...loft.top];
+    const xs = pts.map(p => p.x);
+    const ys = pts.map(p => p.y);
+    const minX = Math.min(...xs), maxX = Math.max(...xs);
+    const minY = Math.min(...ys), maxY = Math.max(...ys);
+    return { cx: (minX + maxX) / 2, cy: (minY + maxY) / 2, size: Math.max(maxX - minX, maxY - minY, loft.height) };
+  }, [loft]);
+
+  const target: [number, number, number] = [bounds.cx, bounds.cy, loft.height / 2];
+
+  return (
+    <div className="w-full h-full bg-cad-surface relative">
+      <Canvas>
+        <PerspectiveCamera makeDefault fov={45} near={0.1} far={10000}
+          position={[bounds.cx + bounds.size * 1.2, bounds.cy - bounds.size * 1.2, loft.height + bounds.size]} />
+        <SceneSetup />
+
+        <mesh geometry={geometry}>
+          <meshStandardMaterial color="#d4d8dd" metalness={0.08} roughness={0.65} side={THREE.DoubleSide} />
+        </mesh>
+        {bends.map(b => (
+          <Line key={b.rung} points={[b.bottom, b.top]} color="#3b82f6" lineWidth={1.5} dashed dashSize={2} gapSize={1} />
+        ))}
+
+        <Grid
+          args={[500, 500]}
+          cellSize={10} cellThickness={0.5} cellColor="#334155"
+          sectionSize={50} sectionThickness={1} sectionColor="#475569"
+          fadeDistance={300} fadeStrength={1}
+          position={[bounds.cx, bounds.cy, -0.01]}
+        />
+
+        <OrbitControls makeDefault target={target} enableDamping dampingFactor={0.1} />
+
+        <GizmoHelper alignment="bottom-right" margin={[80, 80]}>
+          <GizmoViewcube
+            color="#e8ecf0" hoverColor="#c5cad0"
+            textColor="#455a64" strokeColor="#90a4ae" opacity={1}
+          />
+        </GizmoHelper>
+      </Canvas>
+
+      <div className="absolute top-3 left-3 bg-card/90 border rounded-lg px-3 py-2 shadow-sm">
+        <p className="text-xs font-semibold">Lofted Bend</p>
+        <p className="text-[10px] text-muted-foreground font-mono">
+          {loft.height}mm high, {bends.length} bend line(s)
+        </p>
+      </div>
+    </div>
+  );
+}
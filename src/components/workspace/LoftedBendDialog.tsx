@@ -0,0 +1,86 @@
+import { useMemo, useState } from 'react';
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowUpDown } from 'lucide-react';
+import { SketchEntity } from '@/lib/sheetmetal';
+import { extractLoftProfiles, loftBends } from '@/lib/loft';
+
+export interface LoftedBendParams {
+  height: number;
+  /** Facets around a circular profile */
+  segments: number;
+  /** Put the smaller profile at the bottom */
+  swap: boolean;
+}
+
+interface LoftedBendDialogProps {
+  open: boolean;
+  entities: SketchEntity[];
+  onApply: (params: LoftedBendParams) => void;
+  onClose: () => void;
+}
+
+export function LoftedBendDialog({ open, entities, onApply, onClose }: LoftedBendDialogProps) {
+  const [height, setHeight] = useState(100);
+  const [segments, setSegments] = useState(16);
+  const [swap, setSwap] = useState(false);
+
+  const bendCount = useMemo(() => {
+    const profiles = extractLoftProfiles(entities, segments);
+    if (!profiles) return 0;
+    const [bottom, top] = swap ? [profiles[1], profiles[0]] : profiles;
+    return loftBends({ bottom, top, height }).length;
+  }, [entities, segments, swap, height]);
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-base">Lofted Bend</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="p-3 rounded-lg bg-muted/50 border">
+            <p className="text-xs text-muted-foreground mb-1">Profiles</p>
+            <p className="text-[10px] text-muted-foreground">
+              The largest closed shape is the bottom, the next largest the top; their sketch positions set the offset.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Height (mm)</Label>
+              <Input type="number" step={1} min={1} value={height}
+                onChange={(e) => setHeight(Math.max(parseFloat(e.target.value) || 100, 1))}
+                className="h-8 text-xs font-mono" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Facets per Circle</Label>
+              <Input type="number" step={4} min={4} max={128} value={segments}
+                onChange={(e) => setSegments(Math.min(Math.max(Math.round(parseFloat(e.target.value)) || 16, 4), 128))}
+                className="h-8 text-xs font-mono" />
+            </div>
+          </div>
+
+          <Button variant={swap ? 'default' : 'outline'} size="sm" className="w-full h-8 text-xs gap-1.5"
+            onClick={() => setSwap(!swap)}>
+            <ArrowUpDown className="h-3.5 w-3.5" /> Swap Top and Bottom
+          </Button>
+
+          <p className="text-[10px] text-muted-foreground font-mono">{bendCount} bend line(s)</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+          <Button size="sm" onClick={() => onApply({ height, segments, swap })}>
+            Create Lofted Bend
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState, useRef } from 'react';
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Plus, Trash2, Upload, Download, Lock, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useMaterialLibrary } from '@/hooks/useMaterialLibrary';
+import {
+  Material, saveCustomMaterial, removeCustomMaterial, importMaterialLibrary, downloadMaterialLibrary,
+} from '@/lib/materials';
+import { toast } from 'sonner';
+
+interface MaterialLibraryDialogProps {
+  open: boolean;
+  currentMaterial: string;
+  onSelect: (material: Material) => void;
+  onClose: () => void;
+}
+
+interface MaterialDraft {
+  name: string;
+  density: string;
+  yieldStrength: string;
+  gauges: string;
+  kFactorTable: string;
+}
+
+const EMPTY_DRAFT: MaterialDraft = {
+  name: '',
+  density: '7.85',
+  yieldStrength: '250',
+  gauges: '1 : 1\n2 : 2',
+  kFactorTable: '1 : 0.44\n5 : 0.5',
+};
+
+function toDraft(m: Material): MaterialDraft {
+  return {
+    name: m.name,
+    density: String(m.density),
+    yieldStrength: String(m.yieldStrength),
+    gauges: m.gauges.map(g => `${g.thickness} : ${g.minBendRadius}`).join('\n'),
+    kFactorTable: m.kFactorTable.map(p => `${p.radiusRatio} : ${p.kFactor}`).join('\n'),
+  };
+}
+
+/** "a : b" pairs, one per line */
+function parsePairs(text: string): [number, number][] {
+  return text.split('\n').map(l => l.trim()).filter(Boolean).map(line => {
+    const [a, b] = line.split(/[:;,\s]+/).map(parseFloat);
+    return [a, b];
+  });
+}
+
+function fromDraft(d: MaterialDraft): Material {
+  return {
+    name: d.name.trim(),
+    density: parseFloat(d.density),
+    yieldStrength: parseFloat(d.yieldStrength),
+    gauges: parsePairs(d.gauges).map(([thickness, minBendRadius]) => ({ thickness, minBendRadius })),
+    kFactorTable: parsePairs(d.kFactorTable).map(([radiusRatio, kFactor]) => ({ radiusRatio, kFactor })),
+  };
+}
+
+export function MaterialLibraryDialog({ open, currentMaterial, onSelect, onClose }: MaterialLibraryDialogProps) {
+  const materials = useMaterialLibrary();
+  const [selectedName, setSelectedName] = useState<string | null>(currentMaterial);
+  const [draft, setDraft] = useState<MaterialDraft | null>(null);
+  // Custom material being edited; renaming it replaces the old entry
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = materials.find(m => m.name === selectedName) ?? null;
+  const editable = draft !== null;
+
+  const handleSave = () => {
+    if (!draft) return;
+    try {
+      const material = fromDraft(draft);
+      saveCustomMaterial(material);
+      if (editingName && editingName !== material.name) removeCustomMaterial(editingName);
+      setSelectedName(material.name);
+      setEditingName(null);
+      setDraft(null);
+      toast.success('Material saved', { description: material.name });
+    } catch (err) {
+      toast.error('Cannot save material', { description: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = importMaterialLibrary(await file.text());
+      toast.success('Materials imported', { description: `${count} custom material(s)` });
+    } catch (err) {
+      toast.error('Cannot import materials', { description: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const shown = draft ?? (selected ? toDraft(selected) : null);
+
+  const field = (key: keyof MaterialDraft, label: string) => (
+    <div className="space-y-1">
+      <Label className="text-[10px]">{label}</Label>
+      <Input value={shown?.[key] ?? ''} disabled={!editable}
+        onChange={e => draft && setDraft({ ...draft, [key]: e.target.value })}
+        className="h-7 text-xs font-mono" />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-base">Material Library</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex gap-4 min-h-[320px]">
+          <div className="w-48 shrink-0 flex flex-col border rounded-lg">
+            <ScrollArea className="flex-1">
+              <div className="p-1 space-y-0.5">
+                {materials.map(m => (
+                  <button key={m.name}
+                    onClick={() => { setSelectedName(m.name); setDraft(null); }}
+                    className={cn(
+                      'w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs text-left',
+                      m.name === selectedName && !draft ? 'bg-primary/15 text-primary font-semibold' : 'hover:bg-muted/50',
+                    )}>
+                    <span className="truncate flex-1">{m.name}</span>
+                    {m.builtIn && <Lock className="h-3 w-3 text-muted-foreground" />}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+            <div className="p-1 border-t">
+              <Button variant="ghost" size="sm" className="w-full h-7 text-xs gap-1"
+                onClick={() => { setEditingName(null); setDraft({ ...(selected ? toDraft(selected) : EMPTY_DRAFT), name: '' }); }}>
+                <Plus className="h-3 w-3" /> New Material
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex-1 space-y-3">
+            {shown ? (
+              <>
+                {field('name', 'Name')}
+                <div className="grid grid-cols-2 gap-2">
+                  {field('density', 'Density (g/cm³)')}
+                  {field('yieldStrength', 'Yield Strength (MPa)')}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-[10px]">Gauges — thickness : min. bend radius (mm)</Label>
+                    <Textarea value={shown.gauges} disabled={!editable} rows={7}
+                      onChange={e => draft && setDraft({ ...draft, gauges: e.target.value })}
+                      className="text-xs font-mono" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-[10px]">K-factor — r/t : K</Label>
+                    <Textarea value={shown.kFactorTable} disabled={!editable} rows={7}
+                      onChange={e => draft && setDraft({ ...draft, kFactorTable: e.target.value })}
+                      className="text-xs font-mono" />
+                  </div>
+                </div>
+                {!editable && selected?.builtIn && (
+                  <p className="text-[10px] text-muted-foreground">
+                    Built-in materials are read-only. Use New Material to start a custom copy.
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">Select a material.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between gap-2">
+          <div className="flex gap-1">
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            <Button variant="outline" size="sm" className="h-8 text-xs gap-1" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-3 w-3" /> Import
+            </Button>
+            <Button variant="outline" size="sm" className="h-8 text-xs gap-1" onClick={downloadMaterialLibrary}>
+              <Download className="h-3 w-3" /> Export
+            </Button>
+          </div>
+          <div className="flex gap-1">
+            {draft ? (
+              <>
+                <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setDraft(null)}>Cancel</Button>
+                <Button size="sm" className="h-8 text-xs" onClick={handleSave}>Save Material</Button>
+              </>
+            ) : selected && (
+              <>
+                {!selected.builtIn && (
+                  <>
+                    <Button variant="ghost" size="sm" className="h-8 text-xs gap-1 text-destructive"
+                      onClick={() => { removeCustomMaterial(selected.name); setSelectedName(null); }}>
+                      <Trash2 className="h-3 w-3" /> Delete
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => { setEditingName(selected.name); setDraft(toDraft(selected)); }}>
+                      Edit
+                    </Button>
+                  </>
+                )}
+                <Button size="sm" className="h-8 text-xs gap-1" onClick={() => { onSelect(selected); onClose(); }}>
+                  <Check className="h-3 w-3" /> Use Material
+                </Button>
+              </>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
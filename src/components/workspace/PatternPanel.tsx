@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Grid3x3, RotateCw, Trash2 } from 'lucide-react';
+import { Point2D } from '@/lib/sheetmetal';
+import { FaceSketchCircle, FaceSketchRect, PatternLayout, SketchPattern, patternLabel } from '@/lib/geometry';
+
+/** A circle or rect that can be patterned, in the face-sketch coordinates of its face */
+export interface PatternSeed {
+  faceId: string;
+  entity: FaceSketchCircle | FaceSketchRect;
+  /** Cut out by the base sketch rather than sketched on the face */
+  cutout: boolean;
+  /** Centre of the face, where a new circular pattern turns around */
+  faceCenter: Point2D;
+}
+
+interface PatternPanelProps {
+  seeds: PatternSeed[];
+  patterns: SketchPattern[];
+  /** Copies of each pattern left out because they leave the face or run into a bend */
+  suppressed: Record<string, number>;
+  onApply: (sourceId: string, layout: PatternLayout) => void;
+  onRemove: (id: string) => void;
+}
+
+const DEFAULT_LINEAR: PatternLayout = { type: 'linear', columns: 3, rows: 1, columnSpacing: 20, rowSpacing: 20 };
+
+/**
+ * Pattern tool of the fold-flanges step: repeat a face-sketch circle or rect,
+ * or a cutout of the base sketch, in rows and columns or around a centre.
+ * Applying to a seed that already has a pattern edits it.
+ */
+export function PatternPanel({ seeds, patterns, suppressed, onApply, onRemove }: PatternPanelProps) {
+  const [sourceId, setSourceId] = useState('');
+  const [layout, setLayout] = useState<PatternLayout>(DEFAULT_LINEAR);
+  const seed = seeds.find(s => s.entity.id === sourceId);
+
+  const seedLabel = ({ faceId, entity, cutout }: PatternSeed) => {
+    const shape = entity.type === 'circle'
+      ? `Circle ⌀${(entity.radius * 2).toFixed(1)}`
+      : `Rect ${entity.width.toFixed(1)} × ${entity.height.toFixed(1)}`;
+    return `${shape} · ${cutout ? 'base cutout' : faceId}`;
+  };
+
+  const switchTo = (type: PatternLayout['type']) => {
+    if (type === layout.type) return;
+    setLayout(type === 'linear'
+      ? DEFAULT_LINEAR
+      : { type: 'circular', count: 6, angle: 360, center: seed?.faceCenter ?? { x: 0, y: 0 } });
+  };
+
+  const numberField = (label: string, value: number, onChange: (v: number) => void, step = 1, min = -Infinity) => (
+    <div className="space-y-1">
+      <Label className="text-[10px]">{label}</Label>
+      <Input type="number" step={step} min={Number.isFinite(min) ? min : undefined} value={value}
+        onChange={(e) => onChange(Math.max(parseFloat(e.target.value) || 0, min))}
+        className="h-7 text-xs font-mono" />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 rounded-lg bg-muted/50 border space-y-3">
+        <div className="flex items-center gap-2">
+          <Grid3x3 className="h-4 w-4 text-primary" />
+          <p className="text-xs font-semibold">Pattern</p>
+        </div>
+        {seeds.length === 0 ? (
+          <p className="text-[10px] text-muted-foreground">Sketch a circle or rectangle on a face, or cut one out of the base sketch, first.</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="space-y-1">
+              <Label className="text-[10px]">Seed</Label>
+              <Select value={sourceId} onValueChange={(id) => {
+                setSourceId(id);
+                const picked = seeds.find(s => s.entity.id === id);
+                if (picked && layout.type === 'circular') setLayout({ ...layout, center: picked.faceCenter });
+              }}>
+                <SelectTrigger className="h-7 text-xs"><SelectValue placeholder="Pick a circle or rect" /></SelectTrigger>
+                <SelectContent>
+                  {seeds.map(s => (
+                    <SelectItem key={s.entity.id} value={s.entity.id} className="text-xs">{seedLabel(s)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-1">
+              <Button variant={layout.type === 'linear' ? 'default' : 'outline'} size="sm"
+                className="flex-1 h-7 text-[10px] gap-1" onClick={() => switchTo('linear')}>
+                <Grid3x3 className="h-3 w-3" /> Linear
+              </Button>
+              <Button variant={layout.type === 'circular' ? 'default' : 'outline'} size="sm"
+                className="flex-1 h-7 text-[10px] gap-1" onClick={() => switchTo('circular')}>
+                <RotateCw className="h-3 w-3" /> Circular
+              </Button>
+            </div>
+            {layout.type === 'linear' ? (
+              <div className="grid grid-cols-2 gap-2">
+                {numberField('Columns', layout.columns, v => setLayout({ ...layout, columns: Math.round(v) }), 1, 1)}
+                {numberField('Rows', layout.rows, v => setLayout({ ...layout, rows: Math.round(v) }), 1, 1)}
+                {numberField('Column Spacing (mm)', layout.columnSpacing, v => setLayout({ ...layout, columnSpacing: v }), 0.5)}
+                {numberField('Row Spacing (mm)', layout.rowSpacing, v => setLayout({ ...layout, rowSpacing: v }), 0.5)}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {numberField('Count', layout.count, v => setLayout({ ...layout, count: Math.round(v) }), 1, 1)}
+                {numberField('Angle (°)', layout.angle, v => setLayout({ ...layout, angle: v }), 15)}
+                {numberField('Centre X (mm)', layout.center.x, v => setLayout({ ...layout, center: { ...layout.center, x: v } }), 0.5)}
+                {numberField('Centre Y (mm)', layout.center.y, v => setLayout({ ...layout, center: { ...layout.center, y: v } }), 0.5)}
+              </div>
+            )}
+            <p className="text-[10px] text-muted-foreground">
+              {layout.type === 'linear'
+                ? 'Negative spacing runs the copies left or down'
+                : '360° spaces the copies evenly; a smaller angle puts the last copy at its end'}
+            </p>
+            <Button size="sm" className="w-full h-7 text-xs" disabled={!seed}
+              onClick={() => onApply(sourceId, layout)}>
+              Apply Pattern
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {patterns.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold">Patterns ({patterns.length})</p>
+          {patterns.map(p => (
+            <div key={p.id} className="flex items-center justify-between p-2 rounded bg-muted/30 border text-[10px]">
+              <button className="font-mono text-left" title="Edit this pattern"
+                onClick={() => { setSourceId(p.sourceId); setLayout(p.layout); }}>
+                {patternLabel(p)}
+                <br />
+                <span className="text-muted-foreground">
+                  {p.faceId}{suppressed[p.id] ? ` · ${suppressed[p.id]} suppressed` : ''}
+                </span>
+              </button>
+              <Button variant="ghost" size="icon" className="h-5 w-5 text-destructive" onClick={() => onRemove(p.id)}>
+                <Trash2 className="h-2.5 w-2.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,129 @@
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
-import { SheetMetalDefaults, MATERIALS } from '@/lib/sheetmetal';
-import { Settings2, ArrowUpFromLine, ArrowDownFromLine, Trash2, Plus, Scissors, PenLine, Minus, Circle, Square } from 'lucide-react';
-import { PartEdge, Flange, Fold, FaceSketch, FaceSketchLine, getUserFacingDirection } from '@/lib/geometry';
+import { SheetMetalDefaults, DEFAULT_RELIEF, effectiveKFactor, parseKFactor } from '@/lib/sheetmetal';
+import { applyMaterial, kFactorFor, minBendRadiusFor } from '@/lib/materials';
+import { useMaterialLibrary } from '@/hooks/useMaterialLibrary';
+import { MaterialLibraryDialog } from './MaterialLibraryDialog';
+import { CornerTreatmentPanel } from './CornerTreatmentPanel';
+import { HemPanel, HemParams } from './HemPanel';
+import { ArcFlangePanel, ArcFlangeParams } from './ArcFlangePanel';
+import { FormToolPanel, FormParams } from './FormToolPanel';
+import { PatternPanel, PatternSeed } from './PatternPanel';
+import { BEND_TABLE_TYPE_LABELS, bendTableKFactor, parseBendTable } from '@/lib/bendTables';
+import { toast } from 'sonner';
+import { Library, AlertTriangle, TableProperties, Upload, X, Settings2, ArrowUpFromLine, ArrowDownFromLine, Trash2, Plus, Scissors, PenLine, Minus, Circle, Square, TrendingUp, FlipHorizontal2 } from 'lucide-react';
+import {
+  PartEdge, Flange, Fold, FaceSketch, FaceSketchLine, BendReliefType, BEND_RELIEF_LABELS,
+  CornerReliefType, CORNER_RELIEF_LABELS, ReliefSettings, CornerTreatment, CornerTreatmentType,
+  FlangeExtent, ArcFlange, FormFeature, Hem, Jog, PatternLayout, SketchPattern, JogDimension, JOG_DIMENSION_LABELS, flangeSpan, getUserFacingDirection,
+} from '@/lib/geometry';
+
+type BendOverrideUpdates = Partial<Pick<Fold, 'bendRadius' | 'kFactor' | 'reliefType'>>;
+
+/** Radius, K-factor and relief of one bend; an empty K-factor falls back to the table/default */
+function BendOverrideFields({ bend, defaults, onChange }: {
+  bend: Pick<Fold, 'angle' | 'bendRadius' | 'kFactor' | 'reliefType'>;
+  defaults: SheetMetalDefaults;
+  onChange: (updates: BendOverrideUpdates) => void;
+}) {
+  const defaultK = effectiveKFactor(
+    bend.bendRadius, defaults.kFactor, defaults.thickness, bend.angle, bendTableKFactor(defaults.bendTable),
+  );
+  return (
+    <>
+      <div className="space-y-1">
+        <Label className="text-[10px]">Bend Radius (mm)</Label>
+        <Input type="number" step={0.1} min={0} value={bend.bendRadius}
+          onChange={(e) => onChange({ bendRadius: Math.max(0, parseFloat(e.target.value) || 0) })}
+          className="h-7 text-xs font-mono" />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-[10px]">K-Factor</Label>
+        <Input type="number" step={0.01} min={0} max={1} value={bend.kFactor ?? ''}
+          placeholder={`${defaultK} (default)`}
+          onChange={(e) => onChange({ kFactor: parseKFactor(e.target.value) })}
+          className="h-7 text-xs font-mono" />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-[10px]">Relief</Label>
+        <Select value={bend.reliefType ?? 'default'}
+          onValueChange={(v) => onChange({ reliefType: v === 'default' ? undefined : v as BendReliefType })}>
+          <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default" className="text-xs">Default</SelectItem>
+            {Object.entries(BEND_RELIEF_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </>
+  );
+}
+
+type ExtentMode = 'full' | 'offsets' | 'width';
+
+/** Full edge, start/end offsets, or a width centred on the edge */
+function FlangeExtentFields({ extent, edgeLength, onChange }: {
+  extent: FlangeExtent;
+  edgeLength: number;
+  onChange: (extent: FlangeExtent) => void;
+}) {
+  const extentMode: ExtentMode = extent.width !== undefined
+    ? 'width'
+    : extent.startOffset !== undefined || extent.endOffset !== undefined ? 'offsets' : 'full';
+  const span = flangeSpan(extent, edgeLength);
+  const setMode = (m: ExtentMode) => onChange(
+    m === 'width' ? { startOffset: undefined, endOffset: undefined, width: Math.round(edgeLength / 2) }
+      : m === 'offsets' ? { startOffset: 0, endOffset: 0, width: undefined }
+        : { startOffset: undefined, endOffset: undefined, width: undefined },
+  );
+  const mm = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-[10px]">Width</Label>
+      <Select value={extentMode} onValueChange={(v) => setMode(v as ExtentMode)}>
+        <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="full" className="text-xs">Full Edge</SelectItem>
+          <SelectItem value="offsets" className="text-xs">Offsets from Ends</SelectItem>
+          <SelectItem value="width" className="text-xs">Centered Width</SelectItem>
+        </SelectContent>
+      </Select>
+      {extentMode === 'offsets' && (
+        <div className="grid grid-cols-2 gap-2">
+          <Input type="number" step={1} min={0} value={extent.startOffset ?? 0} title="Start offset (mm)"
+            onChange={(e) => onChange({ ...extent, startOffset: mm(e.target.value) })}
+            className="h-7 text-xs font-mono" />
+          <Input type="number" step={1} min={0} value={extent.endOffset ?? 0} title="End offset (mm)"
+            onChange={(e) => onChange({ ...extent, endOffset: mm(e.target.value) })}
+            className="h-7 text-xs font-mono" />
+        </div>
+      )}
+      {extentMode === 'width' && (
+        <Input type="number" step={1} min={1} value={extent.width} title="Width (mm)"
+          onChange={(e) => onChange({ ...extent, width: mm(e.target.value) })}
+          className="h-7 text-xs font-mono" />
+      )}
+      {extentMode !== 'full' && (
+        span ? (
+          <p className="text-[10px] text-muted-foreground">
+            {(span[1] - span[0]).toFixed(1)} mm from {span[0].toFixed(1)} of {edgeLength.toFixed(1)} mm
+          </p>
+        ) : (
+          <p className="text-[10px] text-destructive flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" /> No flange left on this edge
+          </p>
+        )
+      )}
+    </div>
+  );
+}
 
 interface PropertiesPanelProps {
   defaults: SheetMetalDefaults;
@@ -18,11 +135,44 @@ interface PropertiesPanelProps {
   selectedEdge?: PartEdge | null;
   flanges?: Flange[];
   onAddFlange?: (height: number, angle: number, direction: 'up' | 'down') => void;
+  /** Extent of the flange about to be added; previewed on the selected edge */
+  flangeExtent?: FlangeExtent;
+  onFlangeExtentChange?: (extent: FlangeExtent) => void;
   onUpdateFlange?: (id: string, updates: Partial<Flange>) => void;
   onRemoveFlange?: (id: string) => void;
+  arcFlanges?: ArcFlange[];
+  /** Facets in the arc the selected edge belongs to; 0 on a straight edge */
+  arcRunLength?: number;
+  onAddArcFlange?: (params: ArcFlangeParams) => void;
+  onUpdateArcFlange?: (id: string, updates: Partial<ArcFlange>) => void;
+  onRemoveArcFlange?: (id: string) => void;
   folds?: Fold[];
+  /** Fold picked in the feature tree; shown with editable parameters */
+  selectedFoldId?: string | null;
+  onUpdateFold?: (id: string, updates: Partial<Fold>) => void;
   onRemoveFold?: (id: string) => void;
-  subMode?: 'edge' | 'sketch' | 'fold';
+  jogs?: Jog[];
+  /** Jog picked in the feature tree; shown with editable parameters */
+  selectedJogId?: string | null;
+  onUpdateJog?: (id: string, updates: Partial<Jog>) => void;
+  onRemoveJog?: (id: string) => void;
+  corners?: CornerTreatment[];
+  onApplyCorner?: (flangeIds: [string, string], type: CornerTreatmentType, gap: number) => void;
+  onRemoveCorner?: (id: string) => void;
+  hems?: Hem[];
+  onAddHem?: (params: HemParams) => void;
+  onUpdateHem?: (id: string, updates: Partial<Hem>) => void;
+  onRemoveHem?: (id: string) => void;
+  forms?: FormFeature[];
+  onApplyForm?: (locatorId: string, params: FormParams) => void;
+  onRemoveForm?: (id: string) => void;
+  patternSeeds?: PatternSeed[];
+  patterns?: SketchPattern[];
+  /** Copies each pattern had to leave out */
+  suppressedCopies?: Record<string, number>;
+  onApplyPattern?: (sourceId: string, layout: PatternLayout) => void;
+  onRemovePattern?: (id: string) => void;
+  subMode?: 'edge' | 'sketch' | 'fold' | 'jog' | 'corner' | 'form' | 'pattern';
   faceSketches?: FaceSketch[];
   selectedSketchLine?: FaceSketchLine | null;
 }
@@ -30,18 +180,58 @@ interface PropertiesPanelProps {
 export function PropertiesPanel({
   defaults, onDefaultsChange, gridSize, onGridSizeChange,
   entityCount, mode = 'sketch', selectedEdge,
-  flanges = [], onAddFlange, onUpdateFlange, onRemoveFlange,
-  folds = [], onRemoveFold,
+  flanges = [], onAddFlange, flangeExtent = {}, onFlangeExtentChange, onUpdateFlange, onRemoveFlange,
+  arcFlanges = [], arcRunLength = 0, onAddArcFlange, onUpdateArcFlange, onRemoveArcFlange,
+  folds = [], selectedFoldId = null, onUpdateFold, onRemoveFold,
+  jogs = [], selectedJogId = null, onUpdateJog, onRemoveJog,
+  corners = [], onApplyCorner, onRemoveCorner,
+  hems = [], onAddHem, onUpdateHem, onRemoveHem,
+  forms = [], onApplyForm, onRemoveForm,
+  patternSeeds = [], patterns = [], suppressedCopies = {}, onApplyPattern, onRemovePattern,
   subMode, faceSketches = [], selectedSketchLine,
 }: PropertiesPanelProps) {
   const [flangeHeight, setFlangeHeight] = useState(20);
   const [flangeAngle, setFlangeAngle] = useState(90);
   const [flangeDirection, setFlangeDirection] = useState<'up' | 'down'>('up');
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const bendTableInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportBendTable = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const bendTable = parseBendTable(await file.text(), file.name);
+      onDefaultsChange({ ...defaults, bendTable });
+      toast.success('Bend table imported', {
+        description: `${BEND_TABLE_TYPE_LABELS[bendTable.type]} · ${bendTable.entries.length} row(s)`,
+      });
+    } catch (err) {
+      toast.error('Cannot import bend table', { description: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const materials = useMaterialLibrary();
+  const material = materials.find(m => m.name === defaults.material);
+  const minBendRadius = material ? minBendRadiusFor(material, defaults.thickness) : 0;
+
+  // Thickness and radius changes re-derive the K-factor from the material's r/t table
+  const updateBend = (updates: Partial<Pick<SheetMetalDefaults, 'thickness' | 'bendRadius'>>) => {
+    const next = { ...defaults, ...updates };
+    onDefaultsChange(material ? { ...next, kFactor: kFactorFor(material, next.bendRadius, next.thickness) } : next);
+  };
+
+  const relief = defaults.relief ?? DEFAULT_RELIEF;
+  const updateRelief = (updates: Partial<ReliefSettings>) => onDefaultsChange({ ...defaults, relief: { ...relief, ...updates } });
 
   const existingFlange = selectedEdge
     ? flanges.find(f => f.edgeId === selectedEdge.id)
     : null;
   const edgeHasFlange = !!existingFlange;
+  const existingHem = selectedEdge ? hems.find(h => h.edgeId === selectedEdge.id) ?? null : null;
+  const existingArcFlange = selectedEdge ? arcFlanges.find(a => a.edgeIds.includes(selectedEdge.id)) ?? null : null;
+  const selectedFold = selectedFoldId ? folds.find(f => f.id === selectedFoldId) ?? null : null;
+  const selectedJog = selectedJogId ? jogs.find(j => j.id === selectedJogId) ?? null : null;
 
   const totalEntities = faceSketches.reduce((sum, fs) => sum + fs.entities.length, 0);
   const lineCount = faceSketches.reduce((sum, fs) => sum + fs.entities.filter(e => e.type === 'line').length, 0);
@@ -65,41 +255,62 @@ export function PropertiesPanel({
       <div className="p-4 space-y-4 flex-1">
         {/* Material */}
         <div className="space-y-1.5">
-          <Label className="text-xs">Material</Label>
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Material</Label>
+            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-[10px] gap-1 text-muted-foreground"
+              onClick={() => setLibraryOpen(true)}>
+              <Library className="h-3 w-3" /> Library
+            </Button>
+          </div>
           <Select
             value={defaults.material}
             onValueChange={(val) => {
-              const mat = MATERIALS.find(m => m.name === val);
-              onDefaultsChange({
-                ...defaults,
-                material: val,
-                kFactor: mat ? mat.defaultK : defaults.kFactor,
-              });
+              const mat = materials.find(m => m.name === val);
+              onDefaultsChange(mat ? applyMaterial(defaults, mat) : { ...defaults, material: val });
             }}
           >
             <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
             <SelectContent>
-              {MATERIALS.map(m => (
+              {materials.map(m => (
                 <SelectItem key={m.name} value={m.name} className="text-xs">{m.name}</SelectItem>
               ))}
+              {!material && (
+                <SelectItem value={defaults.material} className="text-xs">{defaults.material}</SelectItem>
+              )}
             </SelectContent>
           </Select>
+          {material && (
+            <p className="text-[10px] text-muted-foreground">
+              {material.density} g/cm³ · yield {material.yieldStrength} MPa
+            </p>
+          )}
         </div>
 
         {/* Thickness */}
         <div className="space-y-1.5">
           <Label className="text-xs">Thickness (mm)</Label>
-          <Input type="number" step={0.1} min={0.1} value={defaults.thickness}
-            onChange={(e) => onDefaultsChange({ ...defaults, thickness: parseFloat(e.target.value) || 1 })}
+          <Input type="number" step={0.1} min={0.1} value={defaults.thickness} list="material-gauges"
+            onChange={(e) => updateBend({ thickness: parseFloat(e.target.value) || 1 })}
             className="h-8 text-xs font-mono" />
+          <datalist id="material-gauges">
+            {material?.gauges.map(g => <option key={g.thickness} value={g.thickness} />)}
+          </datalist>
+          {material && !material.gauges.some(g => g.thickness === defaults.thickness) && (
+            <p className="text-[10px] text-muted-foreground">Not a stocked gauge for {material.name}</p>
+          )}
         </div>
 
         {/* Bend Radius */}
         <div className="space-y-1.5">
           <Label className="text-xs">Bend Radius (mm)</Label>
           <Input type="number" step={0.1} min={0.1} value={defaults.bendRadius}
-            onChange={(e) => onDefaultsChange({ ...defaults, bendRadius: parseFloat(e.target.value) || 1 })}
+            onChange={(e) => updateBend({ bendRadius: parseFloat(e.target.value) || 1 })}
             className="h-8 text-xs font-mono" />
+          {material && defaults.bendRadius < minBendRadius && (
+            <p className="text-[10px] text-destructive flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" /> Below the {minBendRadius}mm minimum for this thickness
+            </p>
+          )}
         </div>
 
         {/* K-Factor */}
@@ -108,7 +319,95 @@ export function PropertiesPanel({
           <Input type="number" step={0.01} min={0} max={0.5} value={defaults.kFactor}
             onChange={(e) => onDefaultsChange({ ...defaults, kFactor: parseFloat(e.target.value) || 0.44 })}
             className="h-8 text-xs font-mono" />
-          <p className="text-[10px] text-muted-foreground">Linear method (0.0 – 0.5)</p>
+          <p className="text-[10px] text-muted-foreground">
+            {material
+              ? `${material.name} table: ${kFactorFor(material, defaults.bendRadius, defaults.thickness)} at r/t ${(defaults.bendRadius / defaults.thickness).toFixed(2)}`
+              : 'Linear method (0.0 – 0.5)'}
+          </p>
+        </div>
+
+        {/* Bend Table */}
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Bend Table</Label>
+            <input ref={bendTableInputRef} type="file" accept=".csv,.json,text/csv,application/json"
+              className="hidden" onChange={handleImportBendTable} />
+            <Button variant="ghost" size="sm" className="h-5 px-1.5 text-[10px] gap-1 text-muted-foreground"
+              onClick={() => bendTableInputRef.current?.click()}>
+              <Upload className="h-3 w-3" /> Import
+            </Button>
+          </div>
+          {defaults.bendTable ? (
+            <div className="flex items-center gap-2 p-2 rounded bg-muted/30 border text-[10px]">
+              <TableProperties className="h-3.5 w-3.5 text-primary shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{defaults.bendTable.name}</p>
+                <p className="text-muted-foreground">
+                  {BEND_TABLE_TYPE_LABELS[defaults.bendTable.type]} · {defaults.bendTable.entries.length} row(s)
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" className="h-5 w-5 shrink-0"
+                onClick={() => onDefaultsChange({ ...defaults, bendTable: null })}>
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ) : (
+            <p className="text-[10px] text-muted-foreground">
+              None — CSV or JSON with angle, radius, thickness and K, BA or BD
+            </p>
+          )}
+        </div>
+
+        {/* Relief */}
+        <div className="space-y-1.5">
+          <Label className="text-xs">Bend Relief</Label>
+          <Select value={relief.bendRelief} onValueChange={(v) => updateRelief({ bendRelief: v as BendReliefType })}>
+            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(BEND_RELIEF_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {(relief.bendRelief === 'rectangular' || relief.bendRelief === 'obround') && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-[10px]">Width (× t)</Label>
+                <Input type="number" step={0.1} min={0} value={relief.bendReliefWidth}
+                  onChange={(e) => updateRelief({ bendReliefWidth: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="h-7 text-xs font-mono" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-[10px]">Depth (× t)</Label>
+                <Input type="number" step={0.1} min={0} value={relief.bendReliefDepth}
+                  onChange={(e) => updateRelief({ bendReliefDepth: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="h-7 text-xs font-mono" />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs">Corner Relief</Label>
+          <Select value={relief.cornerRelief} onValueChange={(v) => updateRelief({ cornerRelief: v as CornerReliefType })}>
+            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(CORNER_RELIEF_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value} className="text-xs">{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {relief.cornerRelief !== 'tear' && relief.cornerRelief !== 'closed-seam' && (
+            <div className="space-y-1">
+              <Label className="text-[10px]">{relief.cornerRelief === 'open-seam' ? 'Gap' : 'Size'} (× t)</Label>
+              <Input type="number" step={0.1} min={0} value={relief.cornerReliefSize}
+                onChange={(e) => updateRelief({ cornerReliefSize: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="h-7 text-xs font-mono" />
+            </div>
+          )}
+          <p className="text-[10px] text-muted-foreground">
+            Where two flanges meet at a corner of their face
+          </p>
         </div>
 
         <Separator />
@@ -145,6 +444,34 @@ export function PropertiesPanel({
         )}
 
         {/* Fold sub-mode info */}
+        {mode === '3d' && subMode === 'corner' && (
+          <CornerTreatmentPanel
+            flanges={flanges}
+            corners={corners}
+            onApply={(ids, type, gap) => onApplyCorner?.(ids, type, gap)}
+            onRemove={(id) => onRemoveCorner?.(id)}
+          />
+        )}
+
+        {mode === '3d' && subMode === 'form' && (
+          <FormToolPanel
+            faceSketches={faceSketches}
+            forms={forms}
+            onApply={(locatorId, params) => onApplyForm?.(locatorId, params)}
+            onRemove={(id) => onRemoveForm?.(id)}
+          />
+        )}
+
+        {mode === '3d' && subMode === 'pattern' && (
+          <PatternPanel
+            seeds={patternSeeds}
+            patterns={patterns}
+            suppressed={suppressedCopies}
+            onApply={(sourceId, layout) => onApplyPattern?.(sourceId, layout)}
+            onRemove={(id) => onRemovePattern?.(id)}
+          />
+        )}
+
         {mode === '3d' && subMode === 'fold' && (
           <>
             {selectedSketchLine ? (
@@ -187,7 +514,22 @@ export function PropertiesPanel({
               </p>
             </div>
 
-            {!edgeHasFlange && (
+            {(existingArcFlange || (arcRunLength > 0 && !edgeHasFlange && !existingHem)) && (
+              <ArcFlangePanel
+                arcFlange={existingArcFlange}
+                segmentCount={arcRunLength}
+                onAdd={(params) => onAddArcFlange?.(params)}
+                onUpdate={(id, updates) => onUpdateArcFlange?.(id, updates)}
+                onRemove={(id) => onRemoveArcFlange?.(id)}
+              >
+                {existingArcFlange && (
+                  <BendOverrideFields bend={existingArcFlange} defaults={defaults}
+                    onChange={(updates) => onUpdateArcFlange?.(existingArcFlange.id, updates)} />
+                )}
+              </ArcFlangePanel>
+            )}
+
+            {!edgeHasFlange && !existingHem && !existingArcFlange && (
               <div className="p-3 rounded-lg bg-muted/50 border space-y-3">
                 <div className="flex items-center gap-2">
                   <ArrowUpFromLine className="h-4 w-4 text-primary" />
@@ -221,6 +563,8 @@ export function PropertiesPanel({
                       </Button>
                     </div>
                   </div>
+                  <FlangeExtentFields extent={flangeExtent} edgeLength={selectedEdge.start.distanceTo(selectedEdge.end)}
+                    onChange={(extent) => onFlangeExtentChange?.(extent)} />
                 </div>
                 <Button size="sm" className="w-full text-xs gap-1"
                   onClick={() => onAddFlange?.(flangeHeight, flangeAngle, flangeDirection)}>
@@ -271,21 +615,153 @@ export function PropertiesPanel({
                         </Button>
                       </div>
                     </div>
+                    <FlangeExtentFields extent={existingFlange} edgeLength={selectedEdge.start.distanceTo(selectedEdge.end)}
+                      onChange={(extent) => onUpdateFlange?.(existingFlange.id, extent)} />
+                    <BendOverrideFields bend={existingFlange} defaults={defaults}
+                      onChange={(updates) => onUpdateFlange?.(existingFlange.id, updates)} />
                   </div>
                 </div>
               );
             })()}
+
+            {!edgeHasFlange && !existingArcFlange && (
+              <HemPanel
+                hem={existingHem}
+                defaults={defaults}
+                onAdd={(params) => onAddHem?.(params)}
+                onUpdate={(id, updates) => onUpdateHem?.(id, updates)}
+                onRemove={(id) => onRemoveHem?.(id)}
+              />
+            )}
           </>
         )}
 
         {mode === '3d' && (subMode === 'edge' || subMode === undefined) && !selectedEdge && (
           <div className="p-3 rounded-lg bg-muted/50 border">
             <p className="text-xs text-muted-foreground text-center">
-              Click an edge on the 3D part to select it for flange operations
+              Click an edge on the 3D part to select it for flange and hem operations
             </p>
           </div>
         )}
 
+        {/* ── Selected fold (from the feature tree) ── */}
+        {mode === '3d' && selectedFold && (
+          <div className="p-3 rounded-lg bg-accent/10 border border-accent/30 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Scissors className="h-4 w-4 text-accent" />
+                <p className="text-xs font-semibold">Fold</p>
+              </div>
+              <Button variant="ghost" size="icon" className="h-6 w-6 text-destructive"
+                onClick={() => onRemoveFold?.(selectedFold.id)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <div className="space-y-1">
+                <Label className="text-[10px]">Bend Angle (°)</Label>
+                <Input type="number" step={1} min={1} max={180} value={selectedFold.angle}
+                  onChange={(e) => onUpdateFold?.(selectedFold.id, { angle: parseFloat(e.target.value) || 90 })}
+                  className="h-7 text-xs font-mono" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-[10px]">Direction</Label>
+                <div className="flex gap-1">
+                  <Button variant={selectedFold.direction === 'up' ? 'default' : 'outline'} size="sm"
+                    className="flex-1 h-7 text-[10px] gap-1"
+                    onClick={() => onUpdateFold?.(selectedFold.id, { direction: 'up' })}>
+                    <ArrowUpFromLine className="h-3 w-3" /> Up
+                  </Button>
+                  <Button variant={selectedFold.direction === 'down' ? 'default' : 'outline'} size="sm"
+                    className="flex-1 h-7 text-[10px] gap-1"
+                    onClick={() => onUpdateFold?.(selectedFold.id, { direction: 'down' })}>
+                    <ArrowDownFromLine className="h-3 w-3" /> Down
+                  </Button>
+                </div>
+              </div>
+              <BendOverrideFields bend={selectedFold} defaults={defaults}
+                onChange={(updates) => onUpdateFold?.(selectedFold.id, updates)} />
+            </div>
+          </div>
+        )}
+
+        {mode === '3d' && subMode === 'jog' && (
+          <div className="p-3 rounded-lg bg-muted/50 border">
+            <div className="flex items-center gap-2 mb-2">
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+              <p className="text-xs font-semibold">Jog Mode</p>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {lineCount > 0
+                ? 'Click a sketch line (red dashed) to place a Z-shaped jog on it.'
+                : 'No sketch lines yet. Switch to 2D Sketch mode and draw the jog line first.'}
+            </p>
+          </div>
+        )}
+
+        {/* ── Selected jog (from the feature tree) ── */}
+        {mode === '3d' && selectedJog && (
+          <div className="p-3 rounded-lg bg-accent/10 border border-accent/30 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <TrendingUp className="h-4 w-4 text-accent" />
+                <p className="text-xs font-semibold">Jog</p>
+              </div>
+              <Button variant="ghost" size="icon" className="h-6 w-6 text-destructive"
+                onClick={() => onRemoveJog?.(selectedJog.id)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <div className="space-y-1">
+                <Label className="text-[10px]">Offset (mm)</Label>
+                <Input type="number" step={0.5} min={0.1} value={selectedJog.offset}
+                  onChange={(e) => onUpdateJog?.(selectedJog.id, { offset: Math.max(parseFloat(e.target.value) || 10, 0.1) })}
+                  className="h-7 text-xs font-mono" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-[10px]">Dimension</Label>
+                <div className="flex gap-1">
+                  {(Object.keys(JOG_DIMENSION_LABELS) as JogDimension[]).map(d => (
+                    <Button key={d} variant={selectedJog.dimension === d ? 'default' : 'outline'} size="sm"
+                      className="flex-1 h-7 text-[10px]"
+                      onClick={() => onUpdateJog?.(selectedJog.id, { dimension: d })}>
+                      {JOG_DIMENSION_LABELS[d]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-[10px]">Bend Angle (°)</Label>
+                <Input type="number" step={1} min={1} max={90} value={selectedJog.angle}
+                  onChange={(e) => onUpdateJog?.(selectedJog.id, { angle: Math.min(parseFloat(e.target.value) || 90, 90) })}
+                  className="h-7 text-xs font-mono" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-[10px]">Direction</Label>
+                <div className="flex gap-1">
+                  <Button variant={selectedJog.direction === 'up' ? 'default' : 'outline'} size="sm"
+                    className="flex-1 h-7 text-[10px] gap-1"
+                    onClick={() => onUpdateJog?.(selectedJog.id, { direction: 'up' })}>
+                    <ArrowUpFromLine className="h-3 w-3" /> Up
+                  </Button>
+                  <Button variant={selectedJog.direction === 'down' ? 'default' : 'outline'} size="sm"
+                    className="flex-1 h-7 text-[10px] gap-1"
+                    onClick={() => onUpdateJog?.(selectedJog.id, { direction: 'down' })}>
+                    <ArrowDownFromLine className="h-3 w-3" /> Down
+                  </Button>
+                </div>
+              </div>
+              <Button variant="outline" size="sm" className="w-full h-7 text-[10px] gap-1"
+                onClick={() => onUpdateJog?.(selectedJog.id, { fixedSide: selectedJog.fixedSide === 'left' ? 'right' : 'left' })}>
+                <FlipHorizontal2 className="h-3 w-3" /> Swap Fixed Side
+              </Button>
+              <BendOverrideFields bend={selectedJog} defaults={defaults}
+                onChange={(updates) => onUpdateJog?.(selectedJog.id, updates)} />
+            </div>
+          </div>
+        )}
+
         {/* ── Face sketches summary ── */}
         {mode === '3d' && totalEntities > 0 && (
           <>
@@ -371,6 +847,7 @@ export function PropertiesPanel({
                     {f.foldLocation && f.foldLocation !== 'centerline' && (
                       <span className="ml-1 text-accent">({f.foldLocation})</span>
                     )}
+                    {f.kFactor !== undefined && <span className="ml-1 text-accent">K{f.kFactor}</span>}
                   </div>
                   <Button variant="ghost" size="icon" className="h-5 w-5 text-destructive"
                     onClick={() => onRemoveFold?.(f.id)}>
@@ -397,6 +874,7 @@ export function PropertiesPanel({
                     <span className="text-muted-foreground">{f.edgeId}</span>
                     <br />
                     {f.height}mm × {f.angle}° {getUserFacingDirection(f.edgeId)}
+                    {f.kFactor !== undefined && <span className="ml-1 text-accent">K{f.kFactor}</span>}
                   </div>
                   <Button variant="ghost" size="icon" className="h-5 w-5 text-destructive"
                     onClick={() => onRemoveFlange?.(f.id)}>
@@ -408,6 +886,14 @@ export function PropertiesPanel({
           </>
         )}
       </div>
+      {libraryOpen && (
+        <MaterialLibraryDialog
+          open={libraryOpen}
+          currentMaterial={defaults.material}
+          onSelect={(m) => onDefaultsChange(applyMaterial(defaults, m))}
+          onClose={() => setLibraryOpen(false)}
+        />
+      )}
     </div>
   );
 }
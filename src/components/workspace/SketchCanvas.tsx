@@ -3,7 +3,7 @@ import {
   SketchEntity, Point2D, snapToGrid, distance2D, midpoint2D,
   arcSvgPath, trimLineAtIntersections, extendLineToNearest, closestEndpoint,
   offsetLine, offsetRect, offsetCircle, pointSideOfLine, mirrorEntity,
-  generateId,
+  generateId, slotEntities, regularPolygonEntities, findLineCorner, filletCorner, chamferCorner,
 } from '@/lib/sheetmetal';
 import { SketchTool } from '@/hooks/useSketchStore';
 import { cn } from '@/lib/utils';
@@ -15,6 +15,10 @@ interface SketchCanvasProps {
   activeTool: SketchTool;
   gridSize: number;
   snapEnabled: boolean;
+  /** Sides of the regular polygon tool */
+  polygonSides: number;
+  /** Fillet radius or chamfer setback */
+  cornerSize: number;
   onAddLine: (start: Point2D, end: Point2D) => void;
   onAddRect: (origin: Point2D, width: number, height: number) => void;
   onAddCircle: (center: Point2D, radius: number) => void;
@@ -80,12 +84,22 @@ function entityCrossesBox(ent: SketchEntity, b1: Point2D, b2: Point2D): boolean
   return false;
 }
 
+// Distance from a point to a line segment
+function distanceToSegment(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+  return distance2D(p, { x: a.x + t * dx, y: a.y + t * dy });
+}
+
 export function SketchCanvas({
   entities,
   selectedIds,
   activeTool,
   gridSize,
   snapEnabled,
+  polygonSides,
+  cornerSize,
   onAddLine,
   onAddRect,
   onAddCircle,
@@ -112,6 +126,9 @@ export function SketchCanvas({
   const [arcRadius, setArcRadius] = useState<number>(0);
   const [arcStartAngle, setArcStartAngle] = useState<number>(0);
 
+  // Slot state: drawStart holds the first cap centre, slotEnd the second
+  const [slotEnd, setSlotEnd] = useState<Point2D | null>(null);
+
   // Move state
   const [moveStart, setMoveStart] = useState<Point2D | null>(null);
   const [moveDragging, setMoveDragging] = useState(false); // entities attached to cursor
@@ -201,6 +218,7 @@ export function SketchCanvas({
     setDrawStart(null);
     setArcPhase('center');
     setArcCenter(null);
+    setSlotEnd(null);
     setMoveStart(null);
     setMoveDragging(false);
     setMirrorPhase('axis1');
@@ -354,6 +372,32 @@ export function SketchCanvas({
         }
         break;
 
+      case 'slot':
+        if (!drawStart) {
+          setDrawStart(snapped);
+        } else if (!slotEnd) {
+          if (distance2D(drawStart, snapped) > 0.5) setSlotEnd(snapped);
+        } else {
+          const r = distanceToSegment(snapped, drawStart, slotEnd);
+          if (r > 0.5) onAddEntities(slotEntities(drawStart, slotEnd, r));
+          setDrawStart(null);
+          setSlotEnd(null);
+        }
+        break;
+
+      case 'polygon':
+        if (!drawStart) {
+          setDrawStart(snapped);
+        } else {
+          const r = distance2D(drawStart, snapped);
+          if (r > 0.5) {
+            const rotation = Math.atan2(snapped.y - drawStart.y, snapped.x - drawStart.x);
+            onAddEntities(regularPolygonEntities(drawStart, r, polygonSides, rotation));
+          }
+          setDrawStart(null);
+        }
+        break;
+
       case 'point':
         onAddPoint(snapped);
         break;
@@ -440,6 +484,22 @@ export function SketchCanvas({
         break;
       }
 
+      case 'fillet':
+      case 'chamfer': {
+        const corner = findLineCorner(entities, worldPos, 15);
+        if (!corner) { toast.info('Click near a corner where two lines meet'); break; }
+        const result = activeTool === 'fillet' ? filletCorner(corner, cornerSize) : chamferCorner(corner, cornerSize);
+        if (!result) {
+          toast.info(`The lines are too short or parallel for a ${cornerSize}mm ${activeTool}`);
+          break;
+        }
+        onUpdateEntity(result.first.id, { start: result.first.start, end: result.first.end });
+        onUpdateEntity(result.second.id, { start: result.second.start, end: result.second.end });
+        onAddEntities([result.joint]);
+        toast.success(activeTool === 'fillet' ? `Filleted R${cornerSize}mm` : `Chamfered ${cornerSize}mm`);
+        break;
+      }
+
       case 'offset': {
         const nearest = findNearestEntity(worldPos);
         if (!nearest) { toast.info('Click on an entity to offset'); break; }
@@ -503,7 +563,8 @@ export function SketchCanvas({
     }
   }, [activeTool, drawStart, svgToWorld, getSnappedPoint, onAddLine, onAddRect, onAddCircle, onAddArc, onAddPoint,
     onUpdateEntity, onAddEntities, onDeselectAll, onRemoveEntities, viewBox, entities, selectedIds,
-    arcPhase, arcCenter, arcRadius, arcStartAngle, moveStart, moveDragging, mirrorPhase, mirrorAxis1, findNearestEntity, gridSize, onSelectEntity]);
+    arcPhase, arcCenter, arcRadius, arcStartAngle, slotEnd, polygonSides, cornerSize,
+    moveStart, moveDragging, mirrorPhase, mirrorAxis1, findNearestEntity, gridSize, onSelectEntity]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
     const worldPos = svgToWorld(e.clientX, e.clientY);
@@ -621,6 +682,7 @@ export function SketchCanvas({
         setDrawStart(null);
         setArcPhase('center');
         setArcCenter(null);
+        setSlotEnd(null);
         setMoveStart(null);
         setMoveDragging(false);
         setMirrorPhase('axis1');
@@ -804,6 +866,19 @@ export function SketchCanvas({
     return null;
   };
 
+  // Dashed line or arc of a slot or polygon being drawn
+  const renderOutlinePreview = (ent: SketchEntity, key: number) => {
+    if (ent.type === 'line') {
+      return <line key={key} x1={ent.start.x} y1={ent.start.y} x2={ent.end.x} y2={ent.end.y}
+        stroke="hsl(var(--cad-sketch-line))" strokeWidth={0.6} strokeDasharray="2 1" />;
+    }
+    if (ent.type === 'arc') {
+      return <path key={key} d={arcSvgPath(ent.center.x, ent.center.y, ent.radius, ent.startAngle, ent.endAngle)}
+        stroke="hsl(var(--cad-sketch-line))" strokeWidth={0.6} strokeDasharray="2 1" fill="none" />;
+    }
+    return null;
+  };
+
   // Preview shape while drawing
   const renderPreview = () => {
     if (activeTool === 'line' && drawStart) {
@@ -867,6 +942,43 @@ export function SketchCanvas({
       }
     }
 
+    if (activeTool === 'slot' && drawStart) {
+      if (!slotEnd) {
+        return (
+          <line x1={drawStart.x} y1={drawStart.y} x2={cursorPos.x} y2={cursorPos.y}
+            stroke="hsl(var(--cad-dimension))" strokeWidth={0.3} strokeDasharray="1 1" opacity={0.7} />
+        );
+      }
+      const r = distanceToSegment(cursorPos, drawStart, slotEnd);
+      return (
+        <g opacity={0.7}>
+          {r > 0.5 && slotEntities(drawStart, slotEnd, r).map((ent, i) => renderOutlinePreview(ent, i))}
+          <line x1={drawStart.x} y1={drawStart.y} x2={slotEnd.x} y2={slotEnd.y}
+            stroke="hsl(var(--cad-dimension))" strokeWidth={0.3} strokeDasharray="1 1" />
+          <text x={cursorPos.x + 3} y={cursorPos.y - 3}
+            fill="hsl(var(--cad-dimension))" fontSize={3} fontFamily="JetBrains Mono, monospace">
+            W{(r * 2).toFixed(1)}
+          </text>
+        </g>
+      );
+    }
+
+    if (activeTool === 'polygon' && drawStart) {
+      const r = distance2D(drawStart, cursorPos);
+      const rotation = Math.atan2(cursorPos.y - drawStart.y, cursorPos.x - drawStart.x);
+      return (
+        <g opacity={0.7}>
+          {r > 0.5 && regularPolygonEntities(drawStart, r, polygonSides, rotation).map((ent, i) => renderOutlinePreview(ent, i))}
+          <line x1={drawStart.x} y1={drawStart.y} x2={cursorPos.x} y2={cursorPos.y}
+            stroke="hsl(var(--cad-dimension))" strokeWidth={0.3} strokeDasharray="1 1" />
+          <text x={(drawStart.x + cursorPos.x) / 2 + 2} y={(drawStart.y + cursorPos.y) / 2 - 2}
+            fill="hsl(var(--cad-dimension))" fontSize={3} fontFamily="JetBrains Mono, monospace">
+            R{r.toFixed(1)}
+          </text>
+        </g>
+      );
+    }
+
     if (activeTool === 'move' && moveDragging && moveStart) {
       const dx = cursorPos.x - moveStart.x;
       const dy = cursorPos.y - moveStart.y;
@@ -965,6 +1077,13 @@ export function SketchCanvas({
         if (arcPhase === 'radius') return 'Arc: Click to set radius & start angle';
         if (arcPhase === 'end') return 'Arc: Click to set end angle';
         break;
+      case 'slot':
+        if (!drawStart) return 'Slot: Click first end centre';
+        if (!slotEnd) return 'Slot: Click second end centre';
+        return 'Slot: Click to set the width';
+      case 'polygon':
+        if (drawStart) return `Polygon: Click a corner (${polygonSides} sides)`;
+        return 'Polygon: Click center point';
       case 'move':
         if (moveDragging && moveStart) return 'Move: Klicken zum Platzieren oder Tab für dX/dY';
         if (selectedIds.length > 0) return 'Move: Basispunkt klicken';
@@ -974,6 +1093,8 @@ export function SketchCanvas({
         return 'Mirror: Click second axis point';
       case 'trim': return 'Trim: Click on a line segment to trim';
       case 'extend': return 'Extend: Click near a line endpoint';
+      case 'fillet': return `Fillet: Click a corner between two lines (radius: ${cornerSize}mm)`;
+      case 'chamfer': return `Chamfer: Click a corner between two lines (distance: ${cornerSize}mm)`;
       case 'offset': return `Offset: Click an entity (distance: ${gridSize}mm)`;
       case 'dimension': return 'Dimension: Click an entity to edit';
     }
@@ -1,8 +1,9 @@
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import {
-  MousePointer2, Minus, Square, Circle, Spline, Dot,
-  Move, Scissors, ArrowRightFromLine, CopyMinus, FlipHorizontal2,
+  MousePointer2, Minus, Square, Circle, Spline, Dot, Pill, Hexagon,
+  Move, Scissors, ArrowRightFromLine, Radius, TriangleRight, CopyMinus, FlipHorizontal2,
   Ruler, Magnet, Grid3X3, Trash2,
 } from 'lucide-react';
 import { SketchTool } from '@/hooks/useSketchStore';
@@ -13,9 +14,13 @@ interface SketchToolbarProps {
   activeTool: SketchTool;
   snapEnabled: boolean;
   gridSize: number;
+  polygonSides: number;
+  cornerSize: number;
   onToolChange: (tool: SketchTool) => void;
   onSnapToggle: () => void;
   onGridSizeChange: (size: number) => void;
+  onPolygonSidesChange: (sides: number) => void;
+  onCornerSizeChange: (size: number) => void;
   onClear: () => void;
 }
 
@@ -32,6 +37,8 @@ const createTools: ToolDef[] = [
   { id: 'circle', icon: Circle, label: 'Circle', shortcut: 'C' },
   { id: 'arc', icon: Spline, label: 'Arc', shortcut: 'A' },
   { id: 'rect', icon: Square, label: 'Rectangle', shortcut: 'R' },
+  { id: 'slot', icon: Pill, label: 'Slot' },
+  { id: 'polygon', icon: Hexagon, label: 'Polygon' },
   { id: 'point', icon: Dot, label: 'Point', shortcut: 'P' },
 ];
 
@@ -39,6 +46,8 @@ const modifyTools: ToolDef[] = [
   { id: 'move', icon: Move, label: 'Move', shortcut: 'M' },
   { id: 'trim', icon: Scissors, label: 'Trim', shortcut: 'T' },
   { id: 'extend', icon: ArrowRightFromLine, label: 'Extend' },
+  { id: 'fillet', icon: Radius, label: 'Fillet' },
+  { id: 'chamfer', icon: TriangleRight, label: 'Chamfer' },
   { id: 'offset', icon: CopyMinus, label: 'Offset' },
   { id: 'mirror', icon: FlipHorizontal2, label: 'Mirror' },
 ];
@@ -92,9 +101,13 @@ export function SketchToolbar({
   activeTool,
   snapEnabled,
   gridSize,
+  polygonSides,
+  cornerSize,
   onToolChange,
   onSnapToggle,
   onGridSizeChange,
+  onPolygonSidesChange,
+  onCornerSizeChange,
   onClear,
 }: SketchToolbarProps) {
   return (
@@ -118,11 +131,22 @@ export function SketchToolbar({
 
       {/* Create */}
       <ToolGroup label="Create" tools={createTools} activeTool={activeTool} onToolChange={onToolChange} />
+      {activeTool === 'polygon' && (
+        <Input type="number" min={3} max={24} step={1} value={polygonSides} title="Polygon sides"
+          onChange={(e) => onPolygonSidesChange(Math.min(24, Math.max(3, Math.round(parseFloat(e.target.value) || 3))))}
+          className="h-7 w-14 text-xs font-mono" />
+      )}
 
       <div className="w-px h-8 bg-border mx-1.5" />
 
       {/* Modify */}
       <ToolGroup label="Modify" tools={modifyTools} activeTool={activeTool} onToolChange={onToolChange} />
+      {(activeTool === 'fillet' || activeTool === 'chamfer') && (
+        <Input type="number" min={0.1} step={0.5} value={cornerSize}
+          title={activeTool === 'fillet' ? 'Fillet radius (mm)' : 'Chamfer distance (mm)'}
+          onChange={(e) => onCornerSizeChange(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+          className="h-7 w-16 text-xs font-mono" />
+      )}
 
       <div className="w-px h-8 bg-border mx-1.5" />
 
@@ -1,7 +1,8 @@
 import { useMemo, useState, useRef, useCallback, useEffect } from 'react';
-import { Point2D } from '@/lib/sheetmetal';
-import { Flange, Fold, FaceSketch, ProfileCutout } from '@/lib/geometry';
-import { unfoldModel, FlatPatternResult } from '@/lib/metalHeroApi';
+import { Point2D, DEFAULT_RELIEF } from '@/lib/sheetmetal';
+import { Flange, Fold, FaceSketch, ProfileCutout, ReliefSettings, CornerTreatment, Hem, FormFeature } from '@/lib/geometry';
+import { unfoldModel, FlatPatternResult, isAbortError } from '@/lib/metalHeroApi';
+import type { BendTable } from '@/lib/bendTables';
 import { ZoomIn, ZoomOut, Maximize, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
@@ -10,16 +11,23 @@ interface UnfoldViewerProps {
   thickness: number;
   flanges: Flange[];
   kFactor: number;
+  bendTable?: BendTable | null;
+  relief?: ReliefSettings;
+  corners?: CornerTreatment[];
+  hems?: Hem[];
+  forms?: FormFeature[];
   folds?: Fold[];
   cutouts?: ProfileCutout[];
   faceSketches?: FaceSketch[];
+  /** Pattern developed outside the kernel (a lofted bend); no unfold request is made */
+  flatPattern?: FlatPatternResult | null;
 }
 
 const PADDING = 40;
 const MIN_ZOOM = 0.2;
 const MAX_ZOOM = 10;
 
-export function UnfoldViewer({ profile, thickness, flanges, kFactor, folds = [], cutouts = [], faceSketches = [] }: UnfoldViewerProps) {
+export function UnfoldViewer({ profile, thickness, flanges, kFactor, bendTable = null, relief = DEFAULT_RELIEF, corners = [], hems = [], forms = [], folds = [], cutouts = [], faceSketches = [], flatPattern = null }: UnfoldViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [containerSize, setContainerSize] = useState({ width: 800, height: 600 });
   const [zoom, setZoom] = useState(1);
@@ -48,22 +56,35 @@ export function UnfoldViewer({ profile, thickness, flanges, kFactor, folds = [],
 
   // Fetch unfold from API
   useEffect(() => {
+    if (flatPattern) {
+      setPattern(flatPattern);
+      setError(null);
+      return;
+    }
     if (debounceRef.current) clearTimeout(debounceRef.current);
+    const controller = new AbortController();
     debounceRef.current = setTimeout(async () => {
       setLoading(true);
       setError(null);
       try {
-        const result = await unfoldModel(profile, thickness, cutouts, folds, flanges, faceSketches, kFactor);
+        const result = await unfoldModel({ profile, thickness, cutouts, folds, flanges, faceSketches, kFactor, bendTable, relief, corners, hems, forms }, {
+          signal: controller.signal,
+          channel: 'unfold-viewer',
+        });
         setPattern(result);
       } catch (err: any) {
+        if (isAbortError(err)) return;
         console.error('[API] unfoldModel failed:', err);
         setError(err.message ?? 'Unknown error');
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     }, 300);
-    return () => { if (debounceRef.current) clearTimeout(debounceRef.current); };
-  }, [profile, thickness, flanges, kFactor, folds, cutouts, faceSketches]);
+    return () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+      controller.abort();
+    };
+  }, [profile, thickness, flanges, kFactor, bendTable, relief, corners, hems, forms, folds, cutouts, faceSketches, flatPattern]);
 
   // Fit-to-view transform
   const fitTransform = useMemo(() => {
@@ -135,7 +156,7 @@ export function UnfoldViewer({ profile, thickness, flanges, kFactor, folds = [],
           Flat: {dims.width.toFixed(1)} × {dims.height.toFixed(1)} mm
         </p>
         <p className="text-[10px] font-mono text-muted-foreground">
-          Bends: {pattern ? Math.floor(pattern.bendLines.length / 2) : 0}
+          Bends: {pattern ? new Set(pattern.bendLines.map(bl => bl.label)).size : 0}
         </p>
       </div>
 
@@ -218,6 +239,18 @@ export function UnfoldViewer({ profile, thickness, flanges, kFactor, folds = [],
               </g>
             ))}
 
+            {(pattern.formMarkers ?? []).map(marker => {
+              const d = marker.outline.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ') + ' Z';
+              const arm = 3 / finalScale;
+              return (
+                <g key={`form-${marker.formId}`} stroke="hsl(var(--primary))" strokeWidth={1 / finalScale}>
+                  <path d={d} fill="none" />
+                  <line x1={marker.center.x - arm} y1={marker.center.y} x2={marker.center.x + arm} y2={marker.center.y} />
+                  <line x1={marker.center.x} y1={marker.center.y - arm} x2={marker.center.x} y2={marker.center.y + arm} />
+                </g>
+              );
+            })}
+
             {/* Dimension annotations */}
             <DimensionLine
               p1={{ x: dims.bbox.minX, y: dims.bbox.maxY }}
@@ -3,14 +3,15 @@ import { Canvas, useThree } from '@react-three/fiber';
 import { OrbitControls, GizmoHelper, GizmoViewcube, Grid, PerspectiveCamera, Line } from '@react-three/drei';
 import * as THREE from 'three';
 import { Home, Bug, Loader2 } from 'lucide-react';
-import { Point2D } from '@/lib/sheetmetal';
+import { Point2D, DEFAULT_RELIEF } from '@/lib/sheetmetal';
 import {
   PartEdge, Flange, Fold, FaceSketch,
   FaceSketchLine, FaceSketchCircle, FaceSketchRect, FaceSketchEntity, FaceSketchTool,
-  classifySketchLineAsFold, isEdgeOnFoldLine, isBaseFaceFold,
-  ProfileCutout,
+  classifySketchLineAsFold, isEdgeOnFoldLine, isBaseFaceFold, faceSketchOutline, isClosedFaceSketchEntity,
+  ProfileCutout, ReliefSettings, CornerTreatment, Hem, FormFeature, FlangeExtent, flangeSpan,
 } from '@/lib/geometry';
-import { buildModel, BuildModelResult } from '@/lib/metalHeroApi';
+import { buildModel, BuildModelResult, isAbortError } from '@/lib/metalHeroApi';
+import type { BendTable } from '@/lib/bendTables';
 import { getFaceTransform, faceTransformToMatrix4, apiEdgeToPartEdge, getAllFaces } from '@/lib/faceRegistry';
 import { FaceSketchPlane } from './FaceSketchPlane';
 
@@ -23,6 +24,7 @@ interface SheetMetalMeshProps {
   onEdgeClick: (edgeId: string) => void;
   flanges: Flange[];
   folds: Fold[];
+  hems: Hem[];
   interactionMode: 'edge' | 'sketch' | 'fold' | 'view';
   onFaceClick?: (faceId: string) => void;
   faceSketches: FaceSketch[];
@@ -33,6 +35,13 @@ interface SheetMetalMeshProps {
   kFactor: number;
   modelResult: BuildModelResult | null;
   modelLoading: boolean;
+  flangePreview?: FlangePreview | null;
+}
+
+/** Stretch of an edge a new or selected flange covers */
+export interface FlangePreview {
+  edgeId: string;
+  extent: FlangeExtent;
 }
 
 const noopRaycast = () => {};
@@ -147,13 +156,34 @@ function SketchRect3D({ entity, profile, thickness }: {
   return <Line points={points} color="#ef4444" lineWidth={2} />;
 }
 
+/** Arcs, slots, polygons, ellipses and splines, drawn from their outline */
+function isOutlineEntity(entity: FaceSketchEntity): boolean {
+  return entity.type !== 'line' && entity.type !== 'circle' && entity.type !== 'rect' && entity.type !== 'point';
+}
+
+function outlinePoints(entity: FaceSketchEntity, dx: number, dy: number, z: number): [number, number, number][] {
+  const pts = faceSketchOutline(entity).map((p): [number, number, number] => [dx + p.x, dy + p.y, z]);
+  return isClosedFaceSketchEntity(entity) && pts.length > 0 ? [...pts, pts[0]] : pts;
+}
+
+function SketchOutline3D({ entity, profile, thickness }: {
+  entity: FaceSketchEntity; profile: Point2D[]; thickness: number;
+}) {
+  const points = useMemo(() => {
+    const minX = Math.min(...profile.map(p => p.x));
+    const minY = Math.min(...profile.map(p => p.y));
+    return outlinePoints(entity, minX, minY, thickness + 0.05);
+  }, [entity, profile, thickness]);
+  return <Line points={points} color="#ef4444" lineWidth={2} />;
+}
+
 // ========== Main Sheet Metal Mesh (API-driven) ==========
 
 function SheetMetalMesh({
   profile, thickness, selectedEdgeId, onEdgeClick,
-  flanges, folds, interactionMode, onFaceClick,
+  flanges, folds, hems, interactionMode, onFaceClick,
   faceSketches, selectedSketchLineId, onSketchLineClick,
-  activeSketchFaceId, modelResult, modelLoading,
+  activeSketchFaceId, modelResult, modelLoading, flangePreview,
 }: SheetMetalMeshProps) {
   // Get edges from API result
   const edges = useMemo(() => {
@@ -167,7 +197,7 @@ function SheetMetalMesh({
     return map;
   }, [edges]);
 
-  const flangedEdgeIds = useMemo(() => new Set(flanges.map(f => f.edgeId)), [flanges]);
+  const flangedEdgeIds = useMemo(() => new Set([...flanges, ...hems].map(f => f.edgeId)), [flanges, hems]);
   const baseFolds = useMemo(() => folds.filter(f => isBaseFaceFold(f)), [folds]);
 
   // Side edges of folds are not selectable as flange targets
@@ -192,6 +222,7 @@ function SheetMetalMesh({
   const allLines = useMemo(() => allEntities.filter((e): e is FaceSketchLine => e.type === 'line'), [allEntities]);
   const allCircles = useMemo(() => allEntities.filter((e): e is FaceSketchCircle => e.type === 'circle'), [allEntities]);
   const allRects = useMemo(() => allEntities.filter((e): e is FaceSketchRect => e.type === 'rect'), [allEntities]);
+  const allOutlines = useMemo(() => allEntities.filter(isOutlineEntity), [allEntities]);
 
   const foldedLineIds = useMemo(() =>
     new Set(folds.filter(f => f.sketchLineId).map(f => f.sketchLineId!)),
@@ -362,6 +393,26 @@ function SheetMetalMesh({
         );
       })}
 
+      {/* Hem meshes from API */}
+      {modelResult.hems.map(hem => (
+        <group key={hem.id}>
+          <mesh geometry={hem.mesh}>
+            <meshStandardMaterial color="#d4d8dd" metalness={0.08} roughness={0.65} side={THREE.DoubleSide} />
+          </mesh>
+          {!isViewMode && <MeshEdgeOutline geometry={hem.mesh} />}
+        </group>
+      ))}
+
+      {/* Form tool meshes from API */}
+      {modelResult.forms.map(form => (
+        <group key={form.id}>
+          <mesh geometry={form.mesh}>
+            <meshStandardMaterial color="#d4d8dd" metalness={0.08} roughness={0.65} side={THREE.DoubleSide} />
+          </mesh>
+          {!isViewMode && <MeshEdgeOutline geometry={form.mesh} />}
+        </group>
+      ))}
+
       {/* Selectable edges */}
       {edges.map((edge) => {
         const isSelected = selectedEdgeId === edge.id;
@@ -380,6 +431,11 @@ function SheetMetalMesh({
         const isBaseFaceEdge = edge.id.startsWith('edge_bot_');
         const edgeColor = isFoldLine ? '#ef4444' : hasFlangeOnIt ? '#22c55e' : isSelected ? '#a855f7' : isInnerTip ? '#f59e0b' : isOuterTip ? '#06b6d4' : '#3b82f6';
         const showEdgeLine = isEdgeMode && !isFoldLine && !isBaseFaceEdge;
+        const previewSpan = isEdgeMode && flangePreview?.edgeId === edge.id ? flangeSpan(flangePreview.extent, edgeLen) : null;
+        const alongEdge = (d: number): [number, number, number] => {
+          const p = edge.start.clone().addScaledVector(edgeDir, d);
+          return [p.x, p.y, p.z];
+        };
 
         return (
           <group key={edge.id}>
@@ -401,6 +457,9 @@ function SheetMetalMesh({
                 <meshBasicMaterial transparent opacity={0} />
               </mesh>
             )}
+            {previewSpan && (
+              <Line points={[alongEdge(previewSpan[0]), alongEdge(previewSpan[1])]} color="#22c55e" lineWidth={5} />
+            )}
             {isSelected && (
               <arrowHelper args={[edge.normal, edgeMid, 10, 0xa855f7, 3, 2]} />
             )}
@@ -426,6 +485,9 @@ function SheetMetalMesh({
       {(isFoldMode || isSketchMode) && allRects.map(entity => (
         <SketchRect3D key={entity.id} entity={entity} profile={profile} thickness={thickness} />
       ))}
+      {(isFoldMode || isSketchMode) && allOutlines.map(entity => (
+        <SketchOutline3D key={entity.id} entity={entity} profile={profile} thickness={thickness} />
+      ))}
 
       {/* Sketch entities on fold/flange faces — use face registry transforms */}
       {(isFoldMode || isSketchMode) && faceSketches
@@ -482,6 +544,9 @@ function SheetMetalMesh({
                     ]} color="#ef4444" lineWidth={2} />
                   );
                 }
+                if (isOutlineEntity(ent)) {
+                  return <Line key={ent.id} points={outlinePoints(ent, 0, 0, 0.02)} color="#ef4444" lineWidth={2} />;
+                }
                 return null;
               })}
             </group>
@@ -493,13 +558,23 @@ function SheetMetalMesh({
 
 // ========== Camera & Scene Components ==========
 
+export interface CameraApiHandle {
+  reset: () => void;
+  setFrontalView: () => void;
+  setViewToFace: (normal: [number,number,number], center: [number,number,number]) => void;
+  /** Render the current view into a small JPEG data URL (project thumbnails) */
+  captureThumbnail: (width?: number, height?: number) => string | null;
+}
+
 function CameraApi({ apiRef, defaultPos, defaultTarget }: {
-  apiRef: React.MutableRefObject<{ reset: () => void; setFrontalView: () => void; setViewToFace: (normal: [number,number,number], center: [number,number,number]) => void }>;
+  apiRef: React.MutableRefObject<CameraApiHandle>;
   defaultPos: [number, number, number];
   defaultTarget: [number, number, number];
 }) {
   const camera = useThree(s => s.camera);
   const controls = useThree(s => s.controls);
+  const gl = useThree(s => s.gl);
+  const scene = useThree(s => s.scene);
   apiRef.current.reset = () => {
     camera.position.set(...defaultPos);
     if (controls) { (controls as any).target.set(...defaultTarget); (controls as any).update(); }
@@ -519,6 +594,20 @@ function CameraApi({ apiRef, defaultPos, defaultTarget }: {
     camera.up.copy(upCandidate);
     if (controls) { (controls as any).target.set(...center); (controls as any).update(); }
   };
+  apiRef.current.captureThumbnail = (width = 320, height = 200) => {
+    // Render and copy in the same task — the drawing buffer is not preserved
+    gl.render(scene, camera);
+    const src = gl.domElement;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || src.width === 0 || src.height === 0) return null;
+    const scale = Math.max(width / src.width, height / src.height);
+    const w = src.width * scale, h = src.height * scale;
+    ctx.drawImage(src, (width - w) / 2, (height - h) / 2, w, h);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  };
   return null;
 }
 
@@ -540,7 +629,7 @@ function InventorBackground() {
   return null;
 }
 
-function SceneSetup() {
+export function SceneSetup() {
   return (
     <>
       <InventorBackground />
@@ -570,6 +659,13 @@ interface Viewer3DProps {
   children?: React.ReactNode;
   cutouts?: ProfileCutout[];
   kFactor: number;
+  bendTable?: BendTable | null;
+  relief?: ReliefSettings;
+  corners?: CornerTreatment[];
+  hems?: Hem[];
+  forms?: FormFeature[];
+  /** Called after every successful build, e.g. to flag features the kernel could not place */
+  onModelBuilt?: (result: BuildModelResult) => void;
   // Sketch plane props
   sketchPlaneActive?: boolean;
   sketchFaceId?: string | null;
@@ -580,55 +676,67 @@ interface Viewer3DProps {
   sketchActiveTool?: FaceSketchTool;
   sketchGridSize?: number;
   sketchSnapEnabled?: boolean;
+  /** Sides of the next polygon drawn on the sketch plane */
+  sketchPolygonSides?: number;
   onSketchAddEntity?: (entity: FaceSketchEntity) => void;
   onSketchUpdateEntity?: (id: string, updates: Partial<FaceSketchEntity>) => void;
   onSketchRemoveEntity?: (id: string) => void;
   sketchSelectedIds?: string[];
   onSketchSelectEntity?: (id: string, multi?: boolean) => void;
   onSketchDeselectAll?: () => void;
-  cameraApiRef?: React.MutableRefObject<{ reset: () => void; setFrontalView: () => void; setViewToFace: (normal: [number,number,number], center: [number,number,number]) => void } | null>;
+  cameraApiRef?: React.MutableRefObject<CameraApiHandle | null>;
+  flangePreview?: FlangePreview | null;
 }
 
 export function Viewer3D({
   profile, thickness, selectedEdgeId, onEdgeClick,
   flanges, folds = [], interactionMode = 'view', onFaceClick,
   faceSketches = [], selectedSketchLineId = null, onSketchLineClick,
-  children, cutouts, kFactor,
+  children, cutouts, kFactor, bendTable = null, relief = DEFAULT_RELIEF, corners = [], hems = [], forms = [], onModelBuilt,
   sketchPlaneActive, sketchFaceId, sketchFaceOrigin,
   sketchFaceWidth, sketchFaceHeight,
-  sketchEntities, sketchActiveTool, sketchGridSize, sketchSnapEnabled,
+  sketchEntities, sketchActiveTool, sketchGridSize, sketchSnapEnabled, sketchPolygonSides,
   onSketchAddEntity, onSketchUpdateEntity, onSketchRemoveEntity, sketchSelectedIds, onSketchSelectEntity, onSketchDeselectAll,
-  cameraApiRef,
+  cameraApiRef, flangePreview = null,
 }: Viewer3DProps) {
-  const cameraApi = useRef<{ reset: () => void; setFrontalView: () => void; setViewToFace: (normal: [number,number,number], center: [number,number,number]) => void }>({ reset: () => {}, setFrontalView: () => {}, setViewToFace: () => {} });
+  const cameraApi = useRef<CameraApiHandle>({ reset: () => {}, setFrontalView: () => {}, setViewToFace: () => {}, captureThumbnail: () => null });
 
   // ── Async model loading from API ──
   const [modelResult, setModelResult] = useState<BuildModelResult | null>(null);
   const [modelLoading, setModelLoading] = useState(false);
   const [modelError, setModelError] = useState<string | null>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout>>();
+  const onModelBuiltRef = useRef(onModelBuilt);
+  onModelBuiltRef.current = onModelBuilt;
 
   useEffect(() => {
     if (debounceRef.current) clearTimeout(debounceRef.current);
 
+    const controller = new AbortController();
     debounceRef.current = setTimeout(async () => {
       setModelLoading(true);
       setModelError(null);
       try {
         const result = await buildModel(
-          profile, thickness, cutouts ?? [], folds, flanges, faceSketches, kFactor,
+          { profile, thickness, cutouts, folds, flanges, faceSketches, kFactor, bendTable, relief, corners, hems, forms },
+          { signal: controller.signal, channel: 'viewer' },
         );
         setModelResult(result);
+        onModelBuiltRef.current?.(result);
       } catch (err: any) {
+        if (isAbortError(err)) return;
         console.error('[API] buildModel failed:', err);
         setModelError(err.message ?? 'Unknown error');
       } finally {
-        setModelLoading(false);
+        if (!controller.signal.aborted) setModelLoading(false);
       }
     }, 300);
 
-    return () => { if (debounceRef.current) clearTimeout(debounceRef.current); };
-  }, [profile, thickness, cutouts, folds, flanges, faceSketches, kFactor]);
+    return () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+      controller.abort();
+    };
+  }, [profile, thickness, cutouts, folds, flanges, faceSketches, kFactor, bendTable, relief, corners, hems, forms]);
 
   const bounds = useMemo(() => {
     const xs = profile.map(p => p.x);
@@ -684,6 +792,7 @@ export function Viewer3D({
           onEdgeClick={onEdgeClick}
           flanges={flanges}
           folds={folds}
+          hems={hems}
           interactionMode={interactionMode}
           onFaceClick={onFaceClick}
           faceSketches={faceSketches}
@@ -694,6 +803,7 @@ export function Viewer3D({
           kFactor={kFactor}
           modelResult={modelResult}
           modelLoading={modelLoading}
+          flangePreview={flangePreview}
         />
 
         {/* Sketch plane when active — uses face registry transforms */}
@@ -719,6 +829,7 @@ export function Viewer3D({
                   activeTool={sketchActiveTool || 'line'}
                   gridSize={sketchGridSize || 5}
                   snapEnabled={sketchSnapEnabled ?? true}
+                  polygonSides={sketchPolygonSides}
                   onAddEntity={onSketchAddEntity}
                   onUpdateEntity={onSketchUpdateEntity}
                   onRemoveEntity={onSketchRemoveEntity}
@@ -741,6 +852,7 @@ export function Viewer3D({
               activeTool={sketchActiveTool || 'line'}
               gridSize={sketchGridSize || 5}
               snapEnabled={sketchSnapEnabled ?? true}
+              polygonSides={sketchPolygonSides}
               onAddEntity={onSketchAddEntity}
               onUpdateEntity={onSketchUpdateEntity}
               onRemoveEntity={onSketchRemoveEntity}
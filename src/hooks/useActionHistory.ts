@@ -1,17 +1,33 @@
-import { useReducer, useCallback } from 'react';
-import { Flange, Fold, FaceSketch } from '@/lib/geometry';
+import { useReducer, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
 import { generateId } from '@/lib/sheetmetal';
+import { FeatureTree, EMPTY_FEATURE_TREE, carryOverFeatures } from '@/lib/featureTree';
+import type { ProjectFile } from '@/lib/projectFile';
+import type { LoftedBend } from '@/lib/loft';
 
+/**
+ * The undoable workspace state: the base face (or the lofted bend standing in
+ * for it) and the feature tree built on it, including its rollback marker.
+ * Undoing a base face change replays the tree against the earlier base face.
+ */
 export interface WorkspaceSnapshot {
-  flanges: Flange[];
-  folds: Fold[];
-  faceSketches: FaceSketch[];
+  /** Null until the sketch has been converted to a base face */
+  part: ProjectFile['part'];
+  /** Replaces the base face while set; the tree is kept but not built */
+  loft: LoftedBend | null;
+  tree: FeatureTree;
 }
 
+export const EMPTY_SNAPSHOT: WorkspaceSnapshot = { part: null, loft: null, tree: EMPTY_FEATURE_TREE };
+
 export interface HistoryEntry {
   id: string;
   label: string;
-  type: 'initial' | 'base-face' | 'fold' | 'flange' | 'sketch' | 'remove-fold' | 'remove-flange' | 'update-flange';
+  type: 'initial' | 'base-face' | 'contour-flange' | 'loft' | 'fold' | 'flange' | 'sketch' | 'remove-fold' | 'remove-flange' | 'remove-sketch'
+    | 'update-fold' | 'update-flange' | 'corner' | 'update-corner' | 'remove-corner'
+    | 'hem' | 'update-hem' | 'remove-hem' | 'jog' | 'update-jog' | 'remove-jog'
+    | 'arc-flange' | 'update-arc-flange' | 'remove-arc-flange' | 'form' | 'update-form' | 'remove-form'
+    | 'pattern' | 'update-pattern' | 'remove-pattern' | 'rollback';
   timestamp: number;
   state: WorkspaceSnapshot;
 }
@@ -22,14 +38,29 @@ interface HistoryState {
 }
 
 type HistoryAction =
-  | { type: 'PUSH'; label: string; entryType: HistoryEntry['type']; state: WorkspaceSnapshot }
+  | { type: 'PUSH'; label: string; entryType: HistoryEntry['type']; state: Partial<WorkspaceSnapshot> }
   | { type: 'UNDO' }
   | { type: 'REDO' }
-  | { type: 'GO_TO'; index: number };
+  | { type: 'GO_TO'; index: number }
+  | { type: 'RESET'; label: string; state: WorkspaceSnapshot }
+  | { type: 'LOAD'; entries: HistoryEntry[]; currentIndex: number };
+
+/** A contour flange starts a new part; features of a discarded branch belong to the old one */
+function carriesOver(entryType: HistoryEntry['type']) {
+  return entryType !== 'contour-flange';
+}
 
 function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
   switch (action.type) {
-    case 'PUSH':
+    case 'PUSH': {
+      // Branching after an undo: features from the discarded redo steps stay in
+      // the tree, rolled back, so they can be replayed or deleted explicitly
+      const current = state.entries[state.currentIndex].state;
+      const discarded = state.entries.slice(state.currentIndex + 1);
+      const next = { ...current, ...action.state };
+      if (discarded.length > 0 && carriesOver(action.entryType)) {
+        next.tree = carryOverFeatures(next.tree, current.tree, discarded[discarded.length - 1].state.tree).tree;
+      }
       return {
         entries: [
           ...state.entries.slice(0, state.currentIndex + 1),
@@ -38,11 +69,12 @@ function historyReducer(state: HistoryState, action: HistoryAction): HistoryStat
             label: action.label,
             type: action.entryType,
             timestamp: Date.now(),
-            state: action.state,
+            state: next,
           },
         ],
         currentIndex: state.currentIndex + 1,
       };
+    }
     case 'UNDO':
       return state.currentIndex > 0
         ? { ...state, currentIndex: state.currentIndex - 1 }
@@ -55,17 +87,24 @@ function historyReducer(state: HistoryState, action: HistoryAction): HistoryStat
       return action.index >= 0 && action.index < state.entries.length
         ? { ...state, currentIndex: action.index }
         : state;
+    case 'RESET':
+      return {
+        entries: [{ id: generateId(), label: action.label, type: 'initial', timestamp: Date.now(), state: action.state }],
+        currentIndex: 0,
+      };
+    case 'LOAD':
+      return action.entries.length > 0
+        ? { entries: action.entries, currentIndex: Math.min(Math.max(action.currentIndex, 0), action.entries.length - 1) }
+        : state;
     default:
       return state;
   }
 }
 
-const EMPTY_STATE: WorkspaceSnapshot = { flanges: [], folds: [], faceSketches: [] };
-
 export function useActionHistory() {
   const [state, dispatch] = useReducer(historyReducer, {
     entries: [
-      { id: 'init', label: 'New Project', type: 'initial', timestamp: Date.now(), state: EMPTY_STATE },
+      { id: 'init', label: 'New Project', type: 'initial', timestamp: Date.now(), state: EMPTY_SNAPSHOT },
     ],
     currentIndex: 0,
   });
@@ -73,10 +112,23 @@ export function useActionHistory() {
   const currentState = state.entries[state.currentIndex].state;
   const canUndo = state.currentIndex > 0;
   const canRedo = state.currentIndex < state.entries.length - 1;
+  const stateRef = useRef(state);
+  stateRef.current = state;
 
+  /** Record a new state; fields left out of `changes` keep their current value */
   const pushAction = useCallback(
-    (label: string, entryType: HistoryEntry['type'], newState: WorkspaceSnapshot) => {
-      dispatch({ type: 'PUSH', label, entryType, state: newState });
+    (label: string, entryType: HistoryEntry['type'], changes: Partial<WorkspaceSnapshot>) => {
+      const { entries, currentIndex } = stateRef.current;
+      if (currentIndex < entries.length - 1 && carriesOver(entryType)) {
+        const current = entries[currentIndex].state.tree;
+        const { carried } = carryOverFeatures(changes.tree ?? current, current, entries[entries.length - 1].state.tree);
+        if (carried.length > 0) {
+          toast.info(`${carried.length} undone feature(s) kept as rolled back`, {
+            description: 'Roll the feature tree forward to replay them, or delete them.',
+          });
+        }
+      }
+      dispatch({ type: 'PUSH', label, entryType, state: changes });
     },
     [],
   );
@@ -84,6 +136,16 @@ export function useActionHistory() {
   const undo = useCallback(() => dispatch({ type: 'UNDO' }), []);
   const redo = useCallback(() => dispatch({ type: 'REDO' }), []);
   const goTo = useCallback((index: number) => dispatch({ type: 'GO_TO', index }), []);
+  /** Start a fresh history from the given state (project opened) */
+  const reset = useCallback(
+    (label: string, newState: WorkspaceSnapshot) => dispatch({ type: 'RESET', label, state: newState }),
+    [],
+  );
+  /** Bring back a previously recorded history (autosave restore) */
+  const restore = useCallback(
+    (entries: HistoryEntry[], currentIndex: number) => dispatch({ type: 'LOAD', entries, currentIndex }),
+    [],
+  );
 
   return {
     currentState,
@@ -95,5 +157,7 @@ export function useActionHistory() {
     undo,
     redo,
     goTo,
+    reset,
+    restore,
   };
 }
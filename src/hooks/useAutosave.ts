@@ -0,0 +1,79 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AutosaveRecord, loadAutosave, saveAutosave, clearAutosave } from '@/lib/projectStore';
+
+const AUTOSAVE_DELAY_MS = 500;
+
+/**
+ * Autosaves `record` to the IndexedDB slot `slot` whenever it changes.
+ * When a slot is opened, an existing autosave is offered through `pendingRestore`;
+ * nothing is written until that offer has been accepted or discarded, so opening
+ * the workspace can never overwrite the work it is about to offer back.
+ * Pass a null slot while the workspace is still loading, and a null record for
+ * a pristine workspace that is not worth saving.
+ * A save still waiting out the delay is written at once when the slot changes,
+ * the workspace unmounts or the page is hidden, so the last edit is never lost.
+ */
+export function useAutosave(slot: string | null, record: AutosaveRecord | null) {
+  const [pendingRestore, setPendingRestore] = useState<AutosaveRecord | null>(null);
+  const armedRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+  const pendingRef = useRef<{ slot: string; record: AutosaveRecord } | null>(null);
+
+  const flush = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (pending) void saveAutosave(pending.slot, pending.record);
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, [flush]);
+
+  useEffect(() => {
+    armedRef.current = false;
+    setPendingRestore(null);
+    if (!slot) return;
+    let cancelled = false;
+    loadAutosave(slot).then(saved => {
+      if (cancelled) return;
+      if (saved) setPendingRestore(saved);
+      else armedRef.current = true;
+    });
+    return () => {
+      cancelled = true;
+      flush();
+    };
+  }, [slot, flush]);
+
+  useEffect(() => {
+    if (!armedRef.current || !slot || !record) return;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    pendingRef.current = { slot, record };
+    timerRef.current = setTimeout(flush, AUTOSAVE_DELAY_MS);
+  }, [slot, record, flush]);
+
+  /** Take the offered record; autosave resumes with the restored state. */
+  const acceptRestore = useCallback(() => {
+    const saved = pendingRestore;
+    setPendingRestore(null);
+    armedRef.current = true;
+    return saved;
+  }, [pendingRestore]);
+
+  const discardRestore = useCallback(() => {
+    setPendingRestore(null);
+    armedRef.current = true;
+    if (slot) void clearAutosave(slot);
+  }, [slot]);
+
+  /** The work has been saved elsewhere; forget the autosave until the next change. */
+  const markSaved = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    pendingRef.current = null;
+    if (slot) void clearAutosave(slot);
+  }, [slot]);
+
+  return { pendingRestore, acceptRestore, discardRestore, markSaved };
+}
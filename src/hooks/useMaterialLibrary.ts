@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getMaterials, subscribeMaterials } from '@/lib/materials';
+
+/** Built-in plus custom materials; re-renders when the library changes */
+export function useMaterialLibrary() {
+  return useSyncExternalStore(subscribeMaterials, getMaterials, getMaterials);
+}
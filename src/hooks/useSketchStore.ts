@@ -12,8 +12,8 @@ import {
   generateId,
 } from '@/lib/sheetmetal';
 
-export type SketchTool = 'select' | 'line' | 'rect' | 'circle' | 'arc' | 'point'
-  | 'move' | 'trim' | 'extend' | 'offset' | 'mirror' | 'dimension';
+export type SketchTool = 'select' | 'line' | 'rect' | 'circle' | 'arc' | 'slot' | 'polygon' | 'point'
+  | 'move' | 'trim' | 'extend' | 'fillet' | 'chamfer' | 'offset' | 'mirror' | 'dimension';
 
 export interface SketchState {
   entities: SketchEntity[];
@@ -80,6 +80,15 @@ export function useSketchStore() {
     setSelectedIds([]);
   }, []);
 
+  /** Replace the whole sketch, e.g. when a project is opened */
+  const loadSketch = useCallback((sketch: Pick<SketchState, 'entities' | 'gridSize' | 'snapEnabled' | 'sheetMetalDefaults'>) => {
+    setEntities(sketch.entities);
+    setSelectedIds([]);
+    setGridSize(sketch.gridSize);
+    setSnapEnabled(sketch.snapEnabled);
+    setSheetMetalDefaults(sketch.sheetMetalDefaults);
+  }, []);
+
   const clearAll = useCallback(() => {
     setEntities([]);
     setSelectedIds([]);
@@ -113,6 +122,7 @@ export function useSketchStore() {
     addEntities,
     removeEntity,
     removeEntities,
+    loadSketch,
     clearAll,
     selectEntity,
     deselectAll,
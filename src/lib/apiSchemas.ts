@@ -0,0 +1,174 @@
+/**
+ * API Schemas — runtime validation of backend responses.
+ * Responses are checked before they reach meshDataToBufferGeometry or the
+ * face registry, so a malformed payload fails with the offending field named
+ * instead of crashing the viewer.
+ */
+
+import { z } from 'zod';
+import type { BuildModelResponse, UnfoldResponse } from './metalHeroApi';
+
+// ========== Errors ==========
+
+/**
+ * A backend response that does not match the expected shape.
+ * `field` is the dotted path of the first failing field, e.g. `model.meshes.folds[0].arc.indices[5]`.
+ */
+export class ApiResponseError extends Error {
+  readonly endpoint: string;
+  readonly field: string;
+  readonly issues: z.ZodIssue[];
+
+  constructor(endpoint: string, subject: string, issues: z.ZodIssue[]) {
+    const first = issues[0];
+    const field = first ? formatPath(first.path) : '(response)';
+    super(`The backend returned an invalid ${subject} — ${field}: ${first?.message ?? 'unexpected shape'}` +
+      (issues.length > 1 ? ` (+${issues.length - 1} more issue${issues.length > 2 ? 's' : ''})` : ''));
+    this.name = 'ApiResponseError';
+    this.endpoint = endpoint;
+    this.field = field;
+    this.issues = issues;
+  }
+}
+
+function formatPath(path: (string | number)[]): string {
+  if (path.length === 0) return '(response)';
+  return path.reduce<string>((acc, seg) =>
+    typeof seg === 'number' ? `${acc}[${seg}]` : acc ? `${acc}.${seg}` : seg, '');
+}
+
+// ========== Primitives ==========
+
+const finite = z.number().finite();
+
+const point2D = z.object({ x: finite, y: finite });
+
+const vec3 = z.tuple([finite, finite, finite]);
+
+const meshData = z.object({
+  positions: z.array(finite),
+  normals: z.array(finite),
+  indices: z.array(z.number().int().nonnegative()),
+}).superRefine((mesh, ctx) => {
+  if (mesh.positions.length % 3 !== 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['positions'], message: `Length ${mesh.positions.length} is not a multiple of 3` });
+    return;
+  }
+  const vertexCount = mesh.positions.length / 3;
+  if (mesh.normals.length > 0 && mesh.normals.length !== mesh.positions.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['normals'],
+      message: `${mesh.normals.length} values for ${vertexCount} vertices`,
+    });
+  }
+  if (mesh.indices.length % 3 !== 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['indices'], message: `Length ${mesh.indices.length} is not a multiple of 3` });
+  }
+  const bad = mesh.indices.findIndex(i => i >= vertexCount);
+  if (bad >= 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['indices', bad],
+      message: `Index ${mesh.indices[bad]} is out of range (${vertexCount} vertices)`,
+    });
+  }
+});
+
+const faceTransform = z.object({
+  faceId: z.string().min(1),
+  origin: vec3,
+  xAxis: vec3,
+  yAxis: vec3,
+  normal: vec3,
+  width: finite,
+  height: finite,
+});
+
+const apiEdge = z.object({
+  id: z.string().min(1),
+  faceId: z.string(),
+  start: vec3,
+  end: vec3,
+  normal: vec3,
+  faceNormal: vec3,
+});
+
+// ========== Responses ==========
+
+export const buildModelResponseSchema = z.object({
+  success: z.boolean(),
+  error: z.string().optional(),
+  model: z.object({
+    meshes: z.object({
+      baseFace: meshData,
+      folds: z.array(z.object({ id: z.string(), arc: meshData, tip: meshData })),
+      flanges: z.array(z.object({ id: z.string(), mesh: meshData })),
+      hems: z.array(z.object({ id: z.string(), mesh: meshData })).optional(),
+      forms: z.array(z.object({ id: z.string(), mesh: meshData })).optional(),
+    }),
+    boundaryEdges: z.object({
+      positions: z.array(finite).refine(p => p.length % 6 === 0, p => ({
+        message: `Length ${p.length} is not a multiple of 6 (segment pairs)`,
+      })),
+    }),
+    faces: z.array(faceTransform),
+    edges: z.array(apiEdge),
+  }).optional(),
+}).superRefine((res, ctx) => {
+  if (res.success && !res.model) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['model'], message: 'Required for a successful response' });
+  }
+});
+
+export const unfoldResponseSchema = z.object({
+  success: z.boolean(),
+  error: z.string().optional(),
+  flatPattern: z.object({
+    regions: z.array(z.object({
+      id: z.string(),
+      faceId: z.string(),
+      polygon: z.array(point2D).min(3),
+      cutouts: z.array(z.unknown()),
+    })),
+    bendLines: z.array(z.object({
+      foldId: z.string().optional(),
+      start: point2D,
+      end: point2D,
+      angle: finite,
+      radius: finite,
+      label: z.string(),
+    })),
+    boundingBox: z.object({ minX: finite, minY: finite, maxX: finite, maxY: finite }),
+    formMarkers: z.array(z.object({
+      formId: z.string(),
+      type: z.enum(['louver', 'lance', 'emboss', 'dimple', 'bridgeLance', 'extrudedHole']),
+      center: point2D,
+      outline: z.array(point2D),
+    })).optional(),
+  }).optional(),
+}).superRefine((res, ctx) => {
+  if (res.success && !res.flatPattern) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['flatPattern'], message: 'Required for a successful response' });
+  }
+});
+
+// The schemas mirror BuildModelResponse / UnfoldResponse; the project's non-strict
+// compiler settings widen zod's inferred types, hence the casts below.
+
+/**
+ * Validate a response against a schema, throwing ApiResponseError on mismatch.
+ */
+function parseApiResponse(schema: z.ZodTypeAny, endpoint: string, subject: string, data: unknown): unknown {
+  const result = schema.safeParse(data);
+  if (!result.success) throw new ApiResponseError(endpoint, subject, result.error.issues);
+  return result.data;
+}
+
+export function parseBuildModelResponse(data: unknown): BuildModelResponse {
+  return parseApiResponse(buildModelResponseSchema, 'build-model', 'model', data) as BuildModelResponse;
+}
+
+export function parseUnfoldResponse(data: unknown): UnfoldResponse {
+  return parseApiResponse(unfoldResponseSchema, 'unfold', 'flat pattern', data) as UnfoldResponse;
+}
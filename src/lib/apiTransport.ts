@@ -0,0 +1,239 @@
+/**
+ * API Transport — how build-model / unfold requests reach a backend.
+ * Selectable at runtime: a remote HTTP backend (configurable base URL),
+ * the in-browser kernel, or an in-process mock that replays recorded responses.
+ */
+
+import { buildModelLocal } from './cadKernel';
+import { unfoldModelLocal } from './unfold';
+import type { BuildModelRequest } from './metalHeroApi';
+
+export const BUILD_MODEL_PATH = '/api/v1/build-model';
+export const UNFOLD_PATH = '/api/v1/unfold';
+
+export const DEFAULT_API_BASE: string = import.meta.env.VITE_METAL_HERO_API_URL || 'https://api.metal-hero.com';
+
+// ========== Types ==========
+
+export type TransportKind = 'http' | 'local' | 'mock';
+
+export interface TransportResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  ok: boolean;
+  data: unknown;
+}
+
+export interface ApiTransport {
+  kind: TransportKind;
+  label: string;
+  /** Aborting `signal` rejects with an `AbortError` where the transport supports it */
+  post(path: string, body: BuildModelRequest, signal?: AbortSignal): Promise<TransportResponse>;
+}
+
+export interface MockFixture {
+  path: string;
+  /** Request body the response was recorded for; omitted = matches any request */
+  request?: unknown;
+  response: unknown;
+  status?: number;
+}
+
+// ========== Transports ==========
+
+export function createHttpTransport(baseUrl: string): ApiTransport {
+  const base = baseUrl.replace(/\/+$/, '');
+  return {
+    kind: 'http',
+    label: base,
+    async post(path, body, signal) {
+      const url = `${base}${path}`;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+      return {
+        url,
+        status: response.status,
+        statusText: response.statusText,
+        ok: response.ok,
+        // Error responses may still explain themselves in a JSON body
+        data: await response.json().catch(() => null),
+      };
+    },
+  };
+}
+
+export function createLocalTransport(): ApiTransport {
+  return {
+    kind: 'local',
+    label: 'Local kernel',
+    async post(path, body) {
+      const url = `local://${path.split('/').pop()}`;
+      if (path === BUILD_MODEL_PATH) return localResponse(url, buildModelLocal(body));
+      if (path === UNFOLD_PATH) return localResponse(url, unfoldModelLocal(body));
+      return { url, status: 404, statusText: 'Not Found', ok: false, data: null };
+    },
+  };
+}
+
+// A part the kernel cannot build is a problem with the request, not the server,
+// so it is not retried; the body's `error` explains what went wrong
+function localResponse(url: string, data: { success: boolean }): TransportResponse {
+  return data.success
+    ? { url, status: 200, statusText: 'OK', ok: true, data }
+    : { url, status: 422, statusText: 'Kernel Error', ok: false, data };
+}
+
+/**
+ * Replays recorded responses. A fixture recorded for the exact request body
+ * wins; otherwise the most recent fixture for the path without a request is used.
+ */
+export function createMockTransport(fixtures: MockFixture[]): ApiTransport {
+  return {
+    kind: 'mock',
+    label: `Mock (${fixtures.length} fixture${fixtures.length === 1 ? '' : 's'})`,
+    async post(path, body) {
+      const url = `mock://${path.split('/').pop()}`;
+      const key = JSON.stringify(body);
+      const forPath = fixtures.filter(f => f.path === path);
+      const fixture = forPath.find(f => f.request !== undefined && JSON.stringify(f.request) === key)
+        ?? [...forPath].reverse().find(f => f.request === undefined);
+      if (!fixture) {
+        return { url, status: 404, statusText: 'No recorded fixture', ok: false, data: null };
+      }
+      const status = fixture.status ?? 200;
+      return {
+        url,
+        status,
+        statusText: status < 300 ? 'OK' : 'Error',
+        ok: status >= 200 && status < 300,
+        data: structuredClone(fixture.response),
+      };
+    },
+  };
+}
+
+/**
+ * Turn API log entries (e.g. "Copy All" from the debug panel) into mock fixtures.
+ */
+export function fixturesFromApiLogs(logs: {
+  endpoint: string;
+  requestBody: unknown;
+  responseBody: unknown;
+  responseStatus?: number;
+  status?: number;
+  request?: unknown;
+  response?: unknown;
+}[]): MockFixture[] {
+  return logs.flatMap(entry => {
+    const path = [BUILD_MODEL_PATH, UNFOLD_PATH].find(p => entry.endpoint.endsWith(p.split('/').pop()!));
+    if (!path) return [];
+    return [{
+      path,
+      request: entry.requestBody ?? entry.request,
+      response: entry.responseBody ?? entry.response,
+      status: entry.responseStatus ?? entry.status,
+    }];
+  });
+}
+
+// ========== Settings ==========
+
+export interface BackendSettings {
+  kind: TransportKind;
+  baseUrl: string;
+}
+
+const SETTINGS_KEY = 'metalhero.backend';
+const FIXTURES_KEY = 'metalhero.mockFixtures';
+
+function loadSettings(): BackendSettings {
+  const fallback: BackendSettings = { kind: 'http', baseUrl: DEFAULT_API_BASE };
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_KEY) : null;
+    if (!raw) return fallback;
+    const parsed = JSON.parse(raw);
+    return {
+      kind: parsed.kind === 'local' || parsed.kind === 'mock' ? parsed.kind : 'http',
+      baseUrl: typeof parsed.baseUrl === 'string' && parsed.baseUrl ? parsed.baseUrl : DEFAULT_API_BASE,
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+function loadFixtures(): MockFixture[] {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(FIXTURES_KEY) : null;
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(f => f && typeof f.path === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+let settings: BackendSettings = loadSettings();
+let mockFixtures: MockFixture[] = loadFixtures();
+let transportOverride: ApiTransport | null = null;
+let listeners: (() => void)[] = [];
+
+function notify() {
+  listeners.forEach(fn => fn());
+}
+
+export function getBackendSettings(): BackendSettings {
+  return settings;
+}
+
+export function setBackendSettings(next: Partial<BackendSettings>) {
+  settings = { ...settings, ...next };
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable (private mode) — keep the in-memory setting
+  }
+  notify();
+}
+
+export function subscribeBackendSettings(fn: () => void) {
+  listeners.push(fn);
+  return () => { listeners = listeners.filter(l => l !== fn); };
+}
+
+export function getMockFixtures(): MockFixture[] {
+  return mockFixtures;
+}
+
+/** Replace the recorded fixtures; they are kept across reloads */
+export function setMockFixtures(fixtures: MockFixture[]) {
+  mockFixtures = fixtures;
+  try {
+    localStorage.setItem(FIXTURES_KEY, JSON.stringify(fixtures));
+  } catch {
+    // Storage unavailable or full (large meshes) — replay from memory for this session
+  }
+  notify();
+}
+
+/**
+ * Force a specific transport regardless of settings (tests, embedding).
+ * Pass null to go back to the configured one.
+ */
+export function setApiTransport(transport: ApiTransport | null) {
+  transportOverride = transport;
+  notify();
+}
+
+export function getApiTransport(): ApiTransport {
+  if (transportOverride) return transportOverride;
+  switch (settings.kind) {
+    case 'local': return createLocalTransport();
+    case 'mock': return createMockTransport(mockFixtures);
+    case 'http':
+    default: return createHttpTransport(settings.baseUrl);
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Bend Tables — measured K-factor, bend allowance or bend deduction charts.
+ * Rows are indexed by bend angle, inner radius and thickness. Every row is
+ * converted to the K-factor that reproduces it exactly, and K is interpolated
+ * linearly over thickness, radius and angle. Thickness and radius must lie inside
+ * the table; the angle is clamped, so a 90°-only deduction chart still covers
+ * other angles through its K-factor.
+ */
+
+import { z } from 'zod';
+import { KFactorSource, bendAllowance, bendDeduction } from './sheetmetal';
+
+// ========== Types ==========
+
+export type BendTableType = 'kFactor' | 'bendAllowance' | 'bendDeduction';
+
+export interface BendTableEntry {
+  angle: number;       // degrees
+  radius: number;      // inner bend radius, mm
+  thickness: number;   // mm
+  value: number;       // K-factor, or bend allowance / deduction in mm
+}
+
+export interface BendTable {
+  name: string;
+  type: BendTableType;
+  entries: BendTableEntry[];
+}
+
+/** Per-bend values sent to the backend in `bendTable.overrides` */
+export interface BendOverride {
+  bendId: string;
+  angle: number;
+  radius: number;
+  thickness: number;
+  kFactor: number;
+  bendAllowance: number;
+  bendDeduction: number;
+}
+
+export class BendTableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BendTableError';
+  }
+}
+
+export const BEND_TABLE_TYPE_LABELS: Record<BendTableType, string> = {
+  kFactor: 'K-Factor',
+  bendAllowance: 'Bend Allowance',
+  bendDeduction: 'Bend Deduction',
+};
+
+// ========== Lookup ==========
+
+const EPS = 1e-6;
+const AXES = ['thickness', 'radius', 'angle'] as const;
+type Axis = typeof AXES[number];
+type KPoint = Record<Axis, number> & { k: number };
+
+/** The K-factor that reproduces an entry exactly */
+function entryKFactor(type: BendTableType, e: BendTableEntry): number {
+  if (type === 'kFactor') return e.value;
+  const ba = type === 'bendAllowance'
+    ? e.value
+    : 2 * (e.radius + e.thickness) * Math.tan((e.angle * Math.PI / 180) / 2) - e.value;
+  return (ba * 180 / (Math.PI * e.angle) - e.radius) / e.thickness;
+}
+
+function interpolateK(points: KPoint[], query: Record<Axis, number>, depth = 0): number | null {
+  if (points.length === 0) return null;
+  if (depth === AXES.length) return points.reduce((sum, p) => sum + p.k, 0) / points.length;
+
+  const axis = AXES[depth];
+  const values = [...new Set(points.map(p => p[axis]))].sort((a, b) => a - b);
+  const lo = values[0], hi = values[values.length - 1];
+  let x = query[axis];
+  if (x < lo - EPS || x > hi + EPS) {
+    if (axis !== 'angle') return null;
+    x = Math.min(Math.max(x, lo), hi);
+  }
+
+  const at = (v: number) => interpolateK(points.filter(p => p[axis] === v), query, depth + 1);
+  const i = values.findIndex(v => v >= x - EPS);
+  if (Math.abs(values[i] - x) <= EPS) return at(values[i]);
+  const a = at(values[i - 1]), b = at(values[i]);
+  if (a === null || b === null) return null;
+  return a + (b - a) * (x - values[i - 1]) / (values[i] - values[i - 1]);
+}
+
+/**
+ * K-factor for a bend from the table, or null when the table does not cover it.
+ */
+export function lookupKFactor(table: BendTable, angleDeg: number, radius: number, thickness: number): number | null {
+  const points = table.entries.map(e => ({
+    angle: e.angle, radius: e.radius, thickness: e.thickness, k: entryKFactor(table.type, e),
+  }));
+  const k = interpolateK(points, { angle: angleDeg, radius, thickness });
+  return k === null || !Number.isFinite(k) ? null : Math.round(k * 10000) / 10000;
+}
+
+/** Adapter for the `bendAllowance`/`bendDeduction` helpers in sheetmetal.ts */
+export function bendTableKFactor(table: BendTable | null | undefined): KFactorSource | undefined {
+  return table ? (angleDeg, radius, thickness) => lookupKFactor(table, angleDeg, radius, thickness) : undefined;
+}
+
+/**
+ * Overrides for every bend with its own K-factor or covered by the table (the
+ * bend's own K-factor wins); the remaining bends use the default K-factor.
+ */
+export function bendOverrides(
+  table: BendTable | null | undefined,
+  bends: { id: string; angle: number; bendRadius: number; kFactor?: number }[],
+  thickness: number,
+): BendOverride[] {
+  return bends.flatMap(b => {
+    const k = b.kFactor ?? (table ? lookupKFactor(table, b.angle, b.bendRadius, thickness) : null);
+    if (k === null) return [];
+    return [{
+      bendId: b.id,
+      angle: b.angle,
+      radius: b.bendRadius,
+      thickness,
+      kFactor: k,
+      bendAllowance: bendAllowance(b.bendRadius, k, thickness, b.angle),
+      bendDeduction: bendDeduction(b.bendRadius, k, thickness, b.angle),
+    }];
+  });
+}
+
+// ========== Import ==========
+
+const entrySchema = z.object({
+  angle: z.number().gt(0).max(180),
+  radius: z.number().nonnegative(),
+  thickness: z.number().positive(),
+  value: z.number(),
+});
+
+export const bendTableSchema = z.object({
+  name: z.string(),
+  type: z.enum(['kFactor', 'bendAllowance', 'bendDeduction']),
+  entries: z.array(entrySchema).min(1),
+});
+
+/** Normalised CSV header → table column */
+const CSV_COLUMNS: Record<string, keyof BendTableEntry | BendTableType> = {
+  angle: 'angle', a: 'angle', bendangle: 'angle',
+  radius: 'radius', r: 'radius', ir: 'radius', innerradius: 'radius', bendradius: 'radius',
+  thickness: 'thickness', t: 'thickness', s: 'thickness',
+  k: 'kFactor', kfactor: 'kFactor',
+  ba: 'bendAllowance', bendallowance: 'bendAllowance',
+  bd: 'bendDeduction', benddeduction: 'bendDeduction',
+};
+
+function parseCsv(text: string, name: string): unknown {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l && !l.startsWith('#'));
+  if (lines.length < 2) throw new BendTableError('The CSV needs a header row and at least one data row');
+  const sep = [';', '\t', ','].find(s => lines[0].includes(s)) ?? ',';
+  const header = lines[0].split(sep).map(h => CSV_COLUMNS[h.toLowerCase().replace(/[^a-z]/g, '')]);
+
+  const valueColumns = header.filter((c): c is BendTableType => c === 'kFactor' || c === 'bendAllowance' || c === 'bendDeduction');
+  if (valueColumns.length !== 1) {
+    throw new BendTableError('The CSV header needs exactly one value column: K, BA or BD');
+  }
+  for (const col of ['angle', 'radius', 'thickness'] as const) {
+    if (!header.includes(col)) throw new BendTableError(`The CSV header has no ${col} column`);
+  }
+
+  const entries = lines.slice(1).map((line, i) => {
+    const cells = line.split(sep).map(c => parseFloat(c.replace(',', '.')));
+    const entry: Record<string, number> = {};
+    header.forEach((col, j) => {
+      if (!col) return;
+      entry[col === valueColumns[0] ? 'value' : col] = cells[j];
+    });
+    if (Object.values(entry).some(v => !Number.isFinite(v))) {
+      throw new BendTableError(`Row ${i + 2} has a missing or non-numeric value`);
+    }
+    return entry;
+  });
+  return { name, type: valueColumns[0], entries };
+}
+
+/**
+ * Parse a bend table from CSV (header row with angle, radius, thickness and one of
+ * K/BA/BD) or JSON ({ name, type, entries }).
+ */
+export function parseBendTable(text: string, fileName: string): BendTable {
+  const name = fileName.replace(/\.[^.]+$/, '') || 'Bend table';
+  let raw: unknown;
+  if (/^\s*[[{]/.test(text)) {
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new BendTableError('The file is not valid JSON');
+    }
+    if (raw && typeof raw === 'object' && !('name' in raw)) raw = { ...raw, name };
+  } else {
+    raw = parseCsv(text, name);
+  }
+
+  const result = bendTableSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new BendTableError(`Invalid bend table — ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  return result.data as BendTable;
+}
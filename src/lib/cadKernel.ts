@@ -1,5 +1,1079 @@
 /**
- * CAD Kernel — removed.
- * All 3D operations are now handled by the backend API at api.metal-hero.com.
- * This file is kept as an empty stub to avoid import errors.
+ * CAD Kernel — local, in-browser sheet metal geometry.
+ * Builds the same model the backend returns from /api/v1/build-model
+ * (meshes, face transforms and edges) so the workspace keeps working offline.
+ *
+ * The part is modelled as a tree of flat plates joined by cylindrical bends.
+ * Every plate has a frame whose XY plane is its sketchable surface; the
+ * material sits on the -normal side of that surface.
  */
+
+import * as THREE from 'three';
+import { Point2D, DEFAULT_RELIEF, bendAllowance, outsideSetback } from './sheetmetal';
+import {
+  Fold, BendReliefType, CornerReliefType, CornerTreatmentType, clipPolygonByLine, circleToPolygon, rectToPolygon,
+  flangeSpan, foldLineToInnerEdgeOffset, getFoldNormal, formFootprint, hemBend,
+} from './geometry';
+import type { BuildModelRequest, BuildModelResponse, MeshData } from './metalHeroApi';
+import type { FaceTransform, ApiEdge } from './faceRegistry';
+
+// ========== Types ==========
+
+export interface PlateFrame {
+  origin: THREE.Vector3;
+  xAxis: THREE.Vector3;
+  yAxis: THREE.Vector3;
+  normal: THREE.Vector3;
+}
+
+/**
+ * How a plate hangs off its parent. Line, directions and span are expressed
+ * in the parent's local 2D coordinates; the child's local (x, y) maps back to
+ * the parent's flat as linePoint + x·lineDir + (y + bendAllowance)·moveDir.
+ */
+export interface PlateAttachment {
+  parentId: string;
+  linePoint: Point2D;
+  lineDir: Point2D;
+  moveDir: Point2D;
+  span: [number, number];
+  angle: number;
+  direction: 'up' | 'down';
+  radius: number;
+  kFactor: number;
+  bendAllowance: number;
+}
+
+export interface KernelPlate {
+  id: string;
+  kind: 'base' | 'fold' | 'flange' | 'hem';
+  faceId: string;
+  frame: PlateFrame;
+  outline: Point2D[];
+  holes: Point2D[][];
+  /** Outline at creation time — keeps edge indices stable when later folds clip the plate */
+  sourceOutline: Point2D[];
+  /** Lines (local) the plate has been bent along; edges on them are not free edges */
+  bendLines: { point: Point2D; normal: Point2D }[];
+  /** Offset from face-sketch coordinates to plate-local coordinates */
+  sketchOffset: Point2D;
+  width: number;
+  height: number;
+  attachment: PlateAttachment | null;
+}
+
+/** A form tool hit placed on the plate that holds it */
+export interface KernelForm {
+  request: NonNullable<BuildModelRequest['forms']>[number];
+  plateId: string;
+  /** Tool centre and footprint in plate-local coordinates */
+  center: Point2D;
+  outline: Point2D[];
+  /** Opening the formed part leaves in the face */
+  pierce: Point2D[] | null;
+  /** Hole punched in the flat blank before forming */
+  prePierce: Point2D[] | null;
+}
+
+export interface KernelPart {
+  thickness: number;
+  plates: KernelPlate[];
+  forms: KernelForm[];
+}
+
+interface EdgeRef {
+  plate: KernelPlate;
+  start: Point2D;
+  end: Point2D;
+  outward: Point2D;
+  side: 'frame' | 'opposite';
+}
+
+const EPS = 1e-6;
+const ARC_STEP_DEG = 10;
+
+// ========== 2D Helpers ==========
+
+function sub(a: Point2D, b: Point2D): Point2D { return { x: a.x - b.x, y: a.y - b.y }; }
+function dot(a: Point2D, b: Point2D): number { return a.x * b.x + a.y * b.y; }
+
+function normalize(v: Point2D): Point2D {
+  const len = Math.hypot(v.x, v.y);
+  return len < EPS ? { x: 0, y: 0 } : { x: v.x / len, y: v.y / len };
+}
+
+function signedArea(poly: Point2D[]): number {
+  let area = 0;
+  for (let i = 0; i < poly.length; i++) {
+    const j = (i + 1) % poly.length;
+    area += poly[i].x * poly[j].y - poly[j].x * poly[i].y;
+  }
+  return area / 2;
+}
+
+function pointInPolygon(p: Point2D, poly: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i], b = poly[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function bounds2D(poly: Point2D[]) {
+  const xs = poly.map(p => p.x);
+  const ys = poly.map(p => p.y);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+/** Map a parent-local point into the child plate's local coordinates. */
+export function parentToChild(att: PlateAttachment, p: Point2D): Point2D {
+  const rel = sub(p, att.linePoint);
+  return { x: dot(rel, att.lineDir), y: dot(rel, att.moveDir) - att.bendAllowance };
+}
+
+/** Map a child-local point back onto the parent's flat. */
+export function childToParent(att: PlateAttachment, p: Point2D): Point2D {
+  const d = p.y + att.bendAllowance;
+  return {
+    x: att.linePoint.x + att.lineDir.x * p.x + att.moveDir.x * d,
+    y: att.linePoint.y + att.lineDir.y * p.x + att.moveDir.y * d,
+  };
+}
+
+function cleanPolygon(poly: Point2D[]): Point2D[] {
+  const out: Point2D[] = [];
+  for (const p of poly) {
+    const last = out[out.length - 1];
+    if (!last || Math.hypot(p.x - last.x, p.y - last.y) > EPS) out.push(p);
+  }
+  if (out.length > 1 && Math.hypot(out[0].x - out[out.length - 1].x, out[0].y - out[out.length - 1].y) < EPS) {
+    out.pop();
+  }
+  return out;
+}
+
+function isUsablePolygon(poly: Point2D[]): boolean {
+  return poly.length >= 3 && Math.abs(signedArea(poly)) > EPS;
+}
+
+// ========== 3D Helpers ==========
+
+function toWorld(frame: PlateFrame, p: Point2D, z = 0): THREE.Vector3 {
+  return frame.origin.clone()
+    .addScaledVector(frame.xAxis, p.x)
+    .addScaledVector(frame.yAxis, p.y)
+    .addScaledVector(frame.normal, z);
+}
+
+function dirToWorld(frame: PlateFrame, d: Point2D): THREE.Vector3 {
+  return frame.xAxis.clone().multiplyScalar(d.x).addScaledVector(frame.yAxis, d.y);
+}
+
+function frameMatrix(frame: PlateFrame): THREE.Matrix4 {
+  const m = new THREE.Matrix4();
+  m.makeBasis(frame.xAxis, frame.yAxis, frame.normal);
+  m.setPosition(frame.origin);
+  return m;
+}
+
+function vecTuple(v: THREE.Vector3): [number, number, number] {
+  return [v.x, v.y, v.z];
+}
+
+/**
+ * Cylindrical bend between a parent plate and a child plate.
+ * Returns the swept bend solid and the frame of the child plate, whose
+ * sketch surface continues the parent's sketch surface through the bend.
+ */
+function bendGeometry(parent: PlateFrame, att: PlateAttachment, thickness: number) {
+  const up = att.direction === 'up';
+  const fn = up ? parent.normal.clone() : parent.normal.clone().negate();
+  const M = dirToWorld(parent, att.moveDir).normalize();
+  const U = dirToWorld(parent, att.lineDir).normalize();
+  const innerStart = toWorld(parent, att.linePoint, up ? 0 : -thickness);
+  const center = innerStart.clone().addScaledVector(fn, att.radius);
+  const A = (att.angle * Math.PI) / 180;
+
+  const radial = (theta: number) =>
+    fn.clone().multiplyScalar(-Math.cos(theta)).addScaledVector(M, Math.sin(theta));
+
+  const tangent = fn.clone().multiplyScalar(Math.sin(A)).addScaledVector(M, Math.cos(A));
+  const frameRadius = up ? att.radius : att.radius + thickness;
+  const tipFrame: PlateFrame = {
+    origin: center.clone().addScaledVector(radial(A), frameRadius),
+    xAxis: U,
+    yAxis: tangent.normalize(),
+    normal: up
+      ? fn.clone().multiplyScalar(Math.cos(A)).addScaledVector(M, -Math.sin(A)).normalize()
+      : radial(A).normalize(),
+  };
+
+  const segments = Math.max(2, Math.ceil(att.angle / ARC_STEP_DEG));
+  const rIn = att.radius;
+  const rOut = att.radius + thickness;
+  const [u0, u1] = att.span;
+  const point = (u: number, r: number, theta: number) =>
+    center.clone().addScaledVector(U, u).addScaledVector(radial(theta), r);
+
+  const builder = new TriangleBuilder();
+  for (let k = 0; k < segments; k++) {
+    const t0 = (A * k) / segments;
+    const t1 = (A * (k + 1)) / segments;
+    builder.quad(point(u0, rIn, t0), point(u0, rIn, t1), point(u1, rIn, t1), point(u1, rIn, t0));
+    builder.quad(point(u0, rOut, t0), point(u1, rOut, t0), point(u1, rOut, t1), point(u0, rOut, t1));
+    builder.quad(point(u0, rIn, t0), point(u0, rOut, t0), point(u0, rOut, t1), point(u0, rIn, t1));
+    builder.quad(point(u1, rIn, t0), point(u1, rIn, t1), point(u1, rOut, t1), point(u1, rOut, t0));
+  }
+
+  return { arc: builder.toGeometry(), tipFrame };
+}
+
+class TriangleBuilder {
+  private positions: number[] = [];
+
+  tri(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) {
+    this.positions.push(a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z);
+  }
+
+  quad(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3, d: THREE.Vector3) {
+    this.tri(a, b, c);
+    this.tri(a, c, d);
+  }
+
+  toGeometry(): THREE.BufferGeometry {
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.Float32BufferAttribute(this.positions, 3));
+    geo.computeVertexNormals();
+    return geo;
+  }
+}
+
+/**
+ * Extrude a plate outline (with holes) through the thickness and place it in 3D.
+ */
+function plateGeometry(plate: KernelPlate, thickness: number, extraHoles: Point2D[][] = []): THREE.BufferGeometry | null {
+  if (!isUsablePolygon(plate.outline)) return null;
+  const shape = new THREE.Shape(plate.outline.map(p => new THREE.Vector2(p.x, p.y)));
+  for (const hole of [...plate.holes, ...extraHoles]) {
+    if (!isUsablePolygon(hole)) continue;
+    shape.holes.push(new THREE.Path(hole.map(p => new THREE.Vector2(p.x, p.y))));
+  }
+  const geo = new THREE.ExtrudeGeometry(shape, { depth: thickness, bevelEnabled: false, curveSegments: 1 });
+  geo.translate(0, 0, -thickness);
+  geo.applyMatrix4(frameMatrix(plate.frame));
+  return geo;
+}
+
+function geometryToMeshData(geometries: (THREE.BufferGeometry | null)[]): MeshData {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  for (const g of geometries) {
+    if (!g) continue;
+    const geo = g.index ? g.toNonIndexed() : g;
+    if (!geo.getAttribute('normal')) geo.computeVertexNormals();
+    positions.push(...Array.from(geo.getAttribute('position').array as ArrayLike<number>));
+    normals.push(...Array.from(geo.getAttribute('normal').array as ArrayLike<number>));
+  }
+  return { positions, normals, indices: [] };
+}
+
+// ========== Sketch → Holes ==========
+
+/** Holes of a request without cutout outlines: its circles and rects */
+function sketchEntitiesToHoles(entities: BuildModelRequest['faceSketches'][number]['entities'], offset: Point2D): Point2D[][] {
+  const holes: Point2D[][] = [];
+  for (const e of entities) {
+    if (e.type === 'circle') {
+      holes.push(circleToPolygon({ x: e.center.x + offset.x, y: e.center.y + offset.y }, e.radius));
+    } else if (e.type === 'rect') {
+      holes.push(rectToPolygon({ x: e.origin.x + offset.x, y: e.origin.y + offset.y }, e.width, e.height));
+    }
+  }
+  return holes;
+}
+
+// ========== Plate Operations ==========
+
+function isBaseFaceId(faceId: string | undefined): boolean {
+  return !faceId || faceId === 'base_top' || faceId === 'base_bot' || faceId === 'base:top' || faceId === 'base:bot';
+}
+
+/**
+ * Split `plate` along a bend line and create the child plate on the moving side.
+ * Returns null when the line does not cross the plate.
+ */
+function splitPlate(
+  part: KernelPart,
+  plate: KernelPlate,
+  child: Omit<KernelPlate, 'frame' | 'outline' | 'holes' | 'sourceOutline' | 'bendLines' | 'width' | 'height' | 'attachment'>,
+  att: Omit<PlateAttachment, 'span' | 'parentId'>,
+): KernelPlate | null {
+  const { linePoint, moveDir } = att;
+  const back = { x: -moveDir.x, y: -moveDir.y };
+  const fixed = cleanPolygon(clipPolygonByLine(plate.outline, linePoint, moveDir));
+  const moving = cleanPolygon(clipPolygonByLine(plate.outline, linePoint, back));
+  if (!isUsablePolygon(moving)) return null;
+
+  const full: PlateAttachment = { ...att, parentId: plate.id, span: [0, 0] };
+  const toChild = (poly: Point2D[]) =>
+    cleanPolygon(clipPolygonByLine(poly.map(p => parentToChild(full, p)), { x: 0, y: 0 }, { x: 0, y: -1 }));
+
+  const outline = toChild(moving);
+  if (!isUsablePolygon(outline)) return null;
+  // The bend spans only the material that moves: clipping a non-convex plate
+  // leaves stretches of the line behind that have nothing to bend
+  const onLine = outline.filter(p => Math.abs(p.y) < 1e-4).map(p => p.x);
+  if (onLine.length < 2) return null;
+  full.span = [Math.min(...onLine), Math.max(...onLine)];
+
+  const holes: Point2D[][] = [];
+  const fixedHoles: Point2D[][] = [];
+  for (const hole of plate.holes) {
+    const keep = cleanPolygon(clipPolygonByLine(hole, linePoint, moveDir));
+    if (isUsablePolygon(keep)) fixedHoles.push(keep);
+    const moved = toChild(cleanPolygon(clipPolygonByLine(hole, linePoint, back)));
+    if (isUsablePolygon(moved)) holes.push(moved);
+  }
+
+  plate.outline = fixed;
+  plate.holes = fixedHoles;
+  plate.bendLines.push({ point: linePoint, normal: moveDir });
+
+  const b = bounds2D(outline);
+  const { tipFrame } = bendGeometry(plate.frame, full, part.thickness);
+  const created: KernelPlate = {
+    ...child,
+    frame: tipFrame,
+    outline,
+    holes,
+    sourceOutline: outline,
+    bendLines: [{ point: { x: 0, y: 0 }, normal: { x: 0, y: -1 } }],
+    width: b.maxX,
+    height: b.maxY,
+    attachment: full,
+  };
+  part.plates.push(created);
+  return created;
+}
+
+/**
+ * Find the plate a base-face fold line lands on. Lines are given in the
+ * base flat; when an earlier base fold already carried that region away,
+ * the line is followed into the folded plate.
+ */
+function locateOnBase(part: KernelPart, a: Point2D, b: Point2D, move: Point2D) {
+  let plate = part.plates[0];
+  let pa = a, pb = b, pm = move;
+  for (let depth = 0; depth < part.plates.length; depth++) {
+    const mid = { x: (pa.x + pb.x) / 2, y: (pa.y + pb.y) / 2 };
+    if (pointInPolygon(mid, plate.outline)) break;
+    const next = part.plates.find(p =>
+      p.kind === 'fold' && p.attachment?.parentId === plate.id &&
+      pointInPolygon(parentToChild(p.attachment, mid), p.outline));
+    if (!next) break;
+    const att = next.attachment!;
+    pa = parentToChild(att, pa);
+    pb = parentToChild(att, pb);
+    pm = normalize({ x: dot(pm, att.lineDir), y: dot(pm, att.moveDir) });
+    plate = next;
+  }
+  return { plate, a: pa, b: pb, move: pm };
+}
+
+function applyFold(part: KernelPart, fold: BuildModelRequest['folds'][number], faceSketches: BuildModelRequest['faceSketches']): boolean {
+  const onBase = isBaseFaceId(fold.parentFaceId);
+  const host = onBase ? part.plates[0] : part.plates.find(p => p.faceId === fold.parentFaceId);
+  if (!host) return false;
+
+  const asFold: Fold = {
+    id: fold.id, lineStart: fold.lineStart, lineEnd: fold.lineEnd,
+    angle: fold.angle, direction: fold.direction, bendRadius: fold.bendRadius, movingSide: fold.movingSide,
+  };
+  const faceNormal = getFoldNormal(asFold, host.width, host.height);
+  const offset = host.sketchOffset;
+  let a = { x: fold.lineStart.x + offset.x, y: fold.lineStart.y + offset.y };
+  let b = { x: fold.lineEnd.x + offset.x, y: fold.lineEnd.y + offset.y };
+  let move = faceNormal;
+  let plate = host;
+  if (onBase) ({ plate, a, b, move } = locateOnBase(part, a, b, move));
+
+  const lineDir = normalize(sub(b, a));
+  const thickness = part.thickness;
+  const off = foldLineToInnerEdgeOffset(fold.foldLocation as Fold['foldLocation'], thickness);
+  const linePoint = { x: a.x - move.x * off, y: a.y - move.y * off };
+
+  const created = splitPlate(part, plate, {
+    id: fold.id,
+    kind: 'fold',
+    faceId: `fold_face_${fold.id}`,
+    sketchOffset: { x: 0, y: 0 },
+  }, {
+    linePoint, lineDir, moveDir: move,
+    angle: fold.angle,
+    direction: fold.direction,
+    radius: fold.bendRadius,
+    kFactor: fold.kFactor,
+    bendAllowance: bendAllowance(fold.bendRadius, fold.kFactor, thickness, fold.angle),
+  });
+  if (created) addSketchHoles(created, faceSketches);
+  return true;
+}
+
+/**
+ * Hang a flange off a free edge. Partial flanges start at their offset along the
+ * edge; returns false when the offsets leave no flange.
+ */
+function applyFlange(part: KernelPart, flange: BuildModelRequest['flanges'][number], edge: EdgeRef, faceSketches: BuildModelRequest['faceSketches']): boolean {
+  const thickness = part.thickness;
+  const span = flangeSpan(flange, Math.hypot(edge.end.x - edge.start.x, edge.end.y - edge.start.y));
+  if (!span) return false;
+  const length = span[1] - span[0];
+  const lineDir = normalize(sub(edge.end, edge.start));
+  const towardFrame = (edge.side === 'frame') === (flange.direction === 'up');
+  const att: PlateAttachment = {
+    parentId: edge.plate.id,
+    linePoint: { x: edge.start.x + lineDir.x * span[0], y: edge.start.y + lineDir.y * span[0] },
+    lineDir,
+    moveDir: edge.outward,
+    span: [0, length],
+    angle: flange.angle,
+    direction: towardFrame ? 'up' : 'down',
+    radius: flange.bendRadius,
+    kFactor: flange.kFactor,
+    bendAllowance: bendAllowance(flange.bendRadius, flange.kFactor, thickness, flange.angle),
+  };
+  const straight = Math.max(flange.height - outsideSetback(flange.bendRadius, thickness, flange.angle), 0.1);
+  const outline = rectToPolygon({ x: 0, y: 0 }, length, straight);
+  const { tipFrame } = bendGeometry(edge.plate.frame, att, thickness);
+  const plate: KernelPlate = {
+    id: flange.id,
+    kind: 'flange',
+    faceId: `flange_face_${flange.id}_0`,
+    frame: tipFrame,
+    outline,
+    holes: [],
+    sourceOutline: outline,
+    bendLines: [{ point: { x: 0, y: 0 }, normal: { x: 0, y: -1 } }],
+    sketchOffset: { x: 0, y: 0 },
+    width: length,
+    height: straight,
+    attachment: att,
+  };
+  part.plates.push(plate);
+  addSketchHoles(plate, faceSketches);
+  return true;
+}
+
+/**
+ * Fold a free edge back over its face. The hem length is measured from the
+ * outside of the fold to the tip of the leg, like a flange's mold-line height.
+ */
+function applyHem(part: KernelPart, hem: NonNullable<BuildModelRequest['hems']>[number], edge: EdgeRef) {
+  const thickness = part.thickness;
+  const length = Math.hypot(edge.end.x - edge.start.x, edge.end.y - edge.start.y);
+  const { leg, angle } = hemBend(hem, thickness);
+  const towardFrame = (edge.side === 'frame') === (hem.direction === 'up');
+  const att: PlateAttachment = {
+    parentId: edge.plate.id,
+    linePoint: edge.start,
+    lineDir: normalize(sub(edge.end, edge.start)),
+    moveDir: edge.outward,
+    span: [0, length],
+    angle,
+    direction: towardFrame ? 'up' : 'down',
+    radius: hem.radius,
+    kFactor: hem.kFactor,
+    bendAllowance: bendAllowance(hem.radius, hem.kFactor, thickness, angle),
+  };
+  const outline = rectToPolygon({ x: 0, y: 0 }, length, leg);
+  const { tipFrame } = bendGeometry(edge.plate.frame, att, thickness);
+  part.plates.push({
+    id: hem.id,
+    kind: 'hem',
+    faceId: `hem_face_${hem.id}`,
+    frame: tipFrame,
+    outline,
+    holes: [],
+    sourceOutline: outline,
+    bendLines: [{ point: { x: 0, y: 0 }, normal: { x: 0, y: -1 } }],
+    sketchOffset: { x: 0, y: 0 },
+    width: length,
+    height: leg,
+    attachment: att,
+  });
+}
+
+function addSketchHoles(plate: KernelPlate, faceSketches: BuildModelRequest['faceSketches']) {
+  for (const fs of faceSketches) {
+    const matches = plate.kind === 'base' ? isBaseFaceId(fs.faceId) : fs.faceId === plate.faceId;
+    if (!matches) continue;
+    const offset = plate.sketchOffset;
+    plate.holes.push(...(fs.cutouts
+      ? fs.cutouts.map(poly => poly.map(p => ({ x: p.x + offset.x, y: p.y + offset.y })))
+      : sketchEntitiesToHoles(fs.entities, offset)));
+  }
+}
+
+// ========== Form Tools ==========
+
+/** Facets around a dimple or extruded hole */
+const FORM_ROUND_SEGMENTS = 24;
+
+/**
+ * Put a form on the plate holding its face, if the tool centre lands on the
+ * plate. Lances and louvers leave their footprint open in the face; an
+ * extruded hole leaves its bore, punched undersize in the blank so the collar
+ * can be drawn up from it (collar height developed straight, ignoring stretch).
+ */
+function placeForm(part: KernelPart, form: NonNullable<BuildModelRequest['forms']>[number]) {
+  const plate = part.plates.find(p => p.kind === 'base' ? isBaseFaceId(form.faceId) : p.faceId === form.faceId);
+  if (!plate) return;
+  const local = (p: Point2D) => ({ x: p.x + plate.sketchOffset.x, y: p.y + plate.sketchOffset.y });
+  const center = local(form.center);
+  if (!pointInPolygon(center, plate.outline)) return;
+
+  const t = part.thickness;
+  let pierce: Point2D[] | null = null;
+  let prePierce: Point2D[] | null = null;
+  if (form.type === 'extrudedHole') {
+    const bore = Math.max(form.length / 2 - t, 0.1);
+    const meanRadius = form.length / 2 - t / 2;
+    pierce = circleToPolygon(center, bore, FORM_ROUND_SEGMENTS);
+    prePierce = circleToPolygon(center, Math.max(meanRadius - (form.height - t / 2), t / 2), FORM_ROUND_SEGMENTS);
+  } else if (form.type === 'louver' || form.type === 'lance' || form.type === 'bridgeLance') {
+    pierce = formFootprint({ ...form, center });
+  }
+  part.forms.push({ request: form, plateId: plate.id, center, outline: formFootprint({ ...form, center }), pierce, prePierce });
+}
+
+/** Sheet strip following `path` (position along the axis, height) with the material below it */
+function formStrip(builder: TriangleBuilder, path: [number, number][], width: number, thickness: number, along: 'x' | 'y') {
+  const v = (s: number, c: number, z: number) =>
+    along === 'x' ? new THREE.Vector3(s, c, z) : new THREE.Vector3(c, s, z);
+  const hw = width / 2;
+  for (let i = 0; i + 1 < path.length; i++) {
+    const [s0, z0] = path[i], [s1, z1] = path[i + 1];
+    builder.quad(v(s0, -hw, z0), v(s1, -hw, z1), v(s1, hw, z1), v(s0, hw, z0));
+    builder.quad(v(s0, -hw, z0 - thickness), v(s0, hw, z0 - thickness), v(s1, hw, z1 - thickness), v(s1, -hw, z1 - thickness));
+    builder.quad(v(s0, -hw, z0), v(s0, -hw, z0 - thickness), v(s1, -hw, z1 - thickness), v(s1, -hw, z1));
+    builder.quad(v(s0, hw, z0), v(s1, hw, z1), v(s1, hw, z1 - thickness), v(s0, hw, z0 - thickness));
+  }
+}
+
+/** Raised pad: `base` outline on the face, shrunk by `inset` at the top */
+function formFrustum(builder: TriangleBuilder, base: Point2D[], inset: number, height: number) {
+  const c = base.reduce((acc, p) => ({ x: acc.x + p.x / base.length, y: acc.y + p.y / base.length }), { x: 0, y: 0 });
+  const top = base.map(p => {
+    const d = Math.hypot(p.x - c.x, p.y - c.y);
+    const k = d > EPS ? Math.max(d - inset, 0) / d : 0;
+    return { x: c.x + (p.x - c.x) * k, y: c.y + (p.y - c.y) * k };
+  });
+  const v = (p: Point2D, z: number) => new THREE.Vector3(p.x, p.y, z);
+  for (let i = 0; i < base.length; i++) {
+    const j = (i + 1) % base.length;
+    builder.quad(v(base[i], 0), v(base[j], 0), v(top[j], height), v(top[i], height));
+    builder.tri(v(c, height), v(top[i], height), v(top[j], height));
+  }
+}
+
+/**
+ * Formed shape of a tool hit, built around the tool centre with x along the
+ * tool axis, then placed on its plate. Downward forms hang off the far side.
+ */
+function formGeometry(form: KernelForm, plate: KernelPlate, thickness: number): THREE.BufferGeometry {
+  const { type, length: L, width: W, height: h, rotation, direction } = form.request;
+  const builder = new TriangleBuilder();
+  if (type === 'lance' || type === 'louver') {
+    // Cut along three sides and raised at the free (+y) end
+    formStrip(builder, [[-W / 2, 0], [W / 2, h]], L, thickness, 'y');
+    builder.quad(
+      new THREE.Vector3(-L / 2, W / 2, h), new THREE.Vector3(L / 2, W / 2, h),
+      new THREE.Vector3(L / 2, W / 2, h - thickness), new THREE.Vector3(-L / 2, W / 2, h - thickness),
+    );
+    if (type === 'louver') {
+      // The hood's ends are drawn closed
+      for (const x of [-L / 2, L / 2]) {
+        builder.tri(new THREE.Vector3(x, -W / 2, 0), new THREE.Vector3(x, W / 2, h), new THREE.Vector3(x, W / 2, 0));
+      }
+    }
+  } else if (type === 'bridgeLance') {
+    const ramp = Math.min(h, L / 4);
+    formStrip(builder, [[-L / 2, 0], [-L / 2 + ramp, h], [L / 2 - ramp, h], [L / 2, 0]], W, thickness, 'x');
+  } else if (type === 'emboss') {
+    formFrustum(builder, rectToPolygon({ x: -L / 2, y: -W / 2 }, L, W), Math.min(h, L / 4, W / 4), h);
+  } else if (type === 'dimple') {
+    formFrustum(builder, circleToPolygon({ x: 0, y: 0 }, L / 2, FORM_ROUND_SEGMENTS), Math.min(h, L / 4), h);
+  } else {
+    const ring = circleToPolygon({ x: 0, y: 0 }, 1, FORM_ROUND_SEGMENTS);
+    const rOut = L / 2, rIn = Math.max(L / 2 - thickness, 0.1);
+    const v = (p: Point2D, r: number, z: number) => new THREE.Vector3(p.x * r, p.y * r, z);
+    for (let i = 0; i < ring.length; i++) {
+      const a = ring[i], b = ring[(i + 1) % ring.length];
+      builder.quad(v(a, rOut, -thickness), v(b, rOut, -thickness), v(b, rOut, h), v(a, rOut, h));
+      builder.quad(v(a, rIn, -thickness), v(a, rIn, h), v(b, rIn, h), v(b, rIn, -thickness));
+      builder.quad(v(a, rIn, h), v(a, rOut, h), v(b, rOut, h), v(b, rIn, h));
+    }
+  }
+
+  const geo = builder.toGeometry();
+  const onBottom = form.request.faceId === 'base_bot' || form.request.faceId === 'base:bot';
+  if ((direction === 'down') !== onBottom) {
+    geo.applyMatrix4(new THREE.Matrix4().makeScale(1, 1, -1));
+    geo.translate(0, 0, -thickness);
+  }
+  geo.rotateZ((rotation * Math.PI) / 180);
+  geo.translate(form.center.x, form.center.y, 0);
+  geo.applyMatrix4(frameMatrix(plate.frame));
+  geo.computeVertexNormals();
+  return geo;
+}
+
+// ========== Relief ==========
+
+/** Arc around `c` from direction `d0` to `d1`, sweeping through direction `via`. */
+function arcPoints(c: Point2D, r: number, d0: Point2D, d1: Point2D, via: Point2D): Point2D[] {
+  const a0 = Math.atan2(d0.y, d0.x);
+  const turn = (d: Point2D) => {
+    const a = Math.atan2(d.y, d.x) - a0;
+    return a < 0 ? a + 2 * Math.PI : a;
+  };
+  let sweep = turn(d1);
+  if (turn(via) > sweep) sweep -= 2 * Math.PI;
+  const segments = Math.max(2, Math.ceil(Math.abs(sweep) / (ARC_STEP_DEG * Math.PI / 180)));
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const a = a0 + (sweep * i) / segments;
+    return { x: c.x + r * Math.cos(a), y: c.y + r * Math.sin(a) };
+  });
+}
+
+function vertexIndex(poly: Point2D[], p: Point2D): number {
+  return poly.findIndex(q => Math.hypot(q.x - p.x, q.y - p.y) < 1e-4);
+}
+
+/** Split the outline segment `p` lies on so that `p` becomes a vertex; returns its index or -1. */
+function insertVertex(plate: KernelPlate, p: Point2D): number {
+  const poly = plate.outline;
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i], b = poly[(i + 1) % poly.length];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (len < EPS) continue;
+    const dir = { x: (b.x - a.x) / len, y: (b.y - a.y) / len };
+    const along = dot(sub(p, a), dir);
+    const off = Math.abs(dot(sub(p, a), { x: -dir.y, y: dir.x }));
+    if (off < 1e-4 && along > 1e-4 && along < len - 1e-4) {
+      plate.outline = [...poly.slice(0, i + 1), p, ...poly.slice(i + 1)];
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+/** End `k` of a bend (0 = span start, 1 = span end) in the parent's local coordinates. */
+function bendEnd(att: PlateAttachment, k: 0 | 1): Point2D {
+  const u = att.span[k];
+  return { x: att.linePoint.x + att.lineDir.x * u, y: att.linePoint.y + att.lineDir.y * u };
+}
+
+/** Cut `amount` off end `k` of a flange, narrowing its bend and its face alike. */
+function trimFlangeEnd(plate: KernelPlate, k: 0 | 1, amount: number) {
+  const att = plate.attachment!;
+  const x = k === 1 ? att.span[1] - amount : att.span[0] + amount;
+  const normal = { x: k === 1 ? 1 : -1, y: 0 };
+  plate.outline = cleanPolygon(clipPolygonByLine(plate.outline, { x, y: 0 }, normal));
+  plate.holes = plate.holes
+    .map(h => cleanPolygon(clipPolygonByLine(h, { x, y: 0 }, normal)))
+    .filter(isUsablePolygon);
+  att.span = k === 1 ? [att.span[0], x] : [x, att.span[1]];
+}
+
+/** Stretch the face of a flange past end `k` of its bend (negative shortens it). */
+function extendFlangeEnd(plate: KernelPlate, k: 0 | 1, amount: number) {
+  const end = plate.attachment!.span[k];
+  const shift = k === 1 ? amount : -amount;
+  plate.outline = plate.outline.map(p => Math.abs(p.x - end) < 1e-4 ? { x: p.x + shift, y: p.y } : p);
+}
+
+/**
+ * Bend relief where a fold or flange ends next to material of its parent that
+ * stays flat, at a reflex corner or part-way along its edge: a slot of `width`
+ * beside the bend, running across the bend zone and `depth` past the bend line.
+ * Obround slots get a round end inside the parent.
+ */
+function applyBendRelief(plate: KernelPlate, parent: KernelPlate, k: 0 | 1, type: BendReliefType, width: number, depth: number) {
+  if (type === 'none' || type === 'tear' || width < EPS) return;
+  const att = plate.attachment!;
+  const e = bendEnd(att, k);
+  // Partial flanges end part-way along their edge
+  const found = vertexIndex(parent.outline, e);
+  const i = found >= 0 ? found : insertVertex(parent, e);
+  if (i < 0) return;
+
+  const n = parent.outline.length;
+  const u = k === 1 ? att.lineDir : { x: -att.lineDir.x, y: -att.lineDir.y };
+  const m = att.moveDir;
+  const prev = parent.outline[(i + n - 1) % n];
+  const next = parent.outline[(i + 1) % n];
+  // The neighbour that does not run back along the flange edge
+  const alongPrev = dot(sub(prev, e), u) < -1e-4;
+  const neighbour = alongPrev ? next : prev;
+  const rel = sub(neighbour, e);
+  const outward = dot(rel, m);
+  const ahead = dot(rel, u);
+  const collinear = Math.abs(outward) < 1e-4 && ahead > 1e-4;
+  const reflex = outward > 1e-4 && Math.abs(ahead) < 1e-4;
+  if (!collinear && !reflex) return;
+  // Stay clear of the end of the edge
+  if (collinear) width = Math.min(width, ahead);
+
+  const at = (du: number, dm: number) => ({ x: e.x + u.x * du + m.x * dm, y: e.y + u.y * du + m.y * dm });
+  const reach = reflex ? Math.min(att.bendAllowance, outward) : 0;
+  const inner = type === 'obround'
+    ? arcPoints(at(width / 2, -depth), width / 2, { x: -u.x, y: -u.y }, u, { x: -m.x, y: -m.y })
+    : [at(0, -depth), at(width, -depth)];
+  const points = [e, ...inner, at(width, reach)];
+  if (reflex) points.push(at(0, reach));
+  parent.outline = cleanPolygon([
+    ...parent.outline.slice(0, i),
+    ...(alongPrev ? points : points.reverse()),
+    ...parent.outline.slice(i + 1),
+  ]);
+}
+
+/**
+ * How far a neighbouring flange reaches past the shared corner to meet this one,
+ * `depth` into its material (0 = its inner face, thickness = its outer face).
+ */
+function flangeReach(att: PlateAttachment, depth: number): number {
+  return (att.radius + depth) * Math.tan((Math.min(att.angle, 90) * Math.PI) / 360);
+}
+
+/**
+ * Corner relief where two flanges of the same parent meet at a convex corner.
+ * Round and square reliefs notch the parent corner and shorten both flanges;
+ * seams stretch both faces until they meet (closed) or leave `size` between them.
+ */
+function applyCornerRelief(
+  part: KernelPart,
+  a: { plate: KernelPlate; k: 0 | 1 },
+  b: { plate: KernelPlate; k: 0 | 1 },
+  parent: KernelPlate,
+  type: CornerReliefType,
+  size: number,
+) {
+  if (type === 'tear') return;
+  const attA = a.plate.attachment!, attB = b.plate.attachment!;
+  if (type === 'closed-seam' || type === 'open-seam') {
+    const gap = type === 'open-seam' ? size / 2 : 0;
+    extendFlangeEnd(a.plate, a.k, flangeReach(attB, part.thickness / 2) - gap);
+    extendFlangeEnd(b.plate, b.k, flangeReach(attA, part.thickness / 2) - gap);
+    return;
+  }
+
+  const c = bendEnd(attA, a.k);
+  const i = vertexIndex(parent.outline, c);
+  const lengthA = attA.span[1] - attA.span[0], lengthB = attB.span[1] - attB.span[0];
+  if (i < 0 || size < EPS || size >= lengthA / 2 || size >= lengthB / 2) return;
+  const n = parent.outline.length;
+  const toPrev = normalize(sub(parent.outline[(i + n - 1) % n], c));
+  const toNext = normalize(sub(parent.outline[(i + 1) % n], c));
+  const inward = normalize({ x: -(attA.moveDir.x + attB.moveDir.x), y: -(attA.moveDir.y + attB.moveDir.y) });
+  const at = (d: Point2D, s: number) => ({ x: c.x + d.x * s, y: c.y + d.y * s });
+  const notch = type === 'round'
+    ? arcPoints(c, size, toPrev, toNext, inward)
+    : [at(toPrev, size), { x: c.x + (toPrev.x + toNext.x) * size, y: c.y + (toPrev.y + toNext.y) * size }, at(toNext, size)];
+  parent.outline = cleanPolygon([...parent.outline.slice(0, i), ...notch, ...parent.outline.slice(i + 1)]);
+  trimFlangeEnd(a.plate, a.k, size);
+  trimFlangeEnd(b.plate, b.k, size);
+}
+
+/**
+ * Explicit corner treatment: open leaves `gap` between the flanges at their
+ * mid-surfaces; overlap runs the first flange over the end of the second, which
+ * stops `gap` short of its inner face (underlap swaps the two).
+ */
+function applyCornerTreatment(
+  part: KernelPart,
+  first: { plate: KernelPlate; k: 0 | 1 },
+  second: { plate: KernelPlate; k: 0 | 1 },
+  type: CornerTreatmentType,
+  gap: number,
+) {
+  const t = part.thickness;
+  if (type === 'open') {
+    extendFlangeEnd(first.plate, first.k, flangeReach(second.plate.attachment!, t / 2) - gap / 2);
+    extendFlangeEnd(second.plate, second.k, flangeReach(first.plate.attachment!, t / 2) - gap / 2);
+    return;
+  }
+  const [outer, inner] = type === 'overlap' ? [first, second] : [second, first];
+  extendFlangeEnd(outer.plate, outer.k, flangeReach(inner.plate.attachment!, t));
+  extendFlangeEnd(inner.plate, inner.k, flangeReach(outer.plate.attachment!, 0) - gap);
+}
+
+/**
+ * Relieve every bend once the part is built: corners shared by two flanges
+ * get their corner treatment or the corner relief, the remaining bend ends of
+ * folds and flanges (jogs and arc flanges included) their bend relief.
+ */
+function applyReliefs(part: KernelPart, req: BuildModelRequest) {
+  const relief = req.relief ?? DEFAULT_RELIEF;
+  const t = part.thickness;
+  const byId = new Map(part.plates.map(p => [p.id, p]));
+  const bent = part.plates.filter(p => (p.kind === 'flange' || p.kind === 'fold') && p.attachment);
+  const ends = bent.flatMap(plate => ([0, 1] as const).map(k => ({ plate, k, point: bendEnd(plate.attachment!, k) })));
+  const cornered = new Set<(typeof ends)[number]>();
+
+  for (const a of ends) {
+    if (a.plate.kind !== 'flange' || cornered.has(a)) continue;
+    const b = ends.find(o =>
+      o.plate !== a.plate && o.plate.kind === 'flange' && !cornered.has(o) &&
+      o.plate.attachment!.parentId === a.plate.attachment!.parentId &&
+      Math.hypot(o.point.x - a.point.x, o.point.y - a.point.y) < 1e-4);
+    if (!b) continue;
+    cornered.add(a).add(b);
+    const convex = dot(sub(b.point, bendEnd(a.plate.attachment!, a.k === 1 ? 0 : 1)), b.plate.attachment!.moveDir) > 0;
+    const parent = byId.get(a.plate.attachment!.parentId);
+    if (!parent || !convex) continue;
+    const corner = req.corners?.find(c => c.flangeIds.includes(a.plate.id) && c.flangeIds.includes(b.plate.id));
+    if (corner) {
+      const [first, second] = corner.flangeIds[0] === a.plate.id ? [a, b] : [b, a];
+      applyCornerTreatment(part, first, second, corner.type, corner.gap);
+    } else {
+      applyCornerRelief(part, a, b, parent, relief.cornerRelief, relief.cornerReliefSize * t);
+    }
+  }
+
+  for (const end of ends) {
+    if (cornered.has(end)) continue;
+    const parent = byId.get(end.plate.attachment!.parentId);
+    const bends: { id: string; reliefType?: BendReliefType }[] = end.plate.kind === 'fold' ? req.folds : req.flanges;
+    const bend = bends.find(b => b.id === end.plate.id);
+    const type = bend?.reliefType ?? relief.bendRelief;
+    if (parent) applyBendRelief(end.plate, parent, end.k, type, relief.bendReliefWidth * t, relief.bendReliefDepth * t);
+  }
+}
+
+// ========== Edges ==========
+
+function sourceSegmentIndex(plate: KernelPlate, p: Point2D, q: Point2D): number {
+  const src = plate.sourceOutline;
+  for (let i = 0; i < src.length; i++) {
+    const a = src[i], b = src[(i + 1) % src.length];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (len < EPS) continue;
+    const n = { x: -(b.y - a.y) / len, y: (b.x - a.x) / len };
+    if (Math.abs(dot(sub(p, a), n)) < 1e-4 && Math.abs(dot(sub(q, a), n)) < 1e-4) return i;
+  }
+  return -1;
+}
+
+function isOnBendLine(plate: KernelPlate, p: Point2D, q: Point2D): boolean {
+  return plate.bendLines.some(bl =>
+    Math.abs(dot(sub(p, bl.point), bl.normal)) < 1e-4 && Math.abs(dot(sub(q, bl.point), bl.normal)) < 1e-4);
+}
+
+function edgeIds(plate: KernelPlate, index: number): { frame: string; opposite: string } {
+  if (plate.kind === 'base') return { frame: `edge_top_${index}`, opposite: `edge_bot_${index}` };
+  return {
+    frame: `${plate.kind}_${plate.id}_tip_outer_${index}`,
+    opposite: `${plate.kind}_${plate.id}_tip_inner_${index}`,
+  };
+}
+
+function collectEdges(part: KernelPart): Map<string, EdgeRef> {
+  const edges = new Map<string, EdgeRef>();
+  for (const plate of part.plates) {
+    const poly = plate.outline;
+    // Hems close off their edge
+    if (plate.kind === 'hem' || !isUsablePolygon(poly)) continue;
+    const ccw = signedArea(poly) > 0;
+    for (let i = 0; i < poly.length; i++) {
+      const p = poly[i], q = poly[(i + 1) % poly.length];
+      const len = Math.hypot(q.x - p.x, q.y - p.y);
+      if (len < 1e-3 || isOnBendLine(plate, p, q)) continue;
+      const index = sourceSegmentIndex(plate, p, q);
+      if (index < 0) continue;
+      // Flanges only expose their far edge
+      if (plate.kind === 'flange' && index !== 2) continue;
+      const outward = ccw
+        ? { x: (q.y - p.y) / len, y: -(q.x - p.x) / len }
+        : { x: -(q.y - p.y) / len, y: (q.x - p.x) / len };
+      const ids = edgeIds(plate, plate.kind === 'flange' ? 0 : index);
+      let start = p, end = q;
+      // A relief can split an edge into pieces; the edge keeps its full extent
+      const piece = edges.get(ids.frame);
+      if (piece && piece.plate === plate) {
+        const dir = { x: (q.x - p.x) / len, y: (q.y - p.y) / len };
+        const ends = [piece.start, piece.end, p, q].sort((a, b) => dot(a, dir) - dot(b, dir));
+        start = ends[0];
+        end = ends[3];
+      }
+      edges.set(ids.frame, { plate, start, end, outward, side: 'frame' });
+      edges.set(ids.opposite, { plate, start: end, end: start, outward, side: 'opposite' });
+    }
+  }
+  return edges;
+}
+
+function edgeRefToApiEdge(id: string, ref: EdgeRef, thickness: number): ApiEdge {
+  const { plate, side } = ref;
+  const z = side === 'frame' ? 0 : -thickness;
+  const faceNormal = side === 'frame' ? plate.frame.normal.clone() : plate.frame.normal.clone().negate();
+  const faceId = plate.kind === 'base' ? (side === 'frame' ? 'base_top' : 'base_bot') : plate.faceId;
+  return {
+    id,
+    faceId,
+    start: vecTuple(toWorld(plate.frame, ref.start, z)),
+    end: vecTuple(toWorld(plate.frame, ref.end, z)),
+    normal: vecTuple(dirToWorld(plate.frame, ref.outward).normalize()),
+    faceNormal: vecTuple(faceNormal),
+  };
+}
+
+// ========== Part Construction ==========
+
+/**
+ * Build the plate tree for a request. Folds and flanges are applied in
+ * request order, retrying features whose target face or edge only appears
+ * once another feature has been built. Hems go on last, once every edge
+ * they could sit on exists and has been relieved.
+ */
+export function buildPart(req: BuildModelRequest): KernelPart {
+  const thickness = req.thickness;
+  const b = bounds2D(req.profile);
+  const base: KernelPlate = {
+    id: 'base',
+    kind: 'base',
+    faceId: 'base_top',
+    frame: {
+      origin: new THREE.Vector3(0, 0, thickness),
+      xAxis: new THREE.Vector3(1, 0, 0),
+      yAxis: new THREE.Vector3(0, 1, 0),
+      normal: new THREE.Vector3(0, 0, 1),
+    },
+    outline: cleanPolygon(req.profile),
+    holes: req.cutouts.map(c => c.polygon).filter(isUsablePolygon),
+    sourceOutline: cleanPolygon(req.profile),
+    bendLines: [],
+    sketchOffset: { x: b.minX, y: b.minY },
+    width: b.maxX - b.minX,
+    height: b.maxY - b.minY,
+    attachment: null,
+  };
+  const part: KernelPart = { thickness, plates: [base], forms: [] };
+  addSketchHoles(base, req.faceSketches);
+
+  let pendingFolds = [...req.folds];
+  let pendingFlanges = [...req.flanges];
+  let progress = true;
+  while (progress && (pendingFolds.length > 0 || pendingFlanges.length > 0)) {
+    progress = false;
+    pendingFolds = pendingFolds.filter(f => {
+      const applied = applyFold(part, f, req.faceSketches);
+      if (applied) progress = true;
+      return !applied;
+    });
+    const edges = collectEdges(part);
+    pendingFlanges = pendingFlanges.filter(f => {
+      const edge = edges.get(f.edgeId);
+      if (!edge || !applyFlange(part, f, edge, req.faceSketches)) return true;
+      progress = true;
+      return false;
+    });
+  }
+  applyReliefs(part, req);
+
+  const edges = collectEdges(part);
+  for (const hem of req.hems ?? []) {
+    const edge = edges.get(hem.edgeId);
+    if (edge) applyHem(part, hem, edge);
+  }
+  for (const form of req.forms ?? []) placeForm(part, form);
+
+  return part;
+}
+
+/**
+ * Local equivalent of POST /api/v1/build-model.
+ */
+export function buildModelLocal(req: BuildModelRequest): BuildModelResponse {
+  try {
+    const part = buildPart(req);
+    const { thickness, plates } = part;
+    const byId = new Map(plates.map(p => [p.id, p]));
+    const piercesOf = (plate: KernelPlate) =>
+      part.forms.filter(f => f.plateId === plate.id && f.pierce).map(f => f.pierce!);
+
+    const baseGeo = plateGeometry(plates[0], thickness, piercesOf(plates[0]));
+    const meshes: NonNullable<BuildModelResponse['model']>['meshes'] = {
+      baseFace: geometryToMeshData([baseGeo]),
+      folds: [],
+      flanges: [],
+      hems: [],
+      forms: part.forms.map(f => ({ id: f.request.id, mesh: geometryToMeshData([formGeometry(f, byId.get(f.plateId)!, thickness)]) })),
+    };
+
+    const faces: FaceTransform[] = [];
+    const bb = bounds2D(req.profile);
+    const baseFrame = plates[0].frame;
+    faces.push({
+      faceId: 'base_top',
+      origin: vecTuple(toWorld(baseFrame, { x: bb.minX, y: bb.minY })),
+      xAxis: [1, 0, 0], yAxis: [0, 1, 0], normal: [0, 0, 1],
+      width: bb.maxX - bb.minX, height: bb.maxY - bb.minY,
+    });
+    faces.push({
+      faceId: 'base_bot',
+      origin: vecTuple(toWorld(baseFrame, { x: bb.minX, y: bb.minY }, -thickness)),
+      xAxis: [1, 0, 0], yAxis: [0, 1, 0], normal: [0, 0, -1],
+      width: bb.maxX - bb.minX, height: bb.maxY - bb.minY,
+    });
+
+    for (const plate of plates) {
+      if (!plate.attachment) continue;
+      const parent = byId.get(plate.attachment.parentId);
+      if (!parent) continue;
+      const { arc } = bendGeometry(parent.frame, plate.attachment, thickness);
+      const tip = plateGeometry(plate, thickness, piercesOf(plate));
+      if (plate.kind === 'fold') {
+        meshes.folds.push({ id: plate.id, arc: geometryToMeshData([arc]), tip: geometryToMeshData([tip]) });
+      } else if (plate.kind === 'hem') {
+        meshes.hems!.push({ id: plate.id, mesh: geometryToMeshData([arc, tip]) });
+      } else {
+        meshes.flanges.push({ id: plate.id, mesh: geometryToMeshData([arc, tip]) });
+      }
+      faces.push({
+        faceId: plate.faceId,
+        origin: vecTuple(plate.frame.origin),
+        xAxis: vecTuple(plate.frame.xAxis),
+        yAxis: vecTuple(plate.frame.yAxis),
+        normal: vecTuple(plate.frame.normal),
+        width: plate.width,
+        height: plate.height,
+      });
+    }
+
+    const edges: ApiEdge[] = [];
+    for (const [id, ref] of collectEdges(part)) {
+      edges.push(edgeRefToApiEdge(id, ref, thickness));
+    }
+
+    const boundary = baseGeo ? new THREE.EdgesGeometry(baseGeo, 20) : null;
+
+    return {
+      success: true,
+      model: {
+        meshes,
+        boundaryEdges: {
+          positions: boundary ? Array.from(boundary.getAttribute('position').array as ArrayLike<number>) : [],
+        },
+        faces,
+        edges,
+      },
+    };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
@@ -1,5 +1,30 @@
 import { FlatPattern, BendLine } from './unfold';
 import { Point2D } from './sheetmetal';
+import { FormFeatureType } from './geometry';
+import type { FormMarker } from './metalHeroApi';
+
+/** Each form tool gets its own layer so the punch program can pick its hits */
+export const FORM_TOOL_LAYERS: Record<FormFeatureType, string> = {
+  louver: 'FORM_LOUVER',
+  lance: 'FORM_LANCE',
+  emboss: 'FORM_EMBOSS',
+  dimple: 'FORM_DIMPLE',
+  bridgeLance: 'FORM_BRIDGE_LANCE',
+  extrudedHole: 'FORM_EXTRUDED_HOLE',
+};
+
+/** Half-length of the cross marking a tool centre, mm */
+const TOOL_HIT_CROSS = 1.5;
+
+/** Segments of a tool-hit marker: its closed footprint and a cross at the centre */
+function toolHitSegments(marker: FormMarker): [Point2D, Point2D][] {
+  const { center: c, outline } = marker;
+  return [
+    ...outline.map((p, i): [Point2D, Point2D] => [p, outline[(i + 1) % outline.length]]),
+    [{ x: c.x - TOOL_HIT_CROSS, y: c.y }, { x: c.x + TOOL_HIT_CROSS, y: c.y }],
+    [{ x: c.x, y: c.y - TOOL_HIT_CROSS }, { x: c.x, y: c.y + TOOL_HIT_CROSS }],
+  ];
+}
 
 // ========== SVG Export ==========
 
@@ -18,6 +43,7 @@ export function exportFlatPatternSVG(pattern: FlatPattern): string {
     .outline { fill: none; stroke: #000; stroke-width: 0.25; }
     .bend { fill: none; stroke: #E00; stroke-width: 0.15; stroke-dasharray: 1,0.8; }
     .label { font-family: monospace; font-size: 2px; fill: #E00; }
+    .form { fill: none; stroke: #06C; stroke-width: 0.15; }
   </style>`);
 
   // Regions
@@ -37,6 +63,13 @@ export function exportFlatPatternSVG(pattern: FlatPattern): string {
     }
   }
 
+  // Form tool hits
+  for (const marker of pattern.formMarkers ?? []) {
+    const d = toolHitSegments(marker)
+      .map(([s, e]) => `M${s.x.toFixed(3)},${s.y.toFixed(3)} L${e.x.toFixed(3)},${e.y.toFixed(3)}`).join(' ');
+    lines.push(`  <path class="form" data-tool="${marker.type}" d="${d}" />`);
+  }
+
   lines.push(`</svg>`);
   return lines.join('\n');
 }
@@ -54,6 +87,10 @@ export function exportFlatPatternDXF(pattern: FlatPattern): string {
   lines.push('0', 'TABLE', '2', 'LAYER');
   lines.push('0', 'LAYER', '2', 'OUTLINE', '70', '0', '62', '7', '6', 'CONTINUOUS'); // white
   lines.push('0', 'LAYER', '2', 'BEND', '70', '0', '62', '1', '6', 'DASHED');       // red
+  const markers = pattern.formMarkers ?? [];
+  for (const type of new Set(markers.map(m => m.type))) {
+    lines.push('0', 'LAYER', '2', FORM_TOOL_LAYERS[type], '70', '0', '62', '5', '6', 'CONTINUOUS'); // blue
+  }
   lines.push('0', 'ENDTAB');
   lines.push('0', 'ENDSEC');
 
@@ -79,6 +116,15 @@ export function exportFlatPatternDXF(pattern: FlatPattern): string {
       '11', bl.end.x.toFixed(4), '21', bl.end.y.toFixed(4), '31', '0');
   }
 
+  // Form tool hits
+  for (const marker of markers) {
+    for (const [s, e] of toolHitSegments(marker)) {
+      lines.push('0', 'LINE', '8', FORM_TOOL_LAYERS[marker.type],
+        '10', s.x.toFixed(4), '20', s.y.toFixed(4), '30', '0',
+        '11', e.x.toFixed(4), '21', e.y.toFixed(4), '31', '0');
+    }
+  }
+
   lines.push('0', 'ENDSEC');
   lines.push('0', 'EOF');
 
@@ -97,9 +143,11 @@ export interface BendTableRow {
 
 export function generateBendTable(bendLines: BendLine[]): BendTableRow[] {
   const rows: BendTableRow[] = [];
-  // Bend lines come in pairs (start + end of bend zone); take every other
-  for (let i = 0; i < bendLines.length; i += 2) {
-    const bl = bendLines[i];
+  // Bend lines of a bend zone come in pairs (start + end) sharing a label; facet bends have one line
+  const seen = new Set<string>();
+  for (const bl of bendLines) {
+    if (seen.has(bl.label)) continue;
+    seen.add(bl.label);
     const len = Math.hypot(bl.end.x - bl.start.x, bl.end.y - bl.start.y);
     rows.push({
       label: bl.label,
@@ -155,6 +203,16 @@ export function exportFlatPatternPDF(pattern: FlatPattern, bendTable: BendTableR
   }
   streamLines.push('[] 0 d'); // reset dash
 
+  // Draw form tool hits (blue)
+  streamLines.push('0 0.4 0.8 RG', '0.3 w');
+  for (const marker of pattern.formMarkers ?? []) {
+    for (const [a, b] of toolHitSegments(marker)) {
+      const s = tx(a);
+      const e = tx(b);
+      streamLines.push(`${s.x.toFixed(2)} ${s.y.toFixed(2)} m ${e.x.toFixed(2)} ${e.y.toFixed(2)} l S`);
+    }
+  }
+
   // Title
   streamLines.push('BT', '/F1 14 Tf', `${margin} ${pageH - margin} Td`, '0 0 0 rg', '(Flat Pattern Export) Tj', 'ET');
 
@@ -0,0 +1,252 @@
+/**
+ * Feature Tree — the ordered, parametric list of features built on the base face.
+ * The part is always rebuilt from the base face by replaying the active features
+ * in order, so editing an early feature automatically re-evaluates the later ones.
+ * Features after the rollback marker are kept but not built.
+ */
+
+import {
+  ArcFlange, Flange, Fold, FaceSketch, CornerTreatment, FormFeature, Hem, Jog, SketchPattern,
+  CORNER_TREATMENT_LABELS, FORM_FEATURE_LABELS, HEM_TYPE_LABELS, patternLabel,
+} from './geometry';
+
+// ========== Types ==========
+
+export type Feature =
+  | { kind: 'sketch'; id: string; sketch: FaceSketch }
+  | { kind: 'pattern'; id: string; pattern: SketchPattern }
+  | { kind: 'fold'; id: string; fold: Fold }
+  | { kind: 'jog'; id: string; jog: Jog }
+  | { kind: 'flange'; id: string; flange: Flange }
+  | { kind: 'arcFlange'; id: string; arcFlange: ArcFlange }
+  | { kind: 'corner'; id: string; corner: CornerTreatment }
+  | { kind: 'hem'; id: string; hem: Hem }
+  | { kind: 'form'; id: string; form: FormFeature };
+
+export type FeatureKind = Feature['kind'];
+
+export interface FeatureTree {
+  features: Feature[];
+  /** Number of features that are built; null = all of them */
+  rollbackIndex: number | null;
+}
+
+export const EMPTY_FEATURE_TREE: FeatureTree = { features: [], rollbackIndex: null };
+
+/** Flat feature lists as consumed by the kernel, viewers and exporters. */
+export interface ResolvedFeatures {
+  flanges: Flange[];
+  /** Arc flanges stay whole here; arcFlangeSegments turns each into its segment flanges */
+  arcFlanges: ArcFlange[];
+  folds: Fold[];
+  /** Jogs stay whole here; jogFolds turns each into its pair of folds for the kernel */
+  jogs: Jog[];
+  faceSketches: FaceSketch[];
+  /** Patterns stay whole here; expandPattern lays out the copies they add to their face sketch */
+  patterns: SketchPattern[];
+  corners: CornerTreatment[];
+  hems: Hem[];
+  forms: FormFeature[];
+}
+
+// ========== Construction ==========
+
+export function sketchFeatureId(faceId: string): string {
+  return `sketch_${faceId}`;
+}
+
+export function sketchFeature(sketch: FaceSketch): Feature {
+  return { kind: 'sketch', id: sketchFeatureId(sketch.faceId), sketch };
+}
+
+export function patternFeature(pattern: SketchPattern): Feature {
+  return { kind: 'pattern', id: pattern.id, pattern };
+}
+
+export function foldFeature(fold: Fold): Feature {
+  return { kind: 'fold', id: fold.id, fold };
+}
+
+export function jogFeature(jog: Jog): Feature {
+  return { kind: 'jog', id: jog.id, jog };
+}
+
+export function flangeFeature(flange: Flange): Feature {
+  return { kind: 'flange', id: flange.id, flange };
+}
+
+export function arcFlangeFeature(arcFlange: ArcFlange): Feature {
+  return { kind: 'arcFlange', id: arcFlange.id, arcFlange };
+}
+
+export function cornerFeature(corner: CornerTreatment): Feature {
+  return { kind: 'corner', id: corner.id, corner };
+}
+
+export function hemFeature(hem: Hem): Feature {
+  return { kind: 'hem', id: hem.id, hem };
+}
+
+export function formFeature(form: FormFeature): Feature {
+  return { kind: 'form', id: form.id, form };
+}
+
+/**
+ * Build a tree from flat lists, ordering sketches and their patterns before the folds that use
+ * their lines, folds and jogs before flanges, flanges before their corners, then hems,
+ * and form tools last.
+ */
+export function treeFromLists(lists: ResolvedFeatures): FeatureTree {
+  return {
+    features: [
+      ...lists.faceSketches.map(sketchFeature),
+      ...lists.patterns.map(patternFeature),
+      ...lists.folds.map(foldFeature),
+      ...lists.jogs.map(jogFeature),
+      ...lists.flanges.map(flangeFeature),
+      ...lists.arcFlanges.map(arcFlangeFeature),
+      ...lists.corners.map(cornerFeature),
+      ...lists.hems.map(hemFeature),
+      ...lists.forms.map(formFeature),
+    ],
+    rollbackIndex: null,
+  };
+}
+
+// ========== Queries ==========
+
+export function activeCount(tree: FeatureTree): number {
+  return tree.rollbackIndex === null
+    ? tree.features.length
+    : Math.min(Math.max(tree.rollbackIndex, 0), tree.features.length);
+}
+
+export function isRolledBack(tree: FeatureTree): boolean {
+  return activeCount(tree) < tree.features.length;
+}
+
+/**
+ * The features that are built (everything before the rollback marker), as flat lists.
+ */
+export function resolveFeatures(tree: FeatureTree): ResolvedFeatures {
+  const resolved: ResolvedFeatures = { flanges: [], arcFlanges: [], folds: [], jogs: [], faceSketches: [], patterns: [], corners: [], hems: [], forms: [] };
+  for (const feature of tree.features.slice(0, activeCount(tree))) {
+    if (feature.kind === 'sketch') resolved.faceSketches.push(feature.sketch);
+    else if (feature.kind === 'pattern') resolved.patterns.push(feature.pattern);
+    else if (feature.kind === 'fold') resolved.folds.push(feature.fold);
+    else if (feature.kind === 'jog') resolved.jogs.push(feature.jog);
+    else if (feature.kind === 'flange') resolved.flanges.push(feature.flange);
+    else if (feature.kind === 'arcFlange') resolved.arcFlanges.push(feature.arcFlange);
+    else if (feature.kind === 'corner') resolved.corners.push(feature.corner);
+    else if (feature.kind === 'hem') resolved.hems.push(feature.hem);
+    else resolved.forms.push(feature.form);
+  }
+  return resolved;
+}
+
+export function featureLabel(feature: Feature): string {
+  switch (feature.kind) {
+    case 'sketch': return `Sketch on ${feature.sketch.faceId}`;
+    case 'pattern': return patternLabel(feature.pattern);
+    case 'fold': return `Fold ${feature.fold.angle}° ${feature.fold.direction}`;
+    case 'jog': return `Jog ${feature.jog.offset}mm ${feature.jog.direction}`;
+    case 'flange': return `Flange ${feature.flange.height}mm`;
+    case 'arcFlange': return `Arc Flange ${feature.arcFlange.height}mm`;
+    case 'corner': return `Corner ${CORNER_TREATMENT_LABELS[feature.corner.type]}`;
+    case 'hem': return `Hem ${HEM_TYPE_LABELS[feature.hem.type]} ${feature.hem.length}mm`;
+    case 'form': return FORM_FEATURE_LABELS[feature.form.type];
+  }
+}
+
+// ========== Edits ==========
+
+/**
+ * Add a feature at the rollback marker (or the end). Features after the marker stay
+ * rolled back behind the new one.
+ */
+export function insertFeature(tree: FeatureTree, feature: Feature): FeatureTree {
+  const at = activeCount(tree);
+  const features = [...tree.features.slice(0, at), feature, ...tree.features.slice(at)];
+  return { features, rollbackIndex: tree.rollbackIndex === null ? null : at + 1 };
+}
+
+/** Replace a feature in place; later features are replayed against the result. */
+export function updateFeature(tree: FeatureTree, id: string, update: (feature: Feature) => Feature): FeatureTree {
+  return { ...tree, features: tree.features.map(f => f.id === id ? update(f) : f) };
+}
+
+export function updatePattern(tree: FeatureTree, id: string, updates: Partial<SketchPattern>): FeatureTree {
+  return updateFeature(tree, id, f => f.kind === 'pattern' ? { ...f, pattern: { ...f.pattern, ...updates } } : f);
+}
+
+export function updateFold(tree: FeatureTree, id: string, updates: Partial<Fold>): FeatureTree {
+  return updateFeature(tree, id, f => f.kind === 'fold' ? { ...f, fold: { ...f.fold, ...updates } } : f);
+}
+
+export function updateJog(tree: FeatureTree, id: string, updates: Partial<Jog>): FeatureTree {
+  return updateFeature(tree, id, f => f.kind === 'jog' ? { ...f, jog: { ...f.jog, ...updates } } : f);
+}
+
+export function updateFlange(tree: FeatureTree, id: string, updates: Partial<Flange>): FeatureTree {
+  return updateFeature(tree, id, f => f.kind === 'flange' ? { ...f, flange: { ...f.flange, ...updates } } : f);
+}
+
+export function updateArcFlange(tree: FeatureTree, id: string, updates: Partial<ArcFlange>): FeatureTree {
+  return updateFeature(tree, id, f => f.kind === 'arcFlange' ? { ...f, arcFlange: { ...f.arcFlange, ...updates } } : f);
+}
+
+export function updateCorner(tree: FeatureTree, id: string, updates: Partial<CornerTreatment>): FeatureTree {
+  return updateFeature(tree, id, f => f.kind === 'corner' ? { ...f, corner: { ...f.corner, ...updates } } : f);
+}
+
+export function updateHem(tree: FeatureTree, id: string, updates: Partial<Hem>): FeatureTree {
+  return updateFeature(tree, id, f => f.kind === 'hem' ? { ...f, hem: { ...f.hem, ...updates } } : f);
+}
+
+export function updateForm(tree: FeatureTree, id: string, updates: Partial<FormFeature>): FeatureTree {
+  return updateFeature(tree, id, f => f.kind === 'form' ? { ...f, form: { ...f.form, ...updates } } : f);
+}
+
+/** Save a face sketch: edits the existing sketch feature for the face, or adds one. */
+export function upsertSketch(tree: FeatureTree, sketch: FaceSketch): FeatureTree {
+  const id = sketchFeatureId(sketch.faceId);
+  return tree.features.some(f => f.id === id)
+    ? updateFeature(tree, id, () => sketchFeature(sketch))
+    : insertFeature(tree, sketchFeature(sketch));
+}
+
+export function removeFeature(tree: FeatureTree, id: string): FeatureTree {
+  const index = tree.features.findIndex(f => f.id === id);
+  if (index < 0) return tree;
+  const rollbackIndex = tree.rollbackIndex !== null && index < tree.rollbackIndex
+    ? tree.rollbackIndex - 1
+    : tree.rollbackIndex;
+  return { features: tree.features.filter(f => f.id !== id), rollbackIndex };
+}
+
+/** Move the rollback marker; null or an index past the end rolls forward to the end. */
+export function setRollback(tree: FeatureTree, index: number | null): FeatureTree {
+  return { ...tree, rollbackIndex: index === null || index >= tree.features.length ? null : Math.max(index, 0) };
+}
+
+/**
+ * When a new state replaces undone history, features that the discarded future
+ * added on top of `current` are kept, rolled back behind the marker, instead of
+ * vanishing. Features `next` removed from `current` stay removed.
+ */
+export function carryOverFeatures(
+  next: FeatureTree,
+  current: FeatureTree,
+  discarded: FeatureTree,
+): { tree: FeatureTree; carried: Feature[] } {
+  const known = new Set([...current.features, ...next.features].map(f => f.id));
+  const carried = discarded.features.filter(f => !known.has(f.id));
+  if (carried.length === 0) return { tree: next, carried };
+  return {
+    tree: {
+      features: [...next.features, ...carried],
+      rollbackIndex: activeCount(next),
+    },
+    carried,
+  };
+}
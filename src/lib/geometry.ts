@@ -1,5 +1,7 @@
 import * as THREE from 'three';
-import { SketchEntity, Point2D } from '@/lib/sheetmetal';
+import {
+  SketchEntity, Point2D, KFactorSource, bendAllowance, outsideSetback, generateId, lineLineIntersection,
+} from '@/lib/sheetmetal';
 
 // ========== 3D Part Model Types ==========
 
@@ -12,6 +14,101 @@ export interface PartEdge {
   faceNormal: THREE.Vector3;
 }
 
+/** Relief cut where a bend runs into unbent material */
+export type BendReliefType = 'none' | 'rectangular' | 'obround' | 'tear';
+
+export const BEND_RELIEF_LABELS: Record<BendReliefType, string> = {
+  none: 'None',
+  rectangular: 'Rectangular',
+  obround: 'Obround',
+  tear: 'Tear',
+};
+
+/** Treatment where two flanges meet at a corner of their parent face */
+export type CornerReliefType = 'round' | 'square' | 'tear' | 'closed-seam' | 'open-seam';
+
+export const CORNER_RELIEF_LABELS: Record<CornerReliefType, string> = {
+  round: 'Round',
+  square: 'Square',
+  tear: 'Tear',
+  'closed-seam': 'Closed Seam',
+  'open-seam': 'Open Seam',
+};
+
+/**
+ * Part-wide relief defaults. Sizes are multiples of the sheet thickness.
+ * Tear reliefs rip the material without removing any.
+ */
+export interface ReliefSettings {
+  bendRelief: BendReliefType;
+  /** Bend relief width beside the end of the bend */
+  bendReliefWidth: number;
+  /** How far the bend relief runs past the bend line into the unbent face */
+  bendReliefDepth: number;
+  cornerRelief: CornerReliefType;
+  /** Round/square relief size, or the gap of an open seam */
+  cornerReliefSize: number;
+}
+
+/** How two flanges are finished where they meet at a corner */
+export type CornerTreatmentType = 'open' | 'overlap' | 'underlap';
+
+export const CORNER_TREATMENT_LABELS: Record<CornerTreatmentType, string> = {
+  open: 'Open',
+  overlap: 'Overlap',
+  underlap: 'Underlap',
+};
+
+/**
+ * Corner treatment between two flanges; replaces the corner relief at their corner.
+ * Overlap runs the first flange past the end of the second, underlap the reverse.
+ */
+export interface CornerTreatment {
+  id: string;
+  flangeIds: [string, string];
+  type: CornerTreatmentType;
+  gap: number;             // mm between the flanges
+}
+
+/** How the edge is folded back onto its face */
+export type HemType = 'closed' | 'open' | 'teardrop' | 'rolled';
+
+export const HEM_TYPE_LABELS: Record<HemType, string> = {
+  closed: 'Closed',
+  open: 'Open',
+  teardrop: 'Teardrop',
+  rolled: 'Rolled',
+};
+
+/**
+ * Hem on a free edge. Closed and open hems fold 180°, a teardrop folds on
+ * until its leg touches the face, a rolled hem curls 270° around its radius.
+ */
+export interface Hem {
+  id: string;
+  edgeId: string;
+  type: HemType;
+  length: number;          // mm from the folded edge to the tip of the leg
+  radius: number;          // inner bend radius; half the gap of an open hem
+  direction: 'up' | 'down';
+  /** Per-bend K-factor; unset uses the bend table or the part default */
+  kFactor?: number;
+}
+
+/**
+ * Straight leg and bend angle of a hem. The length runs from the outside of the
+ * fold to the tip of the leg; a teardrop folds on until the inside of its leg
+ * touches the face, a rolled hem curls 270° and its leg stops short of the face.
+ */
+export function hemBend(hem: Pick<Hem, 'type' | 'length' | 'radius'>, thickness: number): { leg: number; angle: number } {
+  let leg = Math.max(hem.length - outsideSetback(hem.radius, thickness, 180), 0.1);
+  if (hem.type === 'rolled') leg = Math.min(leg, Math.max(hem.radius, 0.1));
+  const angle = hem.type === 'teardrop' ? 180 + (2 * Math.atan2(hem.radius, leg) * 180) / Math.PI
+    : hem.type === 'rolled' ? 270
+    : 180;
+  return { leg, angle };
+}
+
 export interface Flange {
   id: string;
   edgeId: string;
@@ -19,6 +116,142 @@ export interface Flange {
   angle: number;
   direction: 'up' | 'down';
   bendRadius: number;
+  /** Per-bend K-factor; unset uses the bend table or the part default */
+  kFactor?: number;
+  /** Per-bend relief; unset uses the part default */
+  reliefType?: BendReliefType;
+  /** Inset from the start / end of the edge in mm; unset runs to the edge end */
+  startOffset?: number;
+  endOffset?: number;
+  /** Width centred on the edge in mm; takes precedence over the offsets */
+  width?: number;
+}
+
+/** Where a flange sits along its edge */
+export type FlangeExtent = Pick<Flange, 'startOffset' | 'endOffset' | 'width'>;
+
+/**
+ * The stretch of an edge of `length` a flange covers, as distances from the
+ * edge start, or null when the offsets or width leave nothing of it.
+ */
+export function flangeSpan(extent: FlangeExtent, length: number): [number, number] | null {
+  if (extent.width !== undefined) {
+    const w = Math.min(extent.width, length);
+    return w > 1e-3 ? [(length - w) / 2, (length + w) / 2] : null;
+  }
+  const start = Math.max(extent.startOffset ?? 0, 0);
+  const end = length - Math.max(extent.endOffset ?? 0, 0);
+  return end - start > 1e-3 ? [start, end] : null;
+}
+
+/** The same extent seen from the opposite face, whose edge runs the other way */
+export function mirrorFlangeExtent(extent: FlangeExtent): FlangeExtent {
+  return { startOffset: extent.endOffset, endOffset: extent.startOffset, width: extent.width };
+}
+
+/**
+ * Flange along a curved stretch of the base profile, e.g. a sketched arc. The
+ * profile already facets the arc, so the flange is a run of segment flanges,
+ * one per facet, trimmed where neighbours would run into each other.
+ */
+export interface ArcFlange {
+  id: string;
+  /** Base edges of the arc in profile order, all on the same face */
+  edgeIds: string[];
+  height: number;
+  angle: number;
+  direction: 'up' | 'down';
+  bendRadius: number;
+  /** Extra gap left between neighbouring segments along the bend line */
+  gap: number;
+  kFactor?: number;
+  reliefType?: BendReliefType;
+}
+
+/** Largest turn between facets still read as part of an arc */
+const ARC_MAX_TURN_DEG = 30;
+
+function profileTurn(profile: Point2D[], vertex: number): number {
+  const n = profile.length;
+  const a = profile[(vertex - 1 + n) % n], b = profile[vertex], c = profile[(vertex + 1) % n];
+  const d1 = { x: b.x - a.x, y: b.y - a.y };
+  const d2 = { x: c.x - b.x, y: c.y - b.y };
+  return Math.atan2(d1.x * d2.y - d1.y * d2.x, d1.x * d2.x + d1.y * d2.y);
+}
+
+/**
+ * Profile segments of the arc that segment `index` belongs to: neighbours of
+ * about the same length, each turning a little the same way. Null when the
+ * segment is a plain straight edge.
+ */
+export function findArcRun(profile: Point2D[], index: number): number[] | null {
+  const n = profile.length;
+  const segLength = (i: number) => {
+    const a = profile[(i + n) % n], b = profile[(i + 1 + n) % n];
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  };
+  const seed = segLength(index);
+  const maxTurn = (ARC_MAX_TURN_DEG * Math.PI) / 180;
+  // Segment i continues the arc from its neighbour through vertex v
+  const continues = (i: number, v: number, sign: number) => {
+    const t = profileTurn(profile, (v + n) % n);
+    return Math.abs(segLength(i) - seed) < seed * 0.02 && Math.abs(t) > 1e-3 && Math.abs(t) <= maxTurn
+      && (sign === 0 || Math.sign(t) === sign);
+  };
+
+  let sign = 0;
+  if (continues(index + 1, index + 1, 0)) sign = Math.sign(profileTurn(profile, (index + 1) % n));
+  else if (continues(index - 1, index, 0)) sign = Math.sign(profileTurn(profile, index));
+  if (sign === 0) return null;
+
+  let first = index, last = index;
+  while (last - first + 1 < n && continues(last + 1, last + 1, sign)) last++;
+  while (last - first + 1 < n && continues(first - 1, first, sign)) first--;
+  if (last - first + 1 < 3) return null;
+  return Array.from({ length: last - first + 1 }, (_, k) => (first + k + n) % n);
+}
+
+/**
+ * The segment flanges an arc flange is built from. Where the arc is concave
+ * the segments lean into each other, so each end is cut back by the outward
+ * reach of the flange; every join also leaves half the gap on either side.
+ */
+export function arcFlangeSegments(arc: ArcFlange, profile: Point2D[], thickness: number): Flange[] {
+  const n = profile.length;
+  let twiceArea = 0;
+  profile.forEach((p, i) => { const q = profile[(i + 1) % n]; twiceArea += p.x * q.y - q.x * p.y; });
+  const orientation = twiceArea >= 0 ? 1 : -1;
+  const a = (Math.min(arc.angle, 90) * Math.PI) / 180;
+  const reach = arc.bendRadius + thickness + arc.height * Math.cos(a);
+  const indices = arc.edgeIds.map(id => parseInt(id.replace(/^edge_(top|bot)_/, ''), 10));
+  const inRun = new Set(indices);
+
+  const trimAt = (vertex: number) => {
+    const t = profileTurn(profile, vertex);
+    const concave = Math.sign(t) !== orientation;
+    return (concave ? reach * Math.tan(Math.abs(t) / 2) : 0) + arc.gap / 2;
+  };
+
+  return arc.edgeIds.map((edgeId, k) => {
+    const i = indices[k];
+    // Joins with neighbouring segments of the run; the ends of the arc stay full
+    const atStart = inRun.has((i - 1 + n) % n) ? trimAt(i) : 0;
+    const atEnd = inRun.has((i + 1) % n) ? trimAt((i + 1) % n) : 0;
+    const top = edgeId.startsWith('edge_top_');
+    return {
+      id: `${arc.id}_${k + 1}`,
+      edgeId,
+      height: arc.height,
+      angle: arc.angle,
+      direction: 'up',
+      bendRadius: arc.bendRadius,
+      kFactor: arc.kFactor,
+      reliefType: arc.reliefType,
+      // Bottom edges run the profile backwards
+      startOffset: top ? atStart : atEnd,
+      endOffset: top ? atEnd : atStart,
+    };
+  });
 }
 
 export interface SheetMetalPart {
@@ -151,6 +384,82 @@ export interface Fold {
   sketchLineId?: string;
   faceId?: string;
   foldLocation?: 'centerline' | 'material-inside' | 'material-outside';
+  /** Per-bend K-factor; unset uses the bend table or the part default */
+  kFactor?: number;
+  /** Per-bend relief; unset uses the part default */
+  reliefType?: BendReliefType;
+  /** Side of the line (looking from start to end) that folds; unset folds the side away from the face centre */
+  movingSide?: 'left' | 'right';
+}
+
+/** What a jog's offset measures */
+export type JogDimension = 'inside' | 'outside' | 'overall';
+
+export const JOG_DIMENSION_LABELS: Record<JogDimension, string> = {
+  inside: 'Inside',
+  outside: 'Outside',
+  overall: 'Overall',
+};
+
+/**
+ * Z-shaped jog across a face: two opposing folds, the first on the sketch line,
+ * the second placed so the far side ends up `offset` away from the fixed side.
+ * Inside measures between the faces looking at each other across the jog,
+ * outside between matching faces of both sides, overall over both thicknesses.
+ */
+export interface Jog {
+  id: string;
+  sketchLineId: string;
+  faceId: string;
+  lineStart: Point2D;
+  lineEnd: Point2D;
+  offset: number;
+  dimension: JogDimension;
+  /** Side of the line (looking from start to end) that stays in place */
+  fixedSide: 'left' | 'right';
+  angle: number;
+  direction: 'up' | 'down';
+  bendRadius: number;
+  kFactor?: number;
+  reliefType?: BendReliefType;
+}
+
+/**
+ * The two folds a jog is built from. The second fold sits on the face of the
+ * first, in its local coordinates, so its position does not depend on the
+ * first bend's allowance.
+ */
+export function jogFolds(jog: Jog, thickness: number): [Fold, Fold] {
+  const a = (Math.min(Math.max(jog.angle, 1), 90) * Math.PI) / 180;
+  const sheetOffset = jog.dimension === 'inside' ? jog.offset + thickness
+    : jog.dimension === 'overall' ? jog.offset - thickness
+    : jog.offset;
+  // Both bends together rise (2r + t)(1 - cos a); the straight leg between them makes up the rest
+  const straight = Math.max((sheetOffset - (2 * jog.bendRadius + thickness) * (1 - Math.cos(a))) / Math.sin(a), 0);
+  const length = Math.hypot(jog.lineEnd.x - jog.lineStart.x, jog.lineEnd.y - jog.lineStart.y);
+  const bend = { angle: jog.angle, bendRadius: jog.bendRadius, kFactor: jog.kFactor, reliefType: jog.reliefType };
+  const first: Fold = {
+    ...bend,
+    id: `${jog.id}_1`,
+    lineStart: jog.lineStart,
+    lineEnd: jog.lineEnd,
+    direction: jog.direction,
+    sketchLineId: jog.sketchLineId,
+    faceId: jog.faceId,
+    foldLocation: 'material-inside',
+    movingSide: jog.fixedSide === 'left' ? 'right' : 'left',
+  };
+  const second: Fold = {
+    ...bend,
+    id: `${jog.id}_2`,
+    lineStart: { x: 0, y: straight },
+    lineEnd: { x: length, y: straight },
+    direction: jog.direction === 'up' ? 'down' : 'up',
+    faceId: `fold_face_${first.id}`,
+    foldLocation: 'material-inside',
+    movingSide: 'left',
+  };
+  return [first, second];
 }
 
 export interface FaceSketchLine {
@@ -181,15 +490,378 @@ export interface FaceSketchPoint {
   position: Point2D;
 }
 
-export type FaceSketchEntity = FaceSketchLine | FaceSketchCircle | FaceSketchRect | FaceSketchPoint;
+/** Arc running counter-clockwise from startAngle to endAngle (radians), as in the base sketch */
+export interface FaceSketchArc {
+  id: string;
+  type: 'arc';
+  center: Point2D;
+  radius: number;
+  startAngle: number;
+  endAngle: number;
+}
+
+/** Obround slot: a centre line swept by a circle of `radius` */
+export interface FaceSketchSlot {
+  id: string;
+  type: 'slot';
+  start: Point2D;
+  end: Point2D;
+  radius: number;
+}
+
+/** Regular polygon with its corners on a circle of `radius` */
+export interface FaceSketchPolygon {
+  id: string;
+  type: 'polygon';
+  center: Point2D;
+  radius: number;
+  sides: number;
+  /** Angle of the first corner from the face's x axis, radians */
+  rotation: number;
+}
+
+/** Ellipse with its axes along the face's x and y axes */
+export interface FaceSketchEllipse {
+  id: string;
+  type: 'ellipse';
+  center: Point2D;
+  radiusX: number;
+  radiusY: number;
+}
 
-export type FaceSketchTool = 'select' | 'line' | 'circle' | 'rect' | 'point' | 'move';
+/** Smooth curve through its points; a closed spline loops back to the first */
+export interface FaceSketchSpline {
+  id: string;
+  type: 'spline';
+  points: Point2D[];
+  closed: boolean;
+}
+
+export type FaceSketchEntity =
+  | FaceSketchLine | FaceSketchCircle | FaceSketchRect | FaceSketchPoint
+  | FaceSketchArc | FaceSketchSlot | FaceSketchPolygon | FaceSketchEllipse | FaceSketchSpline;
+
+export type FaceSketchTool =
+  | 'select' | 'line' | 'circle' | 'rect' | 'point' | 'move'
+  | 'arc' | 'slot' | 'polygon' | 'ellipse' | 'spline';
 
 export interface FaceSketch {
   faceId: string;
   entities: FaceSketchEntity[];
 }
 
+/** Facets per full turn of a curved face-sketch outline */
+const FACE_SKETCH_CURVE_SEGMENTS = 32;
+/** Facets per span of a spline */
+const SPLINE_SPAN_SEGMENTS = 8;
+
+function arcPoints(center: Point2D, radius: number, startAngle: number, endAngle: number): Point2D[] {
+  let sweep = endAngle - startAngle;
+  if (sweep <= 0) sweep += 2 * Math.PI;
+  const n = Math.max(2, Math.ceil((sweep / (2 * Math.PI)) * FACE_SKETCH_CURVE_SEGMENTS));
+  return Array.from({ length: n + 1 }, (_, i) => {
+    const a = startAngle + (sweep * i) / n;
+    return { x: center.x + Math.cos(a) * radius, y: center.y + Math.sin(a) * radius };
+  });
+}
+
+/** Catmull–Rom curve through the points; the ends of an open spline are held by repeating them */
+function splinePoints(points: Point2D[], closed: boolean): Point2D[] {
+  const n = points.length;
+  if (n < 3) return [...points];
+  const at = (i: number) => closed ? points[(i + n) % n] : points[Math.max(0, Math.min(n - 1, i))];
+  const out: Point2D[] = [];
+  const spans = closed ? n : n - 1;
+  for (let s = 0; s < spans; s++) {
+    const p0 = at(s - 1), p1 = at(s), p2 = at(s + 1), p3 = at(s + 2);
+    for (let k = 0; k < SPLINE_SPAN_SEGMENTS; k++) {
+      const t = k / SPLINE_SPAN_SEGMENTS, t2 = t * t, t3 = t2 * t;
+      const blend = (a: number, b: number, c: number, d: number) =>
+        0.5 * (2 * b + (c - a) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (3 * b - a - 3 * c + d) * t3);
+      out.push({ x: blend(p0.x, p1.x, p2.x, p3.x), y: blend(p0.y, p1.y, p2.y, p3.y) });
+    }
+  }
+  if (!closed) out.push(points[n - 1]);
+  return out;
+}
+
+/** Entities that enclose an area on their own */
+export function isClosedFaceSketchEntity(entity: FaceSketchEntity): boolean {
+  if (entity.type === 'spline') return entity.closed;
+  return entity.type !== 'line' && entity.type !== 'arc' && entity.type !== 'point';
+}
+
+/**
+ * The entity drawn as a polyline in face-sketch coordinates. A closed outline
+ * does not repeat its first point; a point has no outline.
+ */
+export function faceSketchOutline(entity: FaceSketchEntity): Point2D[] {
+  switch (entity.type) {
+    case 'line': return [entity.start, entity.end];
+    case 'point': return [];
+    case 'circle': return circleToPolygon(entity.center, entity.radius, FACE_SKETCH_CURVE_SEGMENTS);
+    case 'rect': return rectToPolygon(entity.origin, entity.width, entity.height);
+    case 'arc': return arcPoints(entity.center, entity.radius, entity.startAngle, entity.endAngle);
+    case 'slot': {
+      const a = Math.atan2(entity.end.y - entity.start.y, entity.end.x - entity.start.x);
+      const half = FACE_SKETCH_CURVE_SEGMENTS / 2;
+      const cap = (c: Point2D, from: number) => Array.from({ length: half + 1 }, (_, i) => {
+        const t = from + (Math.PI * i) / half;
+        return { x: c.x + Math.cos(t) * entity.radius, y: c.y + Math.sin(t) * entity.radius };
+      });
+      return [...cap(entity.end, a - Math.PI / 2), ...cap(entity.start, a + Math.PI / 2)];
+    }
+    case 'polygon': {
+      const sides = Math.max(3, Math.round(entity.sides));
+      return Array.from({ length: sides }, (_, i) => {
+        const t = entity.rotation + (2 * Math.PI * i) / sides;
+        return { x: entity.center.x + Math.cos(t) * entity.radius, y: entity.center.y + Math.sin(t) * entity.radius };
+      });
+    }
+    case 'ellipse': return Array.from({ length: FACE_SKETCH_CURVE_SEGMENTS }, (_, i) => {
+      const t = (2 * Math.PI * i) / FACE_SKETCH_CURVE_SEGMENTS;
+      return { x: entity.center.x + Math.cos(t) * entity.radiusX, y: entity.center.y + Math.sin(t) * entity.radiusY };
+    });
+    case 'spline': return splinePoints(entity.points, entity.closed);
+  }
+}
+
+/**
+ * Outlines cut through a face by its sketch: every closed entity, plus every
+ * closed chain of lines, arcs and open splines (a D-hole is an arc closed by
+ * a line). Lines left open are fold or jog lines and cut nothing.
+ */
+export function faceSketchCutouts(entities: FaceSketchEntity[]): Point2D[][] {
+  const closed = entities.filter(isClosedFaceSketchEntity).map(faceSketchOutline);
+  const open = entities.filter(e => e.type !== 'point' && !isClosedFaceSketchEntity(e)).map(faceSketchOutline);
+  return [...closed, ...chainClosedLoops(open)];
+}
+
+/** Join open polylines end to end; chains that come back to their start are loops */
+function chainClosedLoops(paths: Point2D[][], tol = 0.5): Point2D[][] {
+  const meets = (a: Point2D, b: Point2D) => Math.hypot(a.x - b.x, a.y - b.y) < tol;
+  const used = new Set<number>();
+  const loops: Point2D[][] = [];
+  for (let i = 0; i < paths.length; i++) {
+    if (used.has(i)) continue;
+    const loop = [...paths[i]];
+    const taken = new Set([i]);
+    while (!meets(loop[0], loop[loop.length - 1])) {
+      const end = loop[loop.length - 1];
+      const j = paths.findIndex((p, k) => !used.has(k) && !taken.has(k) && (meets(p[0], end) || meets(p[p.length - 1], end)));
+      if (j < 0) break;
+      const next = meets(paths[j][0], end) ? paths[j] : [...paths[j]].reverse();
+      loop.push(...next.slice(1));
+      taken.add(j);
+    }
+    if (!meets(loop[0], loop[loop.length - 1])) continue;
+    loop.pop();
+    if (loop.length >= 3 && polygonArea(loop) > 1e-3) {
+      loops.push(loop);
+      taken.forEach(k => used.add(k));
+    }
+  }
+  return loops;
+}
+
+// ========== Form Features ==========
+
+export type FormFeatureType = 'louver' | 'lance' | 'emboss' | 'dimple' | 'bridgeLance' | 'extrudedHole';
+
+export const FORM_FEATURE_LABELS: Record<FormFeatureType, string> = {
+  louver: 'Louver',
+  lance: 'Lance',
+  emboss: 'Emboss',
+  dimple: 'Dimple',
+  bridgeLance: 'Bridge Lance',
+  extrudedHole: 'Extruded Hole',
+};
+
+/** Dimples and extruded holes are round; their length is the diameter */
+export function isRoundForm(type: FormFeatureType): boolean {
+  return type === 'dimple' || type === 'extrudedHole';
+}
+
+/**
+ * A form tool hit on a face, placed by a face-sketch point (at its centre) or
+ * rect (filling it). The locator is consumed by the form, so a rect locator
+ * is not cut out of the face.
+ */
+export interface FormFeature {
+  id: string;
+  type: FormFeatureType;
+  faceId: string;
+  /** Face-sketch point or rect the form is placed on */
+  locatorId: string;
+  /** Tool centre in face-sketch coordinates */
+  center: Point2D;
+  length: number;          // mm along the tool axis; the diameter of a round tool
+  width: number;           // mm across the tool axis; unused by round tools
+  height: number;          // mm the form stands off the face
+  /** Tool axis from the face's x axis, degrees */
+  rotation: number;
+  direction: 'up' | 'down';
+}
+
+/** Centre and, for a rect, footprint a form takes from its locator */
+export function formLocatorPlacement(entity: FaceSketchPoint | FaceSketchRect): Pick<FormFeature, 'center'> & Partial<Pick<FormFeature, 'length' | 'width'>> {
+  if (entity.type === 'point') return { center: entity.position };
+  return {
+    center: { x: entity.origin.x + entity.width / 2, y: entity.origin.y + entity.height / 2 },
+    length: entity.width,
+    width: entity.height,
+  };
+}
+
+/** Outline of the tool on the face, in face-sketch coordinates */
+export function formFootprint(form: Pick<FormFeature, 'type' | 'center' | 'length' | 'width' | 'rotation'>): Point2D[] {
+  if (isRoundForm(form.type)) return circleToPolygon(form.center, form.length / 2);
+  const a = (form.rotation * Math.PI) / 180;
+  const u = { x: Math.cos(a), y: Math.sin(a) }, v = { x: -Math.sin(a), y: Math.cos(a) };
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([su, sv]) => ({
+    x: form.center.x + (u.x * su * form.length + v.x * sv * form.width) / 2,
+    y: form.center.y + (u.y * su * form.length + v.y * sv * form.width) / 2,
+  }));
+}
+
+// ========== Sketch Patterns ==========
+
+export type PatternLayout =
+  | { type: 'linear'; columns: number; rows: number; columnSpacing: number; rowSpacing: number }
+  | { type: 'circular'; count: number; angle: number; center: Point2D };
+
+/**
+ * Copies of one face-sketch circle or rect laid out in a grid (columns along
+ * the face's x axis, rows along y) or around a centre. A base-sketch cutout
+ * seed is patterned on base_top. The seed itself is not part of the pattern.
+ */
+export interface SketchPattern {
+  id: string;
+  faceId: string;
+  /** Face-sketch circle or rect, or the base-sketch circle or rect of a cutout */
+  sourceId: string;
+  layout: PatternLayout;
+}
+
+/** Where pattern copies may land: inside the outline, clear of every bend */
+export interface PatternBounds {
+  /** Face outline in face-sketch coordinates */
+  outline: Point2D[];
+  /** Bend lines on the face, each with the distance copies must keep from it */
+  bends: { start: Point2D; end: Point2D; clearance: number }[];
+}
+
+export function patternLabel(pattern: SketchPattern): string {
+  const { layout } = pattern;
+  return layout.type === 'linear'
+    ? `Linear Pattern ${layout.columns}×${layout.rows}`
+    : `Circular Pattern ×${layout.count}`;
+}
+
+/** Offsets (and, for circular layouts, rotations) of every copy after the seed */
+function patternSteps(layout: PatternLayout): { dx: number; dy: number; turn: number }[] {
+  const steps: { dx: number; dy: number; turn: number }[] = [];
+  if (layout.type === 'linear') {
+    for (let row = 0; row < layout.rows; row++) {
+      for (let col = 0; col < layout.columns; col++) {
+        if (row === 0 && col === 0) continue;
+        steps.push({ dx: col * layout.columnSpacing, dy: row * layout.rowSpacing, turn: 0 });
+      }
+    }
+    return steps;
+  }
+  // A full turn spaces the copies evenly; a partial sweep puts the last copy at its end
+  const full = Math.abs(layout.angle) >= 360;
+  const step = layout.count > 1 ? layout.angle / (full ? layout.count : layout.count - 1) : 0;
+  for (let i = 1; i < layout.count; i++) steps.push({ dx: 0, dy: 0, turn: (i * step * Math.PI) / 180 });
+  return steps;
+}
+
+function segmentDistance(p: Point2D, a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const s = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+  return Math.hypot(p.x - a.x - s * dx, p.y - a.y - s * dy);
+}
+
+function insidePolygon(p: Point2D, poly: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i], b = poly[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/** A copy fits when its whole footprint is on the face and none of it is within reach of a bend */
+function patternCopyFits(entity: FaceSketchCircle | FaceSketchRect, bounds: PatternBounds): boolean {
+  const footprint = entity.type === 'circle'
+    ? circleToPolygon(entity.center, entity.radius, 16)
+    : rectToPolygon(entity.origin, entity.width, entity.height);
+  if (!footprint.every(p => insidePolygon(p, bounds.outline))) return false;
+  return bounds.bends.every(({ start, end, clearance }) => entity.type === 'circle'
+    ? segmentDistance(entity.center, start, end) >= entity.radius + clearance
+    : !segmentCrossesRect(start, end, {
+      ...entity,
+      origin: { x: entity.origin.x - clearance, y: entity.origin.y - clearance },
+      width: entity.width + 2 * clearance,
+      height: entity.height + 2 * clearance,
+    }));
+}
+
+function segmentCrossesRect(a: Point2D, b: Point2D, rect: FaceSketchRect): boolean {
+  const { x: x0, y: y0 } = rect.origin;
+  const x1 = x0 + rect.width, y1 = y0 + rect.height;
+  // Liang–Barsky clip of the segment against the rect
+  let t0 = 0, t1 = 1;
+  const dx = b.x - a.x, dy = b.y - a.y;
+  for (const [p, q] of [[-dx, a.x - x0], [dx, x1 - a.x], [-dy, a.y - y0], [dy, y1 - a.y]]) {
+    if (p === 0) {
+      if (q < 0) return false;
+      continue;
+    }
+    const r = q / p;
+    if (p < 0) t0 = Math.max(t0, r);
+    else t1 = Math.min(t1, r);
+    if (t0 > t1) return false;
+  }
+  return true;
+}
+
+/**
+ * Lay out the copies of a pattern's seed. Copies that leave the face or come
+ * within reach of a bend are suppressed and only counted. A rect keeps its
+ * orientation in a circular pattern; only its centre goes around.
+ */
+export function expandPattern(
+  pattern: SketchPattern,
+  seed: FaceSketchCircle | FaceSketchRect,
+  bounds: PatternBounds,
+): { instances: FaceSketchEntity[]; suppressed: number } {
+  const instances: FaceSketchEntity[] = [];
+  let suppressed = 0;
+  const seedCentre = seed.type === 'circle'
+    ? seed.center
+    : { x: seed.origin.x + seed.width / 2, y: seed.origin.y + seed.height / 2 };
+
+  patternSteps(pattern.layout).forEach((step, i) => {
+    let centre = { x: seedCentre.x + step.dx, y: seedCentre.y + step.dy };
+    if (pattern.layout.type === 'circular') {
+      const c = pattern.layout.center;
+      const cos = Math.cos(step.turn), sin = Math.sin(step.turn);
+      const rx = seedCentre.x - c.x, ry = seedCentre.y - c.y;
+      centre = { x: c.x + rx * cos - ry * sin, y: c.y + rx * sin + ry * cos };
+    }
+    const id = `${pattern.id}_${i + 1}`;
+    const copy: FaceSketchCircle | FaceSketchRect = seed.type === 'circle'
+      ? { id, type: 'circle', center: centre, radius: seed.radius }
+      : { id, type: 'rect', origin: { x: centre.x - seed.width / 2, y: centre.y - seed.height / 2 }, width: seed.width, height: seed.height };
+    if (patternCopyFits(copy, bounds)) instances.push(copy);
+    else suppressed++;
+  });
+  return { instances, suppressed };
+}
+
 export interface FlangeTipClipLine {
   lineStart: Point2D;
   lineEnd: Point2D;
@@ -265,6 +937,7 @@ export function classifySketchLineAsFold(
 
 /**
  * Compute the fold normal: perpendicular to the fold line, pointing toward the moving side.
+ * Unless the fold names its moving side, the side holding the face centre stays.
  */
 export function getFoldNormal(fold: Fold, faceWidth: number, faceHeight: number): Point2D {
   const dx = fold.lineEnd.x - fold.lineStart.x;
@@ -274,6 +947,7 @@ export function getFoldNormal(fold: Fold, faceWidth: number, faceHeight: number)
 
   let nx = dy / len;
   let ny = -dx / len;
+  if (fold.movingSide) return fold.movingSide === 'right' ? { x: nx, y: ny } : { x: -nx, y: -ny };
 
   const midX = (fold.lineStart.x + fold.lineEnd.x) / 2;
   const midY = (fold.lineStart.y + fold.lineEnd.y) / 2;
@@ -296,6 +970,8 @@ interface Edge {
   id: string;
   start: Point2D;
   end: Point2D;
+  /** Facet points between start and end of an arc, so short arcs join up as one edge */
+  via?: Point2D[];
 }
 
 function pointKey(p: Point2D, tol = 1.0): string {
@@ -319,17 +995,16 @@ function entitiesToEdges(entities: SketchEntity[]): Edge[] {
         edges.push({ id: `e${eid++}`, start: corners[i], end: corners[(i + 1) % corners.length] });
       }
     } else if (e.type === 'arc') {
-      // Approximate arc as line segments
+      // Approximate arc as line segments, running CCW from start to end like arcSvgPath
       const segments = 16;
-      for (let i = 0; i < segments; i++) {
-        const a1 = e.startAngle + (e.endAngle - e.startAngle) * (i / segments);
-        const a2 = e.startAngle + (e.endAngle - e.startAngle) * ((i + 1) / segments);
-        edges.push({
-          id: `e${eid++}`,
-          start: { x: e.center.x + Math.cos(a1) * e.radius, y: e.center.y + Math.sin(a1) * e.radius },
-          end: { x: e.center.x + Math.cos(a2) * e.radius, y: e.center.y + Math.sin(a2) * e.radius },
-        });
+      let sweep = e.endAngle - e.startAngle;
+      if (sweep < 0) sweep += 2 * Math.PI;
+      const pts: Point2D[] = [];
+      for (let i = 0; i <= segments; i++) {
+        const a = e.startAngle + sweep * (i / segments);
+        pts.push({ x: e.center.x + Math.cos(a) * e.radius, y: e.center.y + Math.sin(a) * e.radius });
       }
+      edges.push({ id: `e${eid++}`, start: pts[0], end: pts[segments], via: pts.slice(1, segments) });
     }
     // circles are handled separately as standalone loops
   }
@@ -360,7 +1035,7 @@ export function findAllClosedLoops(entities: SketchEntity[]): Point2D[][] {
   for (let startIdx = 0; startIdx < edges.length; startIdx++) {
     if (usedEdges.has(startIdx)) continue;
 
-    const path: Point2D[] = [edges[startIdx].start, edges[startIdx].end];
+    const path: Point2D[] = [edges[startIdx].start, ...(edges[startIdx].via ?? []), edges[startIdx].end];
     const pathEdges: number[] = [startIdx];
     const localUsed = new Set<number>([startIdx]);
     let closed = false;
@@ -378,17 +1053,20 @@ export function findAllClosedLoops(entities: SketchEntity[]): Point2D[][] {
         const ks = pointKey(edge.start, tol);
         const ke = pointKey(edge.end, tol);
         let nextPt: Point2D;
+        let via = edge.via ?? [];
 
         if (ks === lastKey) {
           nextPt = edge.end;
         } else if (ke === lastKey) {
           nextPt = edge.start;
+          via = [...via].reverse();
         } else {
           continue;
         }
+        path.push(...via);
 
         // Check if we close back to start
-        if (pointKey(nextPt, tol) === pointKey(path[0], tol) && pathEdges.length >= 2) {
+        if (pointKey(nextPt, tol) === pointKey(path[0], tol) && pathEdges.length >= 1 && path.length >= 3) {
           closed = true;
           localUsed.add(ci);
           pathEdges.push(ci);
@@ -467,6 +1145,175 @@ export function extractProfileAndCutouts(entities: SketchEntity[]): {
   return { profile, cutouts };
 }
 
+// ========== Contour Flange (2D) ==========
+
+/**
+ * Open cross-section for a contour flange: the corners of the sketched chain,
+ * with arcs replaced by the virtual sharp of their tangents.
+ */
+export interface ContourProfile {
+  points: Point2D[];
+  /** Sketched radius at each interior point; null where two lines meet sharp */
+  radii: (number | null)[];
+}
+
+interface ContourPiece {
+  start: Point2D;
+  end: Point2D;
+  arc?: { center: Point2D; radius: number; ccw: boolean };
+}
+
+function arcTangent(center: Point2D, p: Point2D, ccw: boolean): Point2D {
+  const len = Math.hypot(p.x - center.x, p.y - center.y);
+  const s = ccw ? 1 : -1;
+  return { x: (-(p.y - center.y) / len) * s, y: ((p.x - center.x) / len) * s };
+}
+
+/**
+ * Find a single open chain of lines and arcs in the sketch. Returns null when
+ * the sketch is closed, branches, or holds anything else besides points.
+ */
+export function extractContourProfile(entities: SketchEntity[]): ContourProfile | null {
+  const tol = 1.0;
+  const pieces: ContourPiece[] = [];
+  for (const e of entities) {
+    if (e.type === 'line') {
+      pieces.push({ start: e.start, end: e.end });
+    } else if (e.type === 'arc') {
+      let sweep = e.endAngle - e.startAngle;
+      if (sweep < 0) sweep += 2 * Math.PI;
+      if (sweep >= Math.PI * (179 / 180)) return null;
+      pieces.push({
+        start: { x: e.center.x + Math.cos(e.startAngle) * e.radius, y: e.center.y + Math.sin(e.startAngle) * e.radius },
+        end: { x: e.center.x + Math.cos(e.endAngle) * e.radius, y: e.center.y + Math.sin(e.endAngle) * e.radius },
+        arc: { center: e.center, radius: e.radius, ccw: true },
+      });
+    } else if (e.type !== 'point') {
+      return null;
+    }
+  }
+  if (pieces.length === 0) return null;
+
+  const degree = new Map<string, number>();
+  for (const p of pieces) {
+    for (const k of [pointKey(p.start, tol), pointKey(p.end, tol)]) degree.set(k, (degree.get(k) ?? 0) + 1);
+  }
+  const ends = [...degree.entries()].filter(([, d]) => d === 1).map(([k]) => k);
+  if (ends.length !== 2 || [...degree.values()].some(d => d > 2)) return null;
+
+  // Walk the chain from one end, flipping pieces to run along it
+  const chain: ContourPiece[] = [];
+  const used = new Set<number>();
+  let at = ends[0];
+  while (chain.length < pieces.length) {
+    const i = pieces.findIndex((p, j) => !used.has(j) && (pointKey(p.start, tol) === at || pointKey(p.end, tol) === at));
+    if (i < 0) return null;
+    used.add(i);
+    const p = pieces[i];
+    const piece = pointKey(p.start, tol) === at ? p
+      : { start: p.end, end: p.start, arc: p.arc && { ...p.arc, ccw: !p.arc.ccw } };
+    chain.push(piece);
+    at = pointKey(piece.end, tol);
+  }
+
+  const points: Point2D[] = [chain[0].start];
+  const radii: (number | null)[] = [];
+  chain.forEach((piece, i) => {
+    if (piece.arc) {
+      const { center, ccw, radius } = piece.arc;
+      const t0 = arcTangent(center, piece.start, ccw);
+      const t1 = arcTangent(center, piece.end, ccw);
+      const sharp = lineLineIntersection(piece.start, { x: piece.start.x + t0.x, y: piece.start.y + t0.y },
+        piece.end, { x: piece.end.x + t1.x, y: piece.end.y + t1.y });
+      if (!sharp) return;
+      points.push(sharp);
+      radii.push(radius);
+    } else if (i > 0 && !chain[i - 1].arc) {
+      points.push(piece.start);
+      radii.push(null);
+    }
+  });
+  points.push(chain[chain.length - 1].end);
+
+  // Drop corners between collinear lines
+  for (let i = points.length - 2; i > 0; i--) {
+    const a = points[i - 1], b = points[i], c = points[i + 1];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (radii[i - 1] === null && Math.abs(cross) < 1e-6 * Math.hypot(b.x - a.x, b.y - a.y) * Math.hypot(c.x - b.x, c.y - b.y)) {
+      points.splice(i, 1);
+      radii.splice(i - 1, 1);
+    }
+  }
+  return points.length >= 2 ? { points, radii } : null;
+}
+
+export interface ContourFlangeOptions {
+  /** Length the cross-section is swept along */
+  length: number;
+  thickness: number;
+  /** Radius for sharp corners */
+  bendRadius: number;
+  kFactor: number;
+  table?: KFactorSource;
+  /** Put the material on the other side of the sketched lines */
+  flip?: boolean;
+}
+
+/**
+ * Flat blank and folds that sweep a contour along `length`. The sketched
+ * lines are the mold lines of the sketch surface; bends toward it keep their
+ * radius inside, bends away from it wrap it outside. Each fold sits on the
+ * face left by the previous one, in that face's local coordinates.
+ * Returns null when segments are too short for the bends at their ends.
+ */
+export function contourFlange(contour: ContourProfile, opts: ContourFlangeOptions): { profile: Point2D[]; folds: Fold[] } | null {
+  const { points, radii } = contour;
+  const { length, thickness } = opts;
+  const bends = radii.map((sketched, i) => {
+    const a = points[i], b = points[i + 1], c = points[i + 2];
+    const din = normalize2D({ x: b.x - a.x, y: b.y - a.y });
+    const dout = normalize2D({ x: c.x - b.x, y: c.y - b.y });
+    const turn = Math.atan2(din.x * dout.y - din.y * dout.x, din.x * dout.x + din.y * dout.y);
+    const up = (turn > 0) !== !!opts.flip;
+    const angle = Math.abs(turn) * 180 / Math.PI;
+    const radius = sketched === null ? opts.bendRadius : Math.max(up ? sketched : sketched - thickness, 0);
+    const setback = (up ? radius : radius + thickness) * Math.tan(Math.abs(turn) / 2);
+    return { angle, radius, up, setback, allowance: bendAllowance(radius, opts.kFactor, thickness, angle, opts.table) };
+  });
+  if (bends.some(b => b.angle >= 179)) return null;
+
+  const straights = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y)
+    - (i > 0 ? bends[i - 1].setback : 0) - (i < bends.length ? bends[i].setback : 0));
+  if (straights.some(s => s < -1e-6)) return null;
+
+  const flat = straights.reduce((sum, s) => sum + s, 0) + bends.reduce((sum, b) => sum + b.allowance, 0);
+  const profile = [{ x: 0, y: 0 }, { x: flat, y: 0 }, { x: flat, y: length }, { x: 0, y: length }];
+
+  const folds: Fold[] = [];
+  bends.forEach((b, i) => {
+    const id = generateId();
+    const s = Math.max(straights[i], 0);
+    const onBase = i === 0;
+    folds.push({
+      id,
+      lineStart: onBase ? { x: s, y: 0 } : { x: 0, y: s },
+      lineEnd: onBase ? { x: s, y: length } : { x: length, y: s },
+      angle: Math.round(b.angle * 1000) / 1000,
+      direction: b.up ? 'up' : 'down',
+      bendRadius: b.radius,
+      faceId: onBase ? 'base_top' : `fold_face_${folds[i - 1].id}`,
+      foldLocation: 'material-inside',
+      movingSide: onBase ? 'right' : 'left',
+    });
+  });
+  return { profile, folds };
+}
+
+function normalize2D(v: Point2D): Point2D {
+  const len = Math.hypot(v.x, v.y);
+  return len < 1e-12 ? { x: 1, y: 0 } : { x: v.x / len, y: v.y / len };
+}
+
 // ========== Polygon Utilities (2D) ==========
 
 export function polygonArea(poly: Point2D[]): number {
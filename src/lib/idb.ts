@@ -0,0 +1,59 @@
+/**
+ * IndexedDB helpers — thin promise wrappers around the raw API.
+ * Every caller must cope with `openDatabase` returning null (no IndexedDB
+ * in tests, private browsing, or a blocked upgrade) and fall back to memory.
+ */
+
+export type UpgradeFn = (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void;
+
+const openDatabases = new Map<string, Promise<IDBDatabase | null>>();
+
+/**
+ * Open (and cache) a database. Resolves to null when IndexedDB is unavailable.
+ */
+export function openDatabase(name: string, version: number, upgrade: UpgradeFn): Promise<IDBDatabase | null> {
+  const existing = openDatabases.get(name);
+  if (existing) return existing;
+
+  const opening = new Promise<IDBDatabase | null>(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    try {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = event => upgrade(request.result, event.oldVersion, request.transaction);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer tab upgrade the schema; the next open here reconnects
+        db.onversionchange = () => {
+          db.close();
+          openDatabases.delete(name);
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        console.warn(`[IDB] Could not open ${name}:`, request.error);
+        resolve(null);
+      };
+      request.onblocked = () => resolve(null);
+    } catch (err) {
+      console.warn(`[IDB] Could not open ${name}:`, err);
+      resolve(null);
+    }
+  });
+  openDatabases.set(name, opening);
+  return opening;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,252 @@
+/**
+ * Lofted Bend — a faceted transition between two closed profiles on parallel
+ * planes (square-to-round, hoppers, offset reducers) and its flat pattern.
+ *
+ * The profiles are joined by a strip of triangles: both are walked around
+ * their centroids and each step advances whichever profile comes next by
+ * angle, so straight sides fan out to the points of a curved profile. Every
+ * edge shared by two triangles that are not coplanar is a bend line. The flat
+ * pattern is developed triangle by triangle from the seam, keeping all edge
+ * lengths; facet bends are small, so their bend allowance is not applied.
+ */
+
+import * as THREE from 'three';
+import { Point2D, SketchEntity } from './sheetmetal';
+import { circleToPolygon, findAllClosedLoops, polygonArea } from './geometry';
+import type { FlatPatternResult } from './metalHeroApi';
+
+// ========== Types ==========
+
+export interface LoftedBend {
+  /** Profile on the lower plane (z = 0) */
+  bottom: Point2D[];
+  /** Profile on the upper plane (z = height), in the same sketch coordinates */
+  top: Point2D[];
+  height: number;
+}
+
+/** One triangle of the strip: two vertices of the incoming rung and the vertex it advances to */
+interface LoftStep {
+  /** Which profile the step advances along */
+  along: 'bottom' | 'top';
+  /** Rung the step starts from: indices into bottom and top */
+  from: [number, number];
+}
+
+export interface LoftBend {
+  /** Rung index; rung k ends step k - 1 and starts step k */
+  rung: number;
+  bottom: THREE.Vector3;
+  top: THREE.Vector3;
+  /** Signed bend angle in degrees; positive where the surface turns the same way as the profiles */
+  angle: number;
+}
+
+/** Facets of a transition this close to coplanar are treated as one flat face */
+const MIN_BEND_DEG = 0.5;
+
+// ========== Profiles ==========
+
+function centroid(poly: Point2D[]): Point2D {
+  return {
+    x: poly.reduce((s, p) => s + p.x, 0) / poly.length,
+    y: poly.reduce((s, p) => s + p.y, 0) / poly.length,
+  };
+}
+
+function signedArea(poly: Point2D[]): number {
+  let a = 0;
+  for (let i = 0; i < poly.length; i++) {
+    const p = poly[i], q = poly[(i + 1) % poly.length];
+    a += p.x * q.y - q.x * p.y;
+  }
+  return a / 2;
+}
+
+/**
+ * The two profiles for a lofted bend from the base sketch: the largest closed
+ * loop at the bottom and the next largest at the top. Circles are faceted into
+ * `segments` sides, which sets the number of bend lines around them.
+ */
+export function extractLoftProfiles(entities: SketchEntity[], segments: number): [Point2D[], Point2D[]] | null {
+  const circles = entities.filter(e => e.type === 'circle');
+  const loops = [
+    ...findAllClosedLoops(entities.filter(e => e.type !== 'circle')),
+    ...circles.map(c => c.type === 'circle' ? circleToPolygon(c.center, c.radius, segments) : []),
+  ].filter(l => l.length >= 3);
+  if (loops.length < 2) return null;
+  loops.sort((a, b) => polygonArea(b) - polygonArea(a));
+  return [loops[0], loops[1]];
+}
+
+/** Counter-clockwise copy of a profile, starting at its vertex with the smallest polar angle */
+function orderProfile(poly: Point2D[]): { points: Point2D[]; angles: number[] } {
+  const ccw = signedArea(poly) < 0 ? [...poly].reverse() : poly;
+  const c = centroid(ccw);
+  const polar = (p: Point2D) => {
+    const a = Math.atan2(p.y - c.y, p.x - c.x);
+    return a < 0 ? a + 2 * Math.PI : a;
+  };
+  let start = 0;
+  ccw.forEach((p, i) => { if (polar(p) < polar(ccw[start])) start = i; });
+  const points = [...ccw.slice(start), ...ccw.slice(0, start)];
+  // Unwrap so the angles keep rising all the way round
+  const angles: number[] = [];
+  points.forEach((p, i) => {
+    let a = polar(p);
+    while (i > 0 && a < angles[i - 1]) a += 2 * Math.PI;
+    angles.push(a);
+  });
+  return { points, angles };
+}
+
+// ========== Triangulation ==========
+
+/**
+ * Ordered profiles and the strip of triangles between them. The strip starts
+ * and ends at the seam rung (bottom[0], top[0]).
+ */
+function loftStrip(loft: LoftedBend) {
+  const bottom = orderProfile(loft.bottom);
+  const top = orderProfile(loft.top);
+  const n = bottom.points.length;
+  const m = top.points.length;
+  const nextAngle = (p: { angles: number[] }, i: number, count: number) =>
+    i + 1 < count ? p.angles[i + 1] : p.angles[0] + 2 * Math.PI;
+
+  const steps: LoftStep[] = [];
+  let i = 0, j = 0;
+  while (i < n || j < m) {
+    const advanceBottom = j >= m || (i < n && nextAngle(bottom, i, n) <= nextAngle(top, j, m));
+    steps.push({ along: advanceBottom ? 'bottom' : 'top', from: [i, j] });
+    if (advanceBottom) i++; else j++;
+  }
+
+  const b3 = (k: number) => new THREE.Vector3(bottom.points[k % n].x, bottom.points[k % n].y, 0);
+  const t3 = (k: number) => new THREE.Vector3(top.points[k % m].x, top.points[k % m].y, loft.height);
+  return { bottom: bottom.points, top: top.points, steps, b3, t3 };
+}
+
+type Strip = ReturnType<typeof loftStrip>;
+
+function stepTriangle(strip: Strip, step: LoftStep): [THREE.Vector3, THREE.Vector3, THREE.Vector3] {
+  const [i, j] = step.from;
+  return step.along === 'bottom'
+    ? [strip.b3(i), strip.b3(i + 1), strip.t3(j)]
+    : [strip.b3(i), strip.t3(j + 1), strip.t3(j)];
+}
+
+/** Outward normal of a strip triangle (profiles run counter-clockwise) */
+function stepNormal(strip: Strip, step: LoftStep): THREE.Vector3 {
+  const [a, b, c] = stepTriangle(strip, step);
+  return b.clone().sub(a).cross(c.clone().sub(a)).normalize();
+}
+
+function rungAt(strip: Strip, k: number): [number, number] {
+  const step = strip.steps[k];
+  if (step) return step.from;
+  return [strip.bottom.length, strip.top.length];
+}
+
+/**
+ * Bend lines of the transition: the rungs between facets that are not coplanar.
+ */
+export function loftBends(loft: LoftedBend): LoftBend[] {
+  const strip = loftStrip(loft);
+  const bends: LoftBend[] = [];
+  for (let k = 1; k < strip.steps.length; k++) {
+    const n1 = stepNormal(strip, strip.steps[k - 1]);
+    const n2 = stepNormal(strip, strip.steps[k]);
+    const [i, j] = rungAt(strip, k);
+    const bottom = strip.b3(i);
+    const top = strip.t3(j);
+    const axis = top.clone().sub(bottom).normalize();
+    const angle = (Math.atan2(n1.clone().cross(n2).dot(axis), n1.dot(n2)) * 180) / Math.PI;
+    if (Math.abs(angle) >= MIN_BEND_DEG) bends.push({ rung: k, bottom, top, angle });
+  }
+  return bends;
+}
+
+/**
+ * Sheet geometry of the transition: every facet extruded outward by the thickness.
+ */
+export function loftGeometry(loft: LoftedBend, thickness: number): THREE.BufferGeometry {
+  const strip = loftStrip(loft);
+  const positions: number[] = [];
+  const push = (...vs: THREE.Vector3[]) => vs.forEach(v => positions.push(v.x, v.y, v.z));
+  for (const step of strip.steps) {
+    const [a, b, c] = stepTriangle(strip, step);
+    const off = stepNormal(strip, step).multiplyScalar(thickness);
+    const [a2, b2, c2] = [a, b, c].map(v => v.clone().add(off));
+    push(a, c, b, a2, b2, c2);
+    for (const [p, q, p2, q2] of [[a, b, a2, b2], [b, c, b2, c2], [c, a, c2, a2]]) {
+      push(p, q, q2, p, q2, p2);
+    }
+  }
+  const geo = new THREE.BufferGeometry();
+  geo.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geo.computeVertexNormals();
+  return geo;
+}
+
+// ========== Unfolding ==========
+
+/** Third corner of a flat triangle on the given side of the directed base p→q */
+function placeApex(p: Point2D, q: Point2D, dp: number, dq: number, side: 1 | -1): Point2D {
+  const base = Math.hypot(q.x - p.x, q.y - p.y);
+  const ux = (q.x - p.x) / base, uy = (q.y - p.y) / base;
+  const along = (dp * dp - dq * dq + base * base) / (2 * base);
+  const across = Math.sqrt(Math.max(dp * dp - along * along, 0)) * side;
+  return { x: p.x + ux * along - uy * across, y: p.y + uy * along + ux * across };
+}
+
+/**
+ * Develop the transition into a flat pattern, cut open along the seam rung.
+ */
+export function unfoldLoft(loft: LoftedBend): FlatPatternResult {
+  const strip = loftStrip(loft);
+  const n = strip.bottom.length;
+  const m = strip.top.length;
+  // Flat positions; index n / m is the seam vertex again on the far side of the cut
+  const flatBottom: Point2D[] = new Array(n + 1);
+  const flatTop: Point2D[] = new Array(m + 1);
+  flatBottom[0] = { x: 0, y: 0 };
+  flatTop[0] = { x: 0, y: strip.t3(0).distanceTo(strip.b3(0)) };
+
+  for (const step of strip.steps) {
+    const [i, j] = step.from;
+    const p = flatBottom[i], q = flatTop[j];
+    // Profiles run counter-clockwise seen from above, so the strip develops to the right of bottom→top
+    if (step.along === 'bottom') {
+      const v = strip.b3(i + 1);
+      flatBottom[i + 1] = placeApex(p, q, v.distanceTo(strip.b3(i)), v.distanceTo(strip.t3(j)), -1);
+    } else {
+      const v = strip.t3(j + 1);
+      flatTop[j + 1] = placeApex(p, q, v.distanceTo(strip.b3(i)), v.distanceTo(strip.t3(j)), -1);
+    }
+  }
+
+  const polygon = [...flatBottom, ...[...flatTop].reverse()];
+  const bendLines = loftBends(loft).map((b, k) => {
+    const [i, j] = rungAt(strip, b.rung);
+    return {
+      foldId: `loft_${b.rung}`,
+      start: flatBottom[i],
+      end: flatTop[j],
+      angle: Math.round(b.angle * 100) / 100,
+      radius: 0,
+      label: `B${k + 1}`,
+    };
+  });
+
+  const xs = polygon.map(p => p.x);
+  const ys = polygon.map(p => p.y);
+  const boundingBox = { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+  return {
+    regions: [{ id: 'base', faceId: 'loft', polygon, cutouts: [] }],
+    bendLines,
+    boundingBox,
+    overallWidth: boundingBox.maxX - boundingBox.minX,
+    overallHeight: boundingBox.maxY - boundingBox.minY,
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * Material Library — built-in and user-defined sheet metal materials.
+ * Each material lists the gauges it is stocked in with their minimum inner bend
+ * radius, and a K-factor table over the radius/thickness ratio. Selecting a
+ * material drives the SheetMetalDefaults (thickness, bend radius, K-factor).
+ * Custom materials are kept in localStorage and can be exported/imported as JSON.
+ */
+
+import { z } from 'zod';
+import { SheetMetalDefaults } from './sheetmetal';
+import { downloadText } from './export';
+
+// ========== Types ==========
+
+export interface MaterialGauge {
+  thickness: number;       // mm
+  minBendRadius: number;   // smallest inner bend radius in mm for this thickness
+}
+
+/** One point of the K-factor curve; K is interpolated linearly over r/t */
+export interface KFactorPoint {
+  radiusRatio: number;     // inner bend radius / thickness
+  kFactor: number;
+}
+
+export interface Material {
+  name: string;
+  density: number;         // g/cm³
+  yieldStrength: number;   // MPa
+  gauges: MaterialGauge[];
+  kFactorTable: KFactorPoint[];
+  builtIn?: boolean;
+}
+
+export class MaterialLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MaterialLibraryError';
+  }
+}
+
+export const MATERIAL_LIBRARY_FORMAT = 'smmaterials';
+
+// ========== Built-in Materials ==========
+
+function gauges(thicknesses: number[], radiusRatio: number): MaterialGauge[] {
+  return thicknesses.map(t => ({ thickness: t, minBendRadius: Math.round(t * radiusRatio * 100) / 100 }));
+}
+
+export const BUILT_IN_MATERIALS: Material[] = [
+  {
+    name: 'Steel',
+    density: 7.85,
+    yieldStrength: 280,
+    gauges: gauges([0.5, 0.75, 1, 1.25, 1.5, 2, 2.5, 3, 4, 5, 6], 1),
+    kFactorTable: [
+      { radiusRatio: 0.5, kFactor: 0.38 },
+      { radiusRatio: 1, kFactor: 0.44 },
+      { radiusRatio: 3, kFactor: 0.47 },
+      { radiusRatio: 5, kFactor: 0.5 },
+    ],
+    builtIn: true,
+  },
+  {
+    name: 'Galvanized Steel',
+    density: 7.85,
+    yieldStrength: 250,
+    gauges: gauges([0.5, 0.75, 1, 1.25, 1.5, 2, 2.5, 3], 1),
+    kFactorTable: [
+      { radiusRatio: 0.5, kFactor: 0.38 },
+      { radiusRatio: 1, kFactor: 0.43 },
+      { radiusRatio: 3, kFactor: 0.47 },
+      { radiusRatio: 5, kFactor: 0.5 },
+    ],
+    builtIn: true,
+  },
+  {
+    name: 'Aluminum',
+    density: 2.68,
+    yieldStrength: 193,
+    gauges: gauges([0.5, 0.8, 1, 1.5, 2, 2.5, 3, 4, 5, 6], 1.5),
+    kFactorTable: [
+      { radiusRatio: 0.5, kFactor: 0.3 },
+      { radiusRatio: 1, kFactor: 0.33 },
+      { radiusRatio: 3, kFactor: 0.42 },
+      { radiusRatio: 5, kFactor: 0.5 },
+    ],
+    builtIn: true,
+  },
+  {
+    name: 'Stainless Steel',
+    density: 7.93,
+    yieldStrength: 215,
+    gauges: gauges([0.5, 0.8, 1, 1.2, 1.5, 2, 2.5, 3, 4, 5], 1),
+    kFactorTable: [
+      { radiusRatio: 0.5, kFactor: 0.4 },
+      { radiusRatio: 1, kFactor: 0.45 },
+      { radiusRatio: 3, kFactor: 0.48 },
+      { radiusRatio: 5, kFactor: 0.5 },
+    ],
+    builtIn: true,
+  },
+  {
+    name: 'Copper',
+    density: 8.94,
+    yieldStrength: 69,
+    gauges: gauges([0.5, 0.8, 1, 1.5, 2, 3], 0.5),
+    kFactorTable: [
+      { radiusRatio: 0.5, kFactor: 0.32 },
+      { radiusRatio: 1, kFactor: 0.35 },
+      { radiusRatio: 3, kFactor: 0.43 },
+      { radiusRatio: 5, kFactor: 0.5 },
+    ],
+    builtIn: true,
+  },
+];
+
+// ========== Lookups ==========
+
+function sortedBy<T>(items: T[], key: (item: T) => number): T[] {
+  return [...items].sort((a, b) => key(a) - key(b));
+}
+
+/** Piecewise-linear interpolation, clamped to the end points */
+function interpolate(points: { x: number; y: number }[], x: number): number {
+  if (points.length === 0) return NaN;
+  if (x <= points[0].x) return points[0].y;
+  const last = points[points.length - 1];
+  if (x >= last.x) return last.y;
+  const i = points.findIndex(p => p.x >= x);
+  const a = points[i - 1], b = points[i];
+  return a.y + (b.y - a.y) * (x - a.x) / (b.x - a.x);
+}
+
+/**
+ * K-factor for an inner bend radius and thickness, from the material's r/t table.
+ */
+export function kFactorFor(material: Material, radius: number, thickness: number): number {
+  const table = sortedBy(material.kFactorTable, p => p.radiusRatio).map(p => ({ x: p.radiusRatio, y: p.kFactor }));
+  const k = interpolate(table, thickness > 0 ? radius / thickness : 0);
+  return Math.round(k * 1000) / 1000;
+}
+
+/**
+ * Minimum inner bend radius at a thickness. Between stocked gauges the r/t ratio
+ * of the neighbouring gauges is interpolated.
+ */
+export function minBendRadiusFor(material: Material, thickness: number): number {
+  const ratios = sortedBy(material.gauges, g => g.thickness)
+    .map(g => ({ x: g.thickness, y: g.minBendRadius / g.thickness }));
+  const ratio = interpolate(ratios, thickness);
+  return Number.isNaN(ratio) ? 0 : Math.round(ratio * thickness * 100) / 100;
+}
+
+export function nearestGauge(material: Material, thickness: number): number {
+  if (material.gauges.length === 0) return thickness;
+  return material.gauges.reduce((best, g) =>
+    Math.abs(g.thickness - thickness) < Math.abs(best - thickness) ? g.thickness : best,
+  material.gauges[0].thickness);
+}
+
+/**
+ * Defaults for a newly selected material: snap the thickness to its nearest gauge,
+ * use that gauge's minimum bend radius and the matching K-factor.
+ */
+export function applyMaterial(defaults: SheetMetalDefaults, material: Material): SheetMetalDefaults {
+  const thickness = nearestGauge(material, defaults.thickness);
+  const bendRadius = minBendRadiusFor(material, thickness) || defaults.bendRadius;
+  return {
+    ...defaults,
+    material: material.name,
+    thickness,
+    bendRadius,
+    kFactor: kFactorFor(material, bendRadius, thickness),
+  };
+}
+
+// ========== Library Store ==========
+
+const STORAGE_KEY = 'metalhero.materials';
+
+const gaugeSchema = z.object({
+  thickness: z.number().positive(),
+  minBendRadius: z.number().nonnegative(),
+});
+
+const materialSchema = z.object({
+  name: z.string().trim().min(1),
+  density: z.number().positive(),
+  yieldStrength: z.number().positive(),
+  gauges: z.array(gaugeSchema).min(1),
+  kFactorTable: z.array(z.object({
+    radiusRatio: z.number().nonnegative(),
+    kFactor: z.number().min(0).max(1),
+  })).min(1),
+});
+
+const librarySchema = z.object({
+  format: z.literal(MATERIAL_LIBRARY_FORMAT),
+  materials: z.array(materialSchema),
+});
+
+function parseMaterial(raw: unknown, path: string): Material {
+  const result = materialSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new MaterialLibraryError(`Invalid material — ${[path, ...issue.path].join('.')}: ${issue.message}`);
+  }
+  return { ...(result.data as Material), builtIn: false };
+}
+
+function loadCustomMaterials(): Material[] {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.flatMap((m, i) => {
+      try { return [parseMaterial(m, `[${i}]`)]; } catch { return []; }
+    }) : [];
+  } catch {
+    return [];
+  }
+}
+
+let customMaterials: Material[] = loadCustomMaterials();
+let library: Material[] = [...BUILT_IN_MATERIALS, ...customMaterials];
+let listeners: (() => void)[] = [];
+
+function setCustomMaterials(next: Material[]) {
+  customMaterials = next;
+  library = [...BUILT_IN_MATERIALS, ...customMaterials];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(customMaterials.map(({ builtIn: _, ...m }) => m)));
+  } catch {
+    // Storage unavailable (private mode) — keep the in-memory library
+  }
+  listeners.forEach(fn => fn());
+}
+
+export function getMaterials(): Material[] {
+  return library;
+}
+
+export function getMaterial(name: string): Material | undefined {
+  return library.find(m => m.name.toLowerCase() === name.toLowerCase());
+}
+
+export function subscribeMaterials(fn: () => void) {
+  listeners.push(fn);
+  return () => { listeners = listeners.filter(l => l !== fn); };
+}
+
+/** Add a custom material, or replace the custom material with the same name */
+export function saveCustomMaterial(material: Material) {
+  const parsed = parseMaterial(material, material.name || 'material');
+  if (BUILT_IN_MATERIALS.some(m => m.name.toLowerCase() === parsed.name.toLowerCase())) {
+    throw new MaterialLibraryError(`"${parsed.name}" is a built-in material; choose another name`);
+  }
+  setCustomMaterials([
+    ...customMaterials.filter(m => m.name.toLowerCase() !== parsed.name.toLowerCase()),
+    parsed,
+  ]);
+}
+
+export function removeCustomMaterial(name: string) {
+  setCustomMaterials(customMaterials.filter(m => m.name !== name));
+}
+
+// ========== Import / Export ==========
+
+export function serializeMaterialLibrary(materials: Material[] = library): string {
+  return JSON.stringify({
+    format: MATERIAL_LIBRARY_FORMAT,
+    materials: materials.map(({ builtIn: _, ...m }) => m),
+  }, null, 2);
+}
+
+export function downloadMaterialLibrary() {
+  downloadText(serializeMaterialLibrary(), 'materials.json', 'application/json');
+}
+
+/**
+ * Import a library file. Materials are added or replace custom materials of the
+ * same name; entries named like a built-in material are skipped.
+ * Returns the number of materials imported.
+ */
+export function importMaterialLibrary(text: string): number {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new MaterialLibraryError('The file is not valid JSON');
+  }
+  const result = librarySchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new MaterialLibraryError(`Invalid material library — ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  const imported = (result.data.materials as Material[])
+    .filter(m => !BUILT_IN_MATERIALS.some(b => b.name.toLowerCase() === m.name.toLowerCase()))
+    .map(m => ({ ...m, builtIn: false }));
+  const names = new Set(imported.map(m => m.name.toLowerCase()));
+  setCustomMaterials([...customMaterials.filter(m => !names.has(m.name.toLowerCase())), ...imported]);
+  return imported.length;
+}
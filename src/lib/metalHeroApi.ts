@@ -1,16 +1,26 @@
 /**
  * Metal Hero API Client
- * Central API client for communicating with api.metal-hero.com
+ * Central API client for communicating with the Metal Hero backend
+ * (api.metal-hero.com by default — see apiTransport.ts for other backends).
  * Handles 3D model building and unfolding.
+ * Falls back to the local kernel (cadKernel.ts) when the backend is unreachable.
  */
 
 import * as THREE from 'three';
-import { Point2D } from './sheetmetal';
-import { Flange, Fold, ProfileCutout, FaceSketch } from './geometry';
+import { Point2D, DEFAULT_RELIEF } from './sheetmetal';
+import {
+  Flange, Fold, ProfileCutout, FaceSketch, BendReliefType, ReliefSettings, CornerTreatment, CornerTreatmentType,
+  Hem, HemType, FormFeature, FormFeatureType, faceSketchCutouts, hemBend,
+} from './geometry';
+import { BendTable, BendOverride, bendOverrides } from './bendTables';
 import { FaceTransform, ApiEdge, updateFaceRegistry } from './faceRegistry';
 import { addApiLog } from './apiLogger';
-
-const API_BASE = 'https://api.metal-hero.com';
+import {
+  BUILD_MODEL_PATH, UNFOLD_PATH, ApiTransport, TransportResponse,
+  getApiTransport, createLocalTransport,
+} from './apiTransport';
+import { getCachedResponse, putCachedResponse, responseCacheKey } from './responseCache';
+import { parseBuildModelResponse, parseUnfoldResponse } from './apiSchemas';
 
 // ========== Request Types ==========
 
@@ -34,8 +44,10 @@ export interface BuildModelRequest {
     direction: 'up' | 'down';
     bendRadius: number;
     kFactor: number;
+    reliefType?: BendReliefType;
     foldLocation: string;
     parentFaceId: string;
+    movingSide?: 'left' | 'right';
   }[];
   flanges: {
     id: string;
@@ -45,17 +57,54 @@ export interface BuildModelRequest {
     direction: 'up' | 'down';
     bendRadius: number;
     kFactor: number;
+    reliefType?: BendReliefType;
+    startOffset?: number;
+    endOffset?: number;
+    width?: number;
   }[];
   faceSketches: {
     faceId: string;
     side: string;
     entities: any[];
+    /** Closed outlines the sketch cuts through the face, in face-sketch coordinates */
+    cutouts?: Point2D[][];
   }[];
   bendTable: {
     type: string;
     defaultKFactor: number;
-    overrides: any[];
+    overrides: BendOverride[];
   };
+  /** Relief sizes and corner relief; absent means DEFAULT_RELIEF */
+  relief?: ReliefSettings;
+  /** Flange pairs with an explicit corner treatment */
+  corners?: {
+    id: string;
+    flangeIds: [string, string];
+    type: CornerTreatmentType;
+    gap: number;
+  }[];
+  /** Hems on free edges, built after every fold and flange */
+  hems?: {
+    id: string;
+    edgeId: string;
+    type: HemType;
+    length: number;
+    radius: number;
+    direction: 'up' | 'down';
+    kFactor: number;
+  }[];
+  /** Form tool hits, placed on their faces after every bend */
+  forms?: {
+    id: string;
+    type: FormFeatureType;
+    faceId: string;
+    center: Point2D;
+    length: number;
+    width: number;
+    height: number;
+    rotation: number;
+    direction: 'up' | 'down';
+  }[];
 }
 
 export interface MeshData {
@@ -83,6 +132,10 @@ export interface BuildModelResponse {
       baseFace: MeshData;
       folds: FoldMeshData[];
       flanges: FlangeMeshData[];
+      /** Absent from backends without hem support */
+      hems?: FlangeMeshData[];
+      /** Absent from backends without form tool support */
+      forms?: FlangeMeshData[];
     };
     boundaryEdges: {
       positions: number[];
@@ -111,9 +164,18 @@ export interface UnfoldResponse {
       label: string;
     }[];
     boundingBox: { minX: number; minY: number; maxX: number; maxY: number };
+    formMarkers?: FormMarker[];
   };
 }
 
+/** Where a form tool hits the flat blank: its centre and footprint */
+export interface FormMarker {
+  formId: string;
+  type: FormFeatureType;
+  center: Point2D;
+  outline: Point2D[];
+}
+
 // ========== Geometry Conversion ==========
 
 export function meshDataToBufferGeometry(data: MeshData): THREE.BufferGeometry {
@@ -155,15 +217,36 @@ export function edgePositionsToBufferGeometry(positions: number[]): THREE.Buffer
 
 // ========== API Calls ==========
 
-function buildRequestPayload(
-  profile: Point2D[],
-  thickness: number,
-  cutouts: ProfileCutout[],
-  folds: Fold[],
-  flanges: Flange[],
-  faceSketches: FaceSketch[],
-  kFactor: number,
-): BuildModelRequest {
+/** The part as the kernel sees it: the base face, its features and the material settings */
+export interface PartInput {
+  profile: Point2D[];
+  thickness: number;
+  cutouts?: ProfileCutout[];
+  folds?: Fold[];
+  flanges?: Flange[];
+  faceSketches?: FaceSketch[];
+  /** Default K-factor for bends the bend table does not cover */
+  kFactor: number;
+  bendTable?: BendTable | null;
+  /** Absent means DEFAULT_RELIEF */
+  relief?: ReliefSettings;
+  corners?: CornerTreatment[];
+  hems?: Hem[];
+  forms?: FormFeature[];
+}
+
+/** The request body sent to the backend (and the local kernel) for a part */
+export function buildRequestPayload({
+  profile, thickness, cutouts = [], folds = [], flanges = [], faceSketches = [], kFactor,
+  bendTable = null, relief = DEFAULT_RELIEF, corners = [], hems = [], forms = [],
+}: PartInput): BuildModelRequest {
+  // Form locators place a tool; they are not cut out of the face
+  const locatorIds = new Set(forms.map(f => f.locatorId));
+  // Bends with their own K-factor or covered by the table are overridden; the rest use the default.
+  // Hems are looked up at the angle they actually fold to
+  const hemBends = hems.map(h => ({ id: h.id, angle: hemBend(h, thickness).angle, bendRadius: h.radius, kFactor: h.kFactor }));
+  const overrides = bendOverrides(bendTable, [...folds, ...flanges, ...hemBends], thickness);
+  const kFactorFor = (id: string) => overrides.find(o => o.bendId === id)?.kFactor ?? kFactor;
   return {
     profile,
     thickness,
@@ -183,9 +266,11 @@ function buildRequestPayload(
       angle: f.angle,
       direction: f.direction,
       bendRadius: f.bendRadius,
-      kFactor,
+      kFactor: kFactorFor(f.id),
+      reliefType: f.reliefType ?? relief.bendRelief,
       foldLocation: f.foldLocation ?? 'centerline',
       parentFaceId: f.faceId ?? 'base:top',
+      movingSide: f.movingSide,
     })),
     flanges: flanges.map(f => ({
       id: f.id,
@@ -194,68 +279,330 @@ function buildRequestPayload(
       angle: f.angle,
       direction: f.direction,
       bendRadius: f.bendRadius,
-      kFactor,
-    })),
-    faceSketches: faceSketches.map(fs => ({
-      faceId: fs.faceId,
-      side: fs.faceId.includes('top') || fs.faceId.includes('outer') ? 'top' : 'bot',
-      entities: fs.entities,
+      kFactor: kFactorFor(f.id),
+      reliefType: f.reliefType ?? relief.bendRelief,
+      startOffset: f.startOffset,
+      endOffset: f.endOffset,
+      width: f.width,
     })),
+    faceSketches: faceSketches.map(fs => {
+      const entities = fs.entities.filter(e => !locatorIds.has(e.id));
+      return {
+        faceId: fs.faceId,
+        side: fs.faceId.includes('top') || fs.faceId.includes('outer') ? 'top' : 'bot',
+        entities,
+        cutouts: faceSketchCutouts(entities),
+      };
+    }),
     bendTable: {
-      type: 'kFactor',
+      type: bendTable?.type ?? 'kFactor',
       defaultKFactor: kFactor,
-      overrides: [],
+      overrides,
     },
+    relief,
+    corners: corners.map(c => ({ id: c.id, flangeIds: c.flangeIds, type: c.type, gap: c.gap })),
+    hems: hems.map(h => ({
+      id: h.id,
+      edgeId: h.edgeId,
+      type: h.type,
+      length: h.length,
+      radius: h.radius,
+      direction: h.direction,
+      kFactor: kFactorFor(h.id),
+    })),
+    forms: forms.map(f => ({
+      id: f.id,
+      type: f.type,
+      faceId: f.faceId,
+      center: f.center,
+      length: f.length,
+      width: f.width,
+      height: f.height,
+      rotation: f.rotation,
+      direction: f.direction,
+    })),
   };
 }
 
+// ========== Request Control ==========
+
+export interface RequestOptions {
+  /** Cancels this caller's interest in the result; the request is aborted once no caller is left */
+  signal?: AbortSignal;
+  /**
+   * Names the caller's stream of requests (e.g. 'viewer'); a newer request on
+   * the same channel supersedes the older one. Without a channel nothing is superseded.
+   */
+  channel?: string;
+  /** Per-attempt timeout in ms */
+  timeoutMs?: number;
+  /** Retries on 5xx responses, with exponential backoff */
+  retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 250;
+
+interface InFlightRequest {
+  key: string;
+  controller: AbortController;
+  promise: Promise<unknown>;
+  consumers: number;
+}
+
+const RESPONSE_PARSERS: Record<string, (data: unknown) => BuildModelResponse | UnfoldResponse> = {
+  [BUILD_MODEL_PATH]: parseBuildModelResponse,
+  [UNFOLD_PATH]: parseUnfoldResponse,
+};
+
+/** Requests in flight by endpoint and payload, shared by everyone asking for the same thing */
+const inFlight = new Map<string, InFlightRequest>();
+
+/** Latest request per endpoint and channel, with how to drop each of its callers on that channel */
+const channels = new Map<string, { entry: InFlightRequest; callers: Set<() => void> }>();
+
+function abortError(message: string): DOMException {
+  return new DOMException(message, 'AbortError');
+}
+
+/** True for errors caused by cancellation (superseded request or unmounted caller). */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(abortError('Request cancelled'));
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError('Request cancelled'));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Send a request for an endpoint, sharing it with identical in-flight requests.
+ * A newer request on the same channel drops the channel's interest in its older
+ * one, so a stale response can never land after a newer one; the older request
+ * itself is aborted once no caller is left waiting for it.
+ */
+function requestFromBackend(path: string, payload: BuildModelRequest, options: RequestOptions = {}): Promise<unknown> {
+  const key = `${path} ${JSON.stringify(payload)}`;
+  let entry = inFlight.get(key);
+
+  // A request everyone gave up on may still be winding down; do not join it
+  if (!entry || entry.controller.signal.aborted) {
+    const controller = new AbortController();
+    const created: InFlightRequest = {
+      key,
+      controller,
+      consumers: 0,
+      promise: loadResponse(path, payload, controller.signal, options).finally(() => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      }),
+    };
+    entry = created;
+    inFlight.set(key, entry);
+  }
+
+  const shared = entry;
+  const { signal, channel } = options;
+  const superseded = new AbortController();
+  const channelKey = channel ? `${path}#${channel}` : null;
+  const supersede = () => superseded.abort(abortError('Superseded by a newer request'));
+  if (channelKey) {
+    let latest = channels.get(channelKey);
+    if (latest?.entry !== shared) {
+      latest?.callers.forEach(fn => fn());
+      latest = { entry: shared, callers: new Set() };
+      channels.set(channelKey, latest);
+    }
+    latest.callers.add(supersede);
+  }
+  shared.consumers++;
+
+  return new Promise((resolve, reject) => {
+    const release = () => {
+      signal?.removeEventListener('abort', onAbort);
+      superseded.signal.removeEventListener('abort', onSuperseded);
+      shared.consumers--;
+      const latest = channelKey ? channels.get(channelKey) : undefined;
+      if (latest?.entry === shared) {
+        latest.callers.delete(supersede);
+        if (latest.callers.size === 0) channels.delete(channelKey!);
+      }
+    };
+    const drop = (reason: DOMException) => {
+      release();
+      if (shared.consumers === 0) shared.controller.abort(reason);
+      reject(reason);
+    };
+    const onAbort = () => drop(abortError('Request cancelled'));
+    const onSuperseded = () => drop(superseded.signal.reason);
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    superseded.signal.addEventListener('abort', onSuperseded, { once: true });
+    shared.promise.then(
+      value => { release(); resolve(value); },
+      err => { release(); reject(err); },
+    );
+  });
+}
+
+/**
+ * Serve a response from the cache, or fetch it from the active transport and cache it.
+ * Responses are validated against the endpoint's schema before anyone sees them.
+ * Only remote backends are cached: mock replays must stay deterministic, the local
+ * kernel is cheap and changes with the app, and local-kernel fallbacks must not be
+ * stored under the remote backend's key.
+ */
+async function loadResponse(
+  path: string,
+  payload: BuildModelRequest,
+  signal: AbortSignal,
+  options: RequestOptions,
+): Promise<unknown> {
+  const transport = getApiTransport();
+  const validate = RESPONSE_PARSERS[path];
+  const cacheKey = transport.kind === 'http'
+    ? responseCacheKey(`${transport.label}${path}`, payload)
+    : null;
+
+  if (cacheKey) {
+    const t0 = performance.now();
+    const cached = await getCachedResponse(cacheKey);
+    if (signal.aborted) throw abortError('Request cancelled');
+    if (cached !== undefined) {
+      addApiLog({
+        timestamp: new Date().toISOString(),
+        endpoint: `cache://${path.split('/').pop()}`,
+        method: 'POST',
+        requestBody: payload,
+        responseStatus: 200,
+        responseBody: cached,
+        durationMs: Math.round(performance.now() - t0),
+      });
+      return validate(cached);
+    }
+  }
+
+  const response = await postWithRetry(transport, path, payload, signal, options);
+  const { url } = response;
+  const data = validate(response.data);
+  const servedByFallback = transport.kind === 'http' && url.startsWith('local://');
+  if (cacheKey && !servedByFallback && data.success) {
+    putCachedResponse(cacheKey, data);
+  }
+  return data;
+}
+
+/**
+ * Send a request through the active transport and log it.
+ * 5xx responses are retried with exponential backoff; each attempt is bounded by
+ * the timeout. When a remote backend is unreachable the request is served by the local kernel.
+ */
+async function postWithRetry(
+  transport: ApiTransport,
+  path: string,
+  payload: BuildModelRequest,
+  signal: AbortSignal,
+  { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES }: RequestOptions,
+): Promise<{ url: string; data: unknown }> {
+
+  for (let attempt = 0; ; attempt++) {
+    const t0 = performance.now();
+    const response = await postWithTimeout(transport, path, payload, signal, timeoutMs);
+
+    if (response.ok || response.status < 500 || attempt >= retries) {
+      addApiLog({
+        timestamp: new Date().toISOString(),
+        endpoint: response.url,
+        method: 'POST',
+        requestBody: payload,
+        responseStatus: response.status,
+        responseBody: response.data,
+        durationMs: Math.round(performance.now() - t0),
+      });
+      if (!response.ok) {
+        // The kernel (and backends that explain themselves) say why in the body
+        const reason = (response.data as { error?: unknown } | null)?.error;
+        throw new Error(typeof reason === 'string' && reason
+          ? reason
+          : `API error: ${response.status} ${response.statusText}`);
+      }
+      return { url: response.url, data: response.data };
+    }
+
+    const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+    console.warn(`[API] ${path} returned ${response.status}, retrying in ${delay}ms (${attempt + 1}/${retries})`);
+    await sleep(delay, signal);
+  }
+}
+
+async function postWithTimeout(
+  transport: ApiTransport,
+  path: string,
+  payload: BuildModelRequest,
+  signal: AbortSignal,
+  timeoutMs: number,
+): Promise<TransportResponse> {
+  const attempt = new AbortController();
+  const onAbort = () => attempt.abort(signal.reason);
+  signal.addEventListener('abort', onAbort, { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    attempt.abort(abortError('Timed out'));
+  }, timeoutMs);
+
+  try {
+    const response = await transport.post(path, payload, attempt.signal);
+    // Transports that cannot be interrupted still must not deliver a cancelled result
+    if (signal.aborted) throw abortError('Request cancelled');
+    return response;
+  } catch (err) {
+    if (timedOut) throw new Error(`API timeout: ${path} did not respond within ${timeoutMs}ms`);
+    if (signal.aborted || isAbortError(err) || transport.kind !== 'http') throw err;
+    // Network failure (offline / host unreachable) — use the local kernel
+    console.warn(`[API] ${path} unreachable, using local kernel:`, err);
+    return createLocalTransport().post(path, payload);
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
 export interface BuildModelResult {
   baseFace: THREE.BufferGeometry;
   folds: { id: string; arc: THREE.BufferGeometry; tip: THREE.BufferGeometry }[];
   flanges: { id: string; mesh: THREE.BufferGeometry }[];
+  hems: { id: string; mesh: THREE.BufferGeometry }[];
+  forms: { id: string; mesh: THREE.BufferGeometry }[];
   boundaryEdges: THREE.BufferGeometry;
   faces: FaceTransform[];
   edges: ApiEdge[];
 }
 
-export async function buildModel(
-  profile: Point2D[],
-  thickness: number,
-  cutouts: ProfileCutout[],
-  folds: Fold[],
-  flanges: Flange[],
-  faceSketches: FaceSketch[],
-  kFactor: number,
-): Promise<BuildModelResult> {
-  const payload = buildRequestPayload(profile, thickness, cutouts, folds, flanges, faceSketches, kFactor);
-
-  const url = `${API_BASE}/api/v1/build-model`;
-  const t0 = performance.now();
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    throw new Error(`API error: ${response.status} ${response.statusText}`);
-  }
+export async function buildModel(part: PartInput, options?: RequestOptions): Promise<BuildModelResult> {
+  const payload = buildRequestPayload(part);
 
-  const data: BuildModelResponse = await response.json();
-  const durationMs = Math.round(performance.now() - t0);
-
-  addApiLog({
-    timestamp: new Date().toISOString(),
-    endpoint: url,
-    method: 'POST',
-    requestBody: payload,
-    responseStatus: response.status,
-    responseBody: data,
-    durationMs,
-  });
+  const data = await requestFromBackend(BUILD_MODEL_PATH, payload, options) as BuildModelResponse;
+  return modelResponseToResult(data);
+}
 
+/**
+ * Convert a build-model response (remote or local kernel) into three.js geometry
+ * and update the face registry.
+ */
+function modelResponseToResult(data: BuildModelResponse): BuildModelResult {
   if (!data.success || !data.model) {
-    throw new Error(data.error ?? 'Build model failed');
+    throw new Error(data.error ?? 'The backend could not build the model and gave no reason');
   }
 
   const { model } = data;
@@ -274,6 +621,14 @@ export async function buildModel(
       id: f.id,
       mesh: meshDataToBufferGeometry(f.mesh),
     })),
+    hems: (model.meshes.hems ?? []).map(h => ({
+      id: h.id,
+      mesh: meshDataToBufferGeometry(h.mesh),
+    })),
+    forms: (model.meshes.forms ?? []).map(f => ({
+      id: f.id,
+      mesh: meshDataToBufferGeometry(f.mesh),
+    })),
     boundaryEdges: edgePositionsToBufferGeometry(model.boundaryEdges.positions),
     faces: model.faces,
     edges: model.edges,
@@ -296,48 +651,22 @@ export interface FlatPatternResult {
     label: string;
   }[];
   boundingBox: { minX: number; minY: number; maxX: number; maxY: number };
+  /** Tool hits of form features; absent from backends without form tool support */
+  formMarkers?: FormMarker[];
   overallWidth: number;
   overallHeight: number;
 }
 
-export async function unfoldModel(
-  profile: Point2D[],
-  thickness: number,
-  cutouts: ProfileCutout[],
-  folds: Fold[],
-  flanges: Flange[],
-  faceSketches: FaceSketch[],
-  kFactor: number,
-): Promise<FlatPatternResult> {
-  const payload = buildRequestPayload(profile, thickness, cutouts, folds, flanges, faceSketches, kFactor);
-
-  const url = `${API_BASE}/api/v1/unfold`;
-  const t0 = performance.now();
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    throw new Error(`API error: ${response.status} ${response.statusText}`);
-  }
+export async function unfoldModel(part: PartInput, options?: RequestOptions): Promise<FlatPatternResult> {
+  const payload = buildRequestPayload(part);
 
-  const data: UnfoldResponse = await response.json();
-  const durationMs = Math.round(performance.now() - t0);
-
-  addApiLog({
-    timestamp: new Date().toISOString(),
-    endpoint: url,
-    method: 'POST',
-    requestBody: payload,
-    responseStatus: response.status,
-    responseBody: data,
-    durationMs,
-  });
+  const data = await requestFromBackend(UNFOLD_PATH, payload, options) as UnfoldResponse;
+  return unfoldResponseToResult(data);
+}
 
+function unfoldResponseToResult(data: UnfoldResponse): FlatPatternResult {
   if (!data.success || !data.flatPattern) {
-    throw new Error(data.error ?? 'Unfold failed');
+    throw new Error(data.error ?? 'The backend could not unfold the part and gave no reason');
   }
 
   const { flatPattern } = data;
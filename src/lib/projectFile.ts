@@ -0,0 +1,328 @@
+/**
+ * Project File — the versioned `.smproj` JSON document.
+ * Holds everything needed to reopen a part: the base sketch, the extracted
+ * profile and cutouts (or a lofted bend), and the ordered feature tree (folds, jogs, flanges, arc flanges, corners,
+ * hems, form tools, face sketches and their patterns).
+ * Older versions are migrated step by step on load.
+ */
+
+import { z } from 'zod';
+import { Point2D, SketchEntity, SheetMetalDefaults, DEFAULT_SHEET_METAL } from './sheetmetal';
+import { ProfileCutout, Flange, Fold, FaceSketch } from './geometry';
+import { FeatureTree, treeFromLists } from './featureTree';
+import type { LoftedBend } from './loft';
+import { bendTableSchema } from './bendTables';
+import { downloadText } from './export';
+
+export const PROJECT_FORMAT = 'smproj';
+export const PROJECT_VERSION = 3;
+export const PROJECT_EXTENSION = '.smproj';
+
+// ========== Types ==========
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string;
+  createdAt: string;
+  modifiedAt: string;
+  sketch: {
+    entities: SketchEntity[];
+    gridSize: number;
+    snapEnabled: boolean;
+    sheetMetalDefaults: SheetMetalDefaults;
+  };
+  /** Null until the sketch has been converted to a base face */
+  part: {
+    profile: Point2D[];
+    cutouts: ProfileCutout[];
+  } | null;
+  /** Lofted bend standing in for the base face; older files have none */
+  loft?: LoftedBend | null;
+  features: FeatureTree;
+}
+
+export type ProjectContent = Omit<ProjectFile, 'format' | 'version' | 'createdAt' | 'modifiedAt'> & {
+  createdAt?: string;
+};
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+// ========== Migrations ==========
+
+type RawProject = Record<string, unknown> & { version: number };
+
+/**
+ * MIGRATIONS[n] upgrades a version-n document to version n+1.
+ * Add an entry here (and bump PROJECT_VERSION) whenever the format changes.
+ */
+const MIGRATIONS: Record<number, (doc: RawProject) => RawProject> = {
+  // v2: flat feature lists became an ordered feature tree
+  1: doc => {
+    const lists = (doc.features ?? {}) as { flanges?: Flange[]; folds?: Fold[]; faceSketches?: FaceSketch[] };
+    return {
+      ...doc,
+      features: treeFromLists({
+        flanges: lists.flanges ?? [],
+        arcFlanges: [],
+        folds: lists.folds ?? [],
+        jogs: [],
+        faceSketches: lists.faceSketches ?? [],
+        patterns: [],
+        corners: [],
+        hems: [],
+        forms: [],
+      }),
+    };
+  },
+  // v3: jogs, arc flanges, corners, hems, form tools and patterns in the tree, lofted
+  // bends, bend tables and relief settings. All are optional, so v2 carries over as is
+  2: doc => ({ ...doc, loft: doc.loft ?? null }),
+};
+
+function migrate(doc: RawProject): RawProject {
+  let current = doc;
+  while (current.version < PROJECT_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) throw new ProjectFileError(`No migration from project version ${current.version}`);
+    current = { ...step(current), version: current.version + 1 };
+  }
+  return current;
+}
+
+// ========== Validation ==========
+
+const point = z.object({ x: z.number(), y: z.number() });
+const entity = z.object({ id: z.string(), type: z.string() }).passthrough();
+/** Per-bend K-factor override */
+const kFactor = z.number().min(0).max(1).optional();
+
+const projectSchema = z.object({
+  format: z.literal(PROJECT_FORMAT),
+  version: z.literal(PROJECT_VERSION),
+  name: z.string(),
+  createdAt: z.string(),
+  modifiedAt: z.string(),
+  sketch: z.object({
+    entities: z.array(entity),
+    gridSize: z.number().positive(),
+    snapEnabled: z.boolean(),
+    sheetMetalDefaults: z.object({
+      material: z.string(),
+      thickness: z.number().positive(),
+      bendRadius: z.number().nonnegative(),
+      kFactor: z.number().min(0).max(1),
+      bendTable: bendTableSchema.nullable().optional(),
+      relief: z.object({
+        bendRelief: z.enum(['none', 'rectangular', 'obround', 'tear']),
+        bendReliefWidth: z.number().nonnegative(),
+        bendReliefDepth: z.number().nonnegative(),
+        cornerRelief: z.enum(['round', 'square', 'tear', 'closed-seam', 'open-seam']),
+        cornerReliefSize: z.number().nonnegative(),
+      }).optional(),
+    }).passthrough(),
+  }),
+  part: z.object({
+    profile: z.array(point).min(3),
+    cutouts: z.array(z.object({ type: z.string(), polygon: z.array(point) }).passthrough()),
+  }).nullable(),
+  loft: z.object({
+    bottom: z.array(point).min(3),
+    top: z.array(point).min(3),
+    height: z.number().positive(),
+  }).nullable().optional(),
+  features: z.object({
+    features: z.array(z.discriminatedUnion('kind', [
+      z.object({
+        kind: z.literal('sketch'),
+        id: z.string(),
+        sketch: z.object({ faceId: z.string(), entities: z.array(entity) }).passthrough(),
+      }),
+      z.object({
+        kind: z.literal('pattern'),
+        id: z.string(),
+        pattern: z.object({
+          id: z.string(),
+          faceId: z.string(),
+          sourceId: z.string(),
+          layout: z.discriminatedUnion('type', [
+            z.object({
+              type: z.literal('linear'),
+              columns: z.number().int().positive(),
+              rows: z.number().int().positive(),
+              columnSpacing: z.number(),
+              rowSpacing: z.number(),
+            }),
+            z.object({
+              type: z.literal('circular'),
+              count: z.number().int().positive(),
+              angle: z.number(),
+              center: point,
+            }),
+          ]),
+        }),
+      }),
+      z.object({
+        kind: z.literal('fold'),
+        id: z.string(),
+        fold: z.object({ id: z.string(), lineStart: point, lineEnd: point, kFactor }).passthrough(),
+      }),
+      z.object({
+        kind: z.literal('jog'),
+        id: z.string(),
+        jog: z.object({
+          id: z.string(),
+          sketchLineId: z.string(),
+          faceId: z.string(),
+          lineStart: point,
+          lineEnd: point,
+          offset: z.number().positive(),
+          dimension: z.enum(['inside', 'outside', 'overall']),
+          fixedSide: z.enum(['left', 'right']),
+          angle: z.number().positive().max(90),
+          direction: z.enum(['up', 'down']),
+          bendRadius: z.number().nonnegative(),
+          kFactor,
+        }).passthrough(),
+      }),
+      z.object({
+        kind: z.literal('flange'),
+        id: z.string(),
+        flange: z.object({ id: z.string(), edgeId: z.string(), kFactor }).passthrough(),
+      }),
+      z.object({
+        kind: z.literal('arcFlange'),
+        id: z.string(),
+        arcFlange: z.object({
+          id: z.string(),
+          edgeIds: z.array(z.string()).min(1),
+          height: z.number().positive(),
+          angle: z.number().positive().max(180),
+          direction: z.enum(['up', 'down']),
+          bendRadius: z.number().nonnegative(),
+          gap: z.number().nonnegative(),
+          kFactor,
+        }).passthrough(),
+      }),
+      z.object({
+        kind: z.literal('corner'),
+        id: z.string(),
+        corner: z.object({
+          id: z.string(),
+          flangeIds: z.tuple([z.string(), z.string()]),
+          type: z.enum(['open', 'overlap', 'underlap']),
+          gap: z.number().nonnegative(),
+        }),
+      }),
+      z.object({
+        kind: z.literal('hem'),
+        id: z.string(),
+        hem: z.object({
+          id: z.string(),
+          edgeId: z.string(),
+          type: z.enum(['closed', 'open', 'teardrop', 'rolled']),
+          length: z.number().positive(),
+          radius: z.number().nonnegative(),
+          direction: z.enum(['up', 'down']),
+          kFactor,
+        }).passthrough(),
+      }),
+      z.object({
+        kind: z.literal('form'),
+        id: z.string(),
+        form: z.object({
+          id: z.string(),
+          type: z.enum(['louver', 'lance', 'emboss', 'dimple', 'bridgeLance', 'extrudedHole']),
+          faceId: z.string(),
+          locatorId: z.string(),
+          center: point,
+          length: z.number().positive(),
+          width: z.number().nonnegative(),
+          height: z.number().positive(),
+          rotation: z.number(),
+          direction: z.enum(['up', 'down']),
+        }),
+      }),
+    ])),
+    rollbackIndex: z.number().int().nonnegative().nullable(),
+  }),
+});
+
+// ========== Read / Write ==========
+
+export function createProjectFile(content: ProjectContent): ProjectFile {
+  const now = new Date().toISOString();
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    name: content.name,
+    createdAt: content.createdAt ?? now,
+    modifiedAt: now,
+    sketch: content.sketch,
+    part: content.part,
+    loft: content.loft ?? null,
+    features: content.features,
+  };
+}
+
+export function serializeProject(project: ProjectFile): string {
+  return JSON.stringify(project, null, 2);
+}
+
+/**
+ * Parse a `.smproj` document, migrating it to the current version.
+ * Throws ProjectFileError with a user-facing message when the file cannot be used.
+ */
+export function parseProjectFile(text: string): ProjectFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('The file is not valid JSON');
+  }
+  return loadProjectDocument(raw);
+}
+
+/**
+ * Validate and migrate an already-parsed project document (file or browser storage).
+ */
+export function loadProjectDocument(raw: unknown): ProjectFile {
+  if (!raw || typeof raw !== 'object' || (raw as { format?: unknown }).format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('The file is not a SheetMetal project');
+  }
+  const version = (raw as { version?: unknown }).version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('The project file has no valid version');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(`The project was saved by a newer version (format v${version}); please update the app`);
+  }
+
+  const result = projectSchema.safeParse(migrate(raw as RawProject));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ProjectFileError(`Invalid project file — ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  const project = result.data as unknown as ProjectFile;
+  return {
+    ...project,
+    sketch: {
+      ...project.sketch,
+      sheetMetalDefaults: { ...DEFAULT_SHEET_METAL, ...project.sketch.sheetMetalDefaults },
+    },
+  };
+}
+
+export function projectFileName(name: string): string {
+  const slug = name.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-') || 'untitled';
+  return `${slug}${PROJECT_EXTENSION}`;
+}
+
+export function downloadProject(project: ProjectFile) {
+  downloadText(serializeProject(project), projectFileName(project.name), 'application/json');
+}
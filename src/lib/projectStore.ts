@@ -0,0 +1,169 @@
+/**
+ * Project Store — browser persistence for projects (IndexedDB).
+ * Holds the project library shown on /projects, and per-project autosave
+ * slots so unsaved work survives a reload or tab crash.
+ */
+
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+import { ProjectFile, PROJECT_VERSION, loadProjectDocument } from './projectFile';
+import { generateId } from './sheetmetal';
+import type { HistoryEntry } from '@/hooks/useActionHistory';
+
+const DB_NAME = 'metalhero-projects';
+const DB_VERSION = 2;
+const AUTOSAVE_STORE = 'autosave';
+const PROJECTS_STORE = 'projects';
+
+/** Autosave slot for work that has not been saved to the library yet */
+export const NEW_PROJECT_SLOT = 'new';
+
+export interface StoredProject {
+  id: string;
+  project: ProjectFile;
+  /** JPEG data URL captured from the 3D viewer */
+  thumbnail: string | null;
+}
+
+export interface AutosaveRecord {
+  project: ProjectFile;
+  /** Undo history at the time of the save; dropped when the project had to be migrated */
+  history: { entries: HistoryEntry[]; currentIndex: number } | null;
+  savedAt: number;
+}
+
+function openProjectsDb() {
+  return openDatabase(DB_NAME, DB_VERSION, (db, oldVersion, tx) => {
+    if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) db.createObjectStore(AUTOSAVE_STORE);
+    if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+    if (oldVersion === 1) {
+      // v1 had a single autosave under 'current'
+      const autosave = tx.objectStore(AUTOSAVE_STORE);
+      const legacy = autosave.get('current');
+      legacy.onsuccess = () => {
+        if (legacy.result) autosave.put(legacy.result, NEW_PROJECT_SLOT);
+        autosave.delete('current');
+      };
+    }
+  });
+}
+
+// ========== Library ==========
+
+/**
+ * All stored projects, most recently modified first.
+ * Projects that can no longer be read are skipped.
+ */
+export async function listProjects(): Promise<StoredProject[]> {
+  const db = await openProjectsDb();
+  if (!db) return [];
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const all = await requestToPromise<StoredProject[]>(tx.objectStore(PROJECTS_STORE).getAll());
+  return all
+    .flatMap(rec => {
+      try {
+        return [{ ...rec, project: loadProjectDocument(rec.project) }];
+      } catch (err) {
+        console.warn(`[Projects] Skipping unreadable project ${rec.id}:`, err);
+        return [];
+      }
+    })
+    .sort((a, b) => b.project.modifiedAt.localeCompare(a.project.modifiedAt));
+}
+
+export async function getProject(id: string): Promise<StoredProject | null> {
+  const db = await openProjectsDb();
+  if (!db) return null;
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const rec = await requestToPromise<StoredProject | undefined>(tx.objectStore(PROJECTS_STORE).get(id));
+  return rec ? { ...rec, project: loadProjectDocument(rec.project) } : null;
+}
+
+/**
+ * Insert or update a project. A new id is assigned when none is given.
+ * Throws when browser storage is unavailable, since the caller asked for an explicit save.
+ */
+export async function putProject(record: Omit<StoredProject, 'id'> & { id?: string }): Promise<StoredProject> {
+  const db = await openProjectsDb();
+  if (!db) throw new Error('Browser storage is not available');
+  const stored: StoredProject = { ...record, id: record.id ?? generateId() };
+  const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put(stored);
+  await transactionDone(tx);
+  return stored;
+}
+
+export async function renameProject(id: string, name: string): Promise<StoredProject | null> {
+  const rec = await getProject(id);
+  if (!rec) return null;
+  return putProject({ ...rec, project: { ...rec.project, name, modifiedAt: new Date().toISOString() } });
+}
+
+export async function duplicateProject(id: string): Promise<StoredProject | null> {
+  const rec = await getProject(id);
+  if (!rec) return null;
+  const now = new Date().toISOString();
+  return putProject({
+    thumbnail: rec.thumbnail,
+    project: { ...rec.project, name: `${rec.project.name} (copy)`, createdAt: now, modifiedAt: now },
+  });
+}
+
+export async function deleteProject(id: string) {
+  const db = await openProjectsDb();
+  if (!db) return;
+  const tx = db.transaction([PROJECTS_STORE, AUTOSAVE_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  tx.objectStore(AUTOSAVE_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+// ========== Autosave ==========
+
+export async function saveAutosave(slot: string, record: AutosaveRecord) {
+  const db = await openProjectsDb();
+  if (!db) return;
+  try {
+    const tx = db.transaction(AUTOSAVE_STORE, 'readwrite');
+    tx.objectStore(AUTOSAVE_STORE).put(record, slot);
+    await transactionDone(tx);
+  } catch (err) {
+    console.warn('[Autosave] Save failed:', err);
+  }
+}
+
+/**
+ * Load an autosave slot (a project id, or NEW_PROJECT_SLOT), migrating the project if needed.
+ * Returns null when there is nothing to restore or the record is unreadable.
+ */
+export async function loadAutosave(slot: string): Promise<AutosaveRecord | null> {
+  const db = await openProjectsDb();
+  if (!db) return null;
+  try {
+    const tx = db.transaction(AUTOSAVE_STORE, 'readonly');
+    const raw = await requestToPromise<AutosaveRecord | undefined>(tx.objectStore(AUTOSAVE_STORE).get(slot));
+    if (!raw) return null;
+    const sameVersion = raw.project?.version === PROJECT_VERSION;
+    // Histories from before the base face was undoable hold bare feature trees
+    const snapshots = raw.history?.entries.every(e => e.state && 'tree' in e.state);
+    return {
+      project: loadProjectDocument(raw.project),
+      history: sameVersion && snapshots ? raw.history : null,
+      savedAt: raw.savedAt,
+    };
+  } catch (err) {
+    console.warn('[Autosave] Discarding unreadable autosave:', err);
+    return null;
+  }
+}
+
+export async function clearAutosave(slot: string) {
+  const db = await openProjectsDb();
+  if (!db) return;
+  try {
+    const tx = db.transaction(AUTOSAVE_STORE, 'readwrite');
+    tx.objectStore(AUTOSAVE_STORE).delete(slot);
+    await transactionDone(tx);
+  } catch (err) {
+    console.warn('[Autosave] Clear failed:', err);
+  }
+}
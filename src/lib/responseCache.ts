@@ -0,0 +1,196 @@
+/**
+ * Response Cache — content-addressed store for build-model / unfold responses.
+ * Keys are a stable hash of the request payload, so revisiting a state
+ * (switching workflow steps, undo/redo) skips the backend round trip.
+ * Keys also carry CACHE_SCHEMA_VERSION, so responses cached by an older build
+ * are never served to a newer one.
+ * Two tiers: an in-memory LRU and a persistent IndexedDB store.
+ */
+
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+
+const DB_NAME = 'metalhero-cache';
+const STORE = 'responses';
+
+/** In-memory LRU size */
+const MAX_MEMORY_ENTRIES = 32;
+/** Persistent entries kept; least recently used are evicted beyond this */
+const MAX_PERSISTED_ENTRIES = 200;
+/** Persistent entries older than this are dropped on read */
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Bump whenever the request payload, the kernel or the response schema changes
+ * in a way that makes earlier responses wrong. Entries under an older version
+ * are no longer looked up and age out of the store.
+ */
+export const CACHE_SCHEMA_VERSION = 1;
+
+interface CacheRecord {
+  key: string;
+  data: unknown;
+  createdAt: number;
+  lastAccess: number;
+}
+
+// ========== Hashing ==========
+
+/**
+ * JSON with object keys sorted, so logically equal payloads serialize identically.
+ */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const obj = value as Record<string, unknown>;
+  const entries = Object.keys(obj)
+    .filter(k => obj[k] !== undefined)
+    .sort()
+    .map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/** 53-bit string hash (cyrb53), hex encoded. */
+export function hashString(str: string, seed = 0): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Cache key for a payload sent to an endpoint of a given backend.
+ */
+export function responseCacheKey(namespace: string, payload: unknown): string {
+  return `v${CACHE_SCHEMA_VERSION}:${namespace}#${hashString(stableStringify(payload))}`;
+}
+
+// ========== Memory Tier ==========
+
+// Map iteration order doubles as LRU order (oldest first)
+const memory = new Map<string, unknown>();
+
+function rememberInMemory(key: string, data: unknown) {
+  memory.delete(key);
+  memory.set(key, data);
+  while (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value);
+  }
+}
+
+// ========== Persistent Tier ==========
+
+function openCacheDb() {
+  return openDatabase(DB_NAME, 1, db => {
+    const store = db.createObjectStore(STORE, { keyPath: 'key' });
+    store.createIndex('lastAccess', 'lastAccess');
+  });
+}
+
+async function readPersisted(key: string): Promise<unknown | undefined> {
+  const db = await openCacheDb();
+  if (!db) return undefined;
+  try {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const record = await requestToPromise<CacheRecord | undefined>(store.get(key));
+    if (!record) return undefined;
+    const now = Date.now();
+    if (now - record.createdAt > MAX_AGE_MS) {
+      store.delete(key);
+      return undefined;
+    }
+    store.put({ ...record, lastAccess: now });
+    return record.data;
+  } catch (err) {
+    console.warn('[Cache] Read failed:', err);
+    return undefined;
+  }
+}
+
+async function writePersisted(key: string, data: unknown) {
+  const db = await openCacheDb();
+  if (!db) return;
+  try {
+    const now = Date.now();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    store.put({ key, data, createdAt: now, lastAccess: now } satisfies CacheRecord);
+
+    const count = await requestToPromise(store.count());
+    let excess = count - MAX_PERSISTED_ENTRIES;
+    if (excess > 0) {
+      const cursorReq = store.index('lastAccess').openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    }
+    await transactionDone(tx);
+  } catch (err) {
+    // Quota exceeded or similar — the memory tier still has it
+    console.warn('[Cache] Write failed:', err);
+  }
+}
+
+// ========== Public API ==========
+
+let listeners: (() => void)[] = [];
+
+function notify() {
+  listeners.forEach(fn => fn());
+}
+
+export async function getCachedResponse(key: string): Promise<unknown | undefined> {
+  if (memory.has(key)) {
+    const data = memory.get(key);
+    rememberInMemory(key, data);
+    return data;
+  }
+  const persisted = await readPersisted(key);
+  if (persisted !== undefined) rememberInMemory(key, persisted);
+  return persisted;
+}
+
+export function putCachedResponse(key: string, data: unknown) {
+  rememberInMemory(key, data);
+  notify();
+  void writePersisted(key, data);
+}
+
+export async function clearResponseCache() {
+  memory.clear();
+  const db = await openCacheDb();
+  if (db) {
+    try {
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).clear();
+      await transactionDone(tx);
+    } catch (err) {
+      console.warn('[Cache] Clear failed:', err);
+    }
+  }
+  notify();
+}
+
+/** Number of responses held in memory. */
+export function getResponseCacheSize(): number {
+  return memory.size;
+}
+
+export function subscribeResponseCache(fn: () => void) {
+  listeners.push(fn);
+  return () => { listeners = listeners.filter(l => l !== fn); };
+}
@@ -1,26 +1,60 @@
 // ========== Sheet Metal Engineering Calculations ==========
 
+import type { BendTable } from './bendTables';
+import type { ReliefSettings } from './geometry';
+
 export interface SheetMetalDefaults {
-  material: string;
+  material: string;        // name of a material in the library (see materials.ts)
   thickness: number;       // mm
   bendRadius: number;      // inner bend radius in mm
   kFactor: number;         // 0.0 to 0.5 (typically 0.3-0.5)
+  /** Measured bend table; overrides kFactor for the bends it covers */
+  bendTable?: BendTable | null;
+  /** Bend and corner relief; projects saved without it use DEFAULT_RELIEF */
+  relief?: ReliefSettings;
 }
 
+export const DEFAULT_RELIEF: ReliefSettings = {
+  bendRelief: 'rectangular',
+  bendReliefWidth: 1,
+  bendReliefDepth: 0.5,
+  cornerRelief: 'round',
+  cornerReliefSize: 2,
+};
+
 export const DEFAULT_SHEET_METAL: SheetMetalDefaults = {
   material: 'Steel',
   thickness: 1.0,
   bendRadius: 1.0,
   kFactor: 0.44,
+  relief: DEFAULT_RELIEF,
 };
 
-export const MATERIALS = [
-  { name: 'Steel', defaultK: 0.44 },
-  { name: 'Aluminum', defaultK: 0.33 },
-  { name: 'Stainless Steel', defaultK: 0.45 },
-  { name: 'Copper', defaultK: 0.35 },
-  { name: 'Custom', defaultK: 0.44 },
-];
+/**
+ * A K-factor lookup (e.g. a bend table); returns null for bends it does not cover.
+ */
+export type KFactorSource = (angleDeg: number, radius: number, thickness: number) => number | null;
+
+/**
+ * The K-factor for a bend: the table value where the table covers it, else `kFactor`.
+ */
+export function effectiveKFactor(
+  radius: number,
+  kFactor: number,
+  thickness: number,
+  angleDeg: number,
+  table?: KFactorSource
+): number {
+  return table?.(angleDeg, radius, thickness) ?? kFactor;
+}
+
+/**
+ * A typed per-bend K-factor override: blank input clears it, anything else is held to 0–1.
+ */
+export function parseKFactor(value: string): number | undefined {
+  const k = parseFloat(value);
+  return Number.isFinite(k) ? Math.min(Math.max(k, 0), 1) : undefined;
+}
 
 /**
  * Calculate bend allowance using K-Factor method.
@@ -30,15 +64,18 @@ export const MATERIALS = [
  * @param kFactor K-Factor (dimensionless, 0-0.5)
  * @param thickness Material thickness (mm)
  * @param angleDeg Bend angle in degrees
+ * @param table Optional bend table whose K-factor takes precedence
  * @returns Bend allowance in mm
  */
 export function bendAllowance(
   radius: number,
   kFactor: number,
   thickness: number,
-  angleDeg: number
+  angleDeg: number,
+  table?: KFactorSource
 ): number {
-  return Math.PI * (radius + kFactor * thickness) * (angleDeg / 180);
+  const k = effectiveKFactor(radius, kFactor, thickness, angleDeg, table);
+  return Math.PI * (radius + k * thickness) * (angleDeg / 180);
 }
 
 /**
@@ -49,14 +86,29 @@ export function bendDeduction(
   radius: number,
   kFactor: number,
   thickness: number,
-  angleDeg: number
+  angleDeg: number,
+  table?: KFactorSource
 ): number {
-  const ba = bendAllowance(radius, kFactor, thickness, angleDeg);
+  const ba = bendAllowance(radius, kFactor, thickness, angleDeg, table);
   const angleRad = (angleDeg * Math.PI) / 180;
   const ossb = (radius + thickness) * Math.tan(angleRad / 2); // outside setback
   return 2 * ossb - ba;
 }
 
+/**
+ * Outside setback: distance from the mold-line (virtual sharp) to the tangent
+ * point of the bend. Bends past 90° are measured to the tangent instead of the
+ * mold-line, which would otherwise run off to infinity.
+ */
+export function outsideSetback(
+  radius: number,
+  thickness: number,
+  angleDeg: number
+): number {
+  if (angleDeg > 90) return radius + thickness;
+  return (radius + thickness) * Math.tan((angleDeg * Math.PI / 180) / 2);
+}
+
 /**
  * Calculate the flat length of a bend segment.
  */
@@ -65,9 +117,10 @@ export function flatLength(
   radius: number,
   kFactor: number,
   thickness: number,
-  angleDeg: number
+  angleDeg: number,
+  table?: KFactorSource
 ): number {
-  const ba = bendAllowance(radius, kFactor, thickness, angleDeg);
+  const ba = bendAllowance(radius, kFactor, thickness, angleDeg, table);
   return flangeLength - (radius + thickness) * Math.tan((angleDeg * Math.PI / 180) / 2) + ba;
 }
 
@@ -418,3 +471,140 @@ export function pointSideOfLine(p: Point2D, lineStart: Point2D, lineEnd: Point2D
   const cross = (lineEnd.x - lineStart.x) * (p.y - lineStart.y) - (lineEnd.y - lineStart.y) * (p.x - lineStart.x);
   return cross >= 0 ? 1 : -1;
 }
+
+// ========== Slot, Polygon and Corner Tools ==========
+
+function polarPoint(center: Point2D, radius: number, angle: number): Point2D {
+  return { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius };
+}
+
+/**
+ * Slot (obround) between the centres of its two end caps, as two straight
+ * sides and two half-circle arcs that close into one loop.
+ */
+export function slotEntities(start: Point2D, end: Point2D, radius: number): SketchEntity[] {
+  const axis = Math.atan2(end.y - start.y, end.x - start.x);
+  const right = axis - Math.PI / 2, left = axis + Math.PI / 2;
+  return [
+    { id: generateId(), type: 'line', start: polarPoint(start, radius, right), end: polarPoint(end, radius, right) },
+    { id: generateId(), type: 'arc', center: end, radius, startAngle: right, endAngle: left },
+    { id: generateId(), type: 'line', start: polarPoint(end, radius, left), end: polarPoint(start, radius, left) },
+    { id: generateId(), type: 'arc', center: start, radius, startAngle: left, endAngle: right + 2 * Math.PI },
+  ];
+}
+
+/**
+ * Regular polygon inscribed in a circle, one line per side. `rotation` is the
+ * angle of the first vertex in radians.
+ */
+export function regularPolygonEntities(center: Point2D, radius: number, sides: number, rotation: number): SketchLine[] {
+  const vertices = Array.from({ length: sides }, (_, i) => polarPoint(center, radius, rotation + (2 * Math.PI * i) / sides));
+  return vertices.map((v, i) => ({ id: generateId(), type: 'line', start: v, end: vertices[(i + 1) % sides] }));
+}
+
+/** Two lines meeting at a shared endpoint */
+export interface LineCorner {
+  first: SketchLine;
+  second: SketchLine;
+  firstEnd: 'start' | 'end';
+  secondEnd: 'start' | 'end';
+  corner: Point2D;
+}
+
+/**
+ * Find the corner between two lines nearest to `p`, within `maxDist`.
+ * Endpoints closer than `tol` count as shared.
+ */
+export function findLineCorner(entities: SketchEntity[], p: Point2D, maxDist: number, tol = 1.0): LineCorner | null {
+  const lines = entities.filter((e): e is SketchLine => e.type === 'line');
+  let best: LineCorner | null = null;
+  let bestDist = maxDist;
+  for (let i = 0; i < lines.length; i++) {
+    for (let j = i + 1; j < lines.length; j++) {
+      for (const firstEnd of ['start', 'end'] as const) {
+        for (const secondEnd of ['start', 'end'] as const) {
+          const a = lines[i][firstEnd], b = lines[j][secondEnd];
+          if (distance2D(a, b) > tol) continue;
+          const d = distance2D(p, a);
+          if (d < bestDist) {
+            bestDist = d;
+            best = { first: lines[i], second: lines[j], firstEnd, secondEnd, corner: a };
+          }
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/** Both lines of a corner with their corner ends pulled back, and what closes the gap */
+export interface CornerResult {
+  first: SketchLine;
+  second: SketchLine;
+  joint: SketchArc | SketchLine;
+}
+
+function cornerLegs(corner: LineCorner) {
+  const far1 = corner.firstEnd === 'start' ? corner.first.end : corner.first.start;
+  const far2 = corner.secondEnd === 'start' ? corner.second.end : corner.second.start;
+  const len1 = distance2D(corner.corner, far1), len2 = distance2D(corner.corner, far2);
+  const u1 = { x: (far1.x - corner.corner.x) / len1, y: (far1.y - corner.corner.y) / len1 };
+  const u2 = { x: (far2.x - corner.corner.x) / len2, y: (far2.y - corner.corner.y) / len2 };
+  const angle = Math.acos(Math.max(-1, Math.min(1, u1.x * u2.x + u1.y * u2.y)));
+  return { u1, u2, len1, len2, angle };
+}
+
+function trimmedCorner(corner: LineCorner, p1: Point2D, p2: Point2D): Pick<CornerResult, 'first' | 'second'> {
+  return {
+    first: corner.firstEnd === 'start' ? { ...corner.first, start: p1 } : { ...corner.first, end: p1 },
+    second: corner.secondEnd === 'start' ? { ...corner.second, start: p2 } : { ...corner.second, end: p2 },
+  };
+}
+
+/**
+ * Round a corner with a tangent arc of `radius`. Returns null when the lines
+ * are parallel or too short for the radius.
+ */
+export function filletCorner(corner: LineCorner, radius: number): CornerResult | null {
+  const { u1, u2, len1, len2, angle } = cornerLegs(corner);
+  if (radius <= 0 || angle < 1e-3 || angle > Math.PI - 1e-3) return null;
+  const setback = radius / Math.tan(angle / 2);
+  if (setback >= len1 || setback >= len2) return null;
+
+  const c = corner.corner;
+  const t1 = { x: c.x + u1.x * setback, y: c.y + u1.y * setback };
+  const t2 = { x: c.x + u2.x * setback, y: c.y + u2.y * setback };
+  const bisLen = Math.hypot(u1.x + u2.x, u1.y + u2.y);
+  const toCenter = radius / Math.sin(angle / 2);
+  const center = { x: c.x + ((u1.x + u2.x) / bisLen) * toCenter, y: c.y + ((u1.y + u2.y) / bisLen) * toCenter };
+
+  // Arcs run CCW from start to end; take the short way round between the tangent points
+  let startAngle = Math.atan2(t1.y - center.y, t1.x - center.x);
+  let endAngle = Math.atan2(t2.y - center.y, t2.x - center.x);
+  let sweep = endAngle - startAngle;
+  if (sweep < 0) sweep += 2 * Math.PI;
+  if (sweep > Math.PI) [startAngle, endAngle] = [endAngle, startAngle];
+
+  return {
+    ...trimmedCorner(corner, t1, t2),
+    joint: { id: generateId(), type: 'arc', center, radius, startAngle, endAngle },
+  };
+}
+
+/**
+ * Cut a corner with a straight line set back `dist` along both lines. Returns
+ * null when the lines are parallel or too short.
+ */
+export function chamferCorner(corner: LineCorner, dist: number): CornerResult | null {
+  const { u1, u2, len1, len2, angle } = cornerLegs(corner);
+  if (dist <= 0 || angle < 1e-3 || angle > Math.PI - 1e-3) return null;
+  if (dist >= len1 || dist >= len2) return null;
+
+  const c = corner.corner;
+  const p1 = { x: c.x + u1.x * dist, y: c.y + u1.y * dist };
+  const p2 = { x: c.x + u2.x * dist, y: c.y + u2.y * dist };
+  return {
+    ...trimmedCorner(corner, p1, p2),
+    joint: { id: generateId(), type: 'line', start: p1, end: p2 },
+  };
+}
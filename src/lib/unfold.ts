@@ -1,5 +1,6 @@
-import { FlatPatternResult } from './metalHeroApi';
+import type { BuildModelRequest, FlatPatternResult, FormMarker, UnfoldResponse } from './metalHeroApi';
 import { Point2D } from './sheetmetal';
+import { buildPart, childToParent, KernelPlate, PlateAttachment } from './cadKernel';
 
 // ========== Re-export types for backward compatibility ==========
 
@@ -23,4 +24,143 @@ export interface FlatPattern {
   boundingBox: { minX: number; minY: number; maxX: number; maxY: number };
   overallWidth: number;
   overallHeight: number;
+  formMarkers?: FormMarker[];
+}
+
+// ========== Local Unfolder ==========
+
+/** Rigid 2D placement of a plate's local coordinates in the flat pattern. */
+interface FlatPlacement {
+  origin: Point2D;
+  xAxis: Point2D;
+  yAxis: Point2D;
+}
+
+const IDENTITY: FlatPlacement = { origin: { x: 0, y: 0 }, xAxis: { x: 1, y: 0 }, yAxis: { x: 0, y: 1 } };
+
+function place(pl: FlatPlacement, p: Point2D): Point2D {
+  return {
+    x: pl.origin.x + pl.xAxis.x * p.x + pl.yAxis.x * p.y,
+    y: pl.origin.y + pl.xAxis.y * p.x + pl.yAxis.y * p.y,
+  };
+}
+
+function placeDir(pl: FlatPlacement, d: Point2D): Point2D {
+  return { x: pl.xAxis.x * d.x + pl.yAxis.x * d.y, y: pl.xAxis.y * d.x + pl.yAxis.y * d.y };
+}
+
+function childPlacement(parent: FlatPlacement, att: PlateAttachment): FlatPlacement {
+  return {
+    origin: place(parent, childToParent(att, { x: 0, y: 0 })),
+    xAxis: placeDir(parent, att.lineDir),
+    yAxis: placeDir(parent, att.moveDir),
+  };
+}
+
+/** Point on the bend zone, `d` measured from the start of the bend into the moving side. */
+function bendZonePoint(att: PlateAttachment, u: number, d: number): Point2D {
+  return {
+    x: att.linePoint.x + att.lineDir.x * u + att.moveDir.x * d,
+    y: att.linePoint.y + att.lineDir.y * u + att.moveDir.y * d,
+  };
+}
+
+/**
+ * Unfold the part described by a build-model request into a flat pattern.
+ * Plates are laid out from the base face outwards; every bend contributes a
+ * bend-zone region of width BA and a pair of bend lines at its edges.
+ */
+export function unfoldLocal(req: BuildModelRequest): FlatPatternResult {
+  const part = buildPart(req);
+  const placements = new Map<string, FlatPlacement>();
+  const regions: FlatPatternResult['regions'] = [];
+  const bendLines: FlatPatternResult['bendLines'] = [];
+  let bendNumber = 0;
+
+  const regionFor = (plate: KernelPlate, pl: FlatPlacement) => ({
+    id: plate.kind === 'base' ? 'base' : `${plate.kind}_${plate.id}`,
+    faceId: plate.faceId,
+    polygon: plate.outline.map(p => place(pl, p)),
+    cutouts: [...plate.holes, ...prePiercesOf(plate)].map(h => ({ type: 'polygon', polygon: h.map(p => place(pl, p)) })),
+  });
+  const prePiercesOf = (plate: KernelPlate) =>
+    part.forms.filter(f => f.plateId === plate.id && f.prePierce).map(f => f.prePierce!);
+
+  // Plates are created after their parents, so a single pass places them all
+  for (const plate of part.plates) {
+    const att = plate.attachment;
+    if (!att) {
+      placements.set(plate.id, IDENTITY);
+      regions.push(regionFor(plate, IDENTITY));
+      continue;
+    }
+    const parentPl = placements.get(att.parentId);
+    if (!parentPl) continue;
+    const pl = childPlacement(parentPl, att);
+    placements.set(plate.id, pl);
+
+    const [u0, u1] = att.span;
+    const ba = att.bendAllowance;
+    regions.push({
+      id: `bend_${plate.id}`,
+      faceId: `bend_${plate.id}`,
+      polygon: [
+        bendZonePoint(att, u0, 0), bendZonePoint(att, u1, 0),
+        bendZonePoint(att, u1, ba), bendZonePoint(att, u0, ba),
+      ].map(p => place(parentPl, p)),
+      cutouts: [],
+    });
+    regions.push(regionFor(plate, pl));
+
+    const label = `B${++bendNumber}`;
+    const angle = att.direction === 'up' ? att.angle : -att.angle;
+    for (const d of [0, ba]) {
+      bendLines.push({
+        foldId: plate.id,
+        start: place(parentPl, bendZonePoint(att, u0, d)),
+        end: place(parentPl, bendZonePoint(att, u1, d)),
+        angle,
+        radius: att.radius,
+        label,
+      });
+    }
+  }
+
+  // Form tools hit the blank where their plate lands
+  const formMarkers = part.forms.flatMap(f => {
+    const pl = placements.get(f.plateId);
+    if (!pl) return [];
+    return [{ formId: f.request.id, type: f.request.type, center: place(pl, f.center), outline: f.outline.map(p => place(pl, p)) }];
+  });
+
+  const pts = regions.flatMap(r => r.polygon);
+  const boundingBox = pts.length > 0
+    ? {
+        minX: Math.min(...pts.map(p => p.x)),
+        minY: Math.min(...pts.map(p => p.y)),
+        maxX: Math.max(...pts.map(p => p.x)),
+        maxY: Math.max(...pts.map(p => p.y)),
+      }
+    : { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+
+  return {
+    regions,
+    bendLines,
+    boundingBox,
+    formMarkers,
+    overallWidth: boundingBox.maxX - boundingBox.minX,
+    overallHeight: boundingBox.maxY - boundingBox.minY,
+  };
+}
+
+/**
+ * Local equivalent of POST /api/v1/unfold.
+ */
+export function unfoldModelLocal(req: BuildModelRequest): UnfoldResponse {
+  try {
+    const { regions, bendLines, boundingBox, formMarkers } = unfoldLocal(req);
+    return { success: true, flatPattern: { regions, bendLines, boundingBox, formMarkers } };
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
 }
@@ -1,5 +1,6 @@
 import { HeroSection } from '@/components/landing/HeroSection';
 import { FeaturesSection } from '@/components/landing/FeaturesSection';
+import { Link } from 'react-router-dom';
 import { Box } from 'lucide-react';
 
 const Index = () => {
@@ -17,6 +18,7 @@ const Index = () => {
           <nav className="hidden md:flex items-center gap-6 text-sm text-muted-foreground">
             <a href="#features" className="hover:text-foreground transition-colors">Features</a>
             <a href="#workflow" className="hover:text-foreground transition-colors">Workflow</a>
+            <Link to="/projects" className="hover:text-foreground transition-colors">My Projects</Link>
           </nav>
         </div>
       </header>
@@ -0,0 +1,130 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Box, Loader2, Plus, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ProjectCard } from '@/components/projects/ProjectCard';
+import {
+  StoredProject, listProjects, renameProject, duplicateProject, deleteProject,
+} from '@/lib/projectStore';
+import { toast } from 'sonner';
+
+export default function Projects() {
+  const navigate = useNavigate();
+  const [projects, setProjects] = useState<StoredProject[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<StoredProject | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      setProjects([]);
+      toast.error('Cannot load projects', { description: err instanceof Error ? err.message : String(err) });
+    }
+  }, []);
+
+  useEffect(() => { void refresh(); }, [refresh]);
+
+  const filtered = useMemo(() => {
+    if (!projects) return [];
+    const q = query.trim().toLowerCase();
+    if (!q) return projects;
+    return projects.filter(({ project }) =>
+      project.name.toLowerCase().includes(q) ||
+      project.sketch.sheetMetalDefaults.material.toLowerCase().includes(q));
+  }, [projects, query]);
+
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast.success(success);
+    } catch (err) {
+      toast.error('Action failed', { description: err instanceof Error ? err.message : String(err) });
+    }
+    await refresh();
+  };
+
+  const handleConfirmDelete = () => {
+    if (!pendingDelete) return;
+    const { id, project } = pendingDelete;
+    setPendingDelete(null);
+    void runAction(() => deleteProject(id), `Deleted "${project.name}"`);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="h-12 border-b bg-cad-toolbar flex items-center justify-between px-3 shrink-0">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navigate('/')}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex items-center gap-2">
+            <div className="w-6 h-6 rounded bg-primary flex items-center justify-center">
+              <Box className="h-3 w-3 text-primary-foreground" />
+            </div>
+            <span className="font-semibold text-sm">Projects</span>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="h-3.5 w-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              className="h-8 w-64 pl-8 text-xs"
+              placeholder="Search by name or material"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+            />
+          </div>
+          <Button size="sm" className="h-8 text-xs gap-1.5" onClick={() => navigate('/workspace')}>
+            <Plus className="h-3 w-3" /> New Project
+          </Button>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6">
+        {projects === null ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-16">
+            {projects.length === 0 ? 'No saved projects yet. Save a project from the workspace to see it here.' : 'No projects match your search.'}
+          </p>
+        ) : (
+          <div className="grid gap-4 grid-cols-[repeat(auto-fill,minmax(240px,1fr))]">
+            {filtered.map(stored => (
+              <ProjectCard
+                key={stored.id}
+                stored={stored}
+                onOpen={() => navigate(`/workspace/${stored.id}`)}
+                onRename={name => runAction(() => renameProject(stored.id, name), 'Project renamed')}
+                onDuplicate={() => runAction(() => duplicateProject(stored.id), `Duplicated "${stored.project.name}"`)}
+                onDelete={() => setPendingDelete(stored)}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete project?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.project.name}" and its unsaved changes will be removed from this browser. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
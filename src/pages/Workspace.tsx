@@ -1,58 +1,177 @@
 import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { GitBranch, Bug } from 'lucide-react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { GitBranch, Bug, Spline, Shapes } from 'lucide-react';
 import { DebugPanel } from '@/components/workspace/DebugPanel';
-import { Box, ArrowLeft, ArrowRight, MousePointer2, Scissors, PenLine, Undo2, Redo2 } from 'lucide-react';
+import { Box, ArrowLeft, ArrowRight, MousePointer2, Scissors, PenLine, CornerDownRight, TrendingUp, Stamp, Grid3x3, Undo2, Redo2, FolderOpen, Save, Download, LayoutGrid } from 'lucide-react';
 import { ExportPanel } from '@/components/workspace/ExportPanel';
 import { Button } from '@/components/ui/button';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { WorkflowBar, WorkflowStep } from '@/components/workspace/WorkflowBar';
 import { SketchToolbar } from '@/components/workspace/SketchToolbar';
 import { SketchCanvas } from '@/components/workspace/SketchCanvas';
 import { PropertiesPanel } from '@/components/workspace/PropertiesPanel';
-import { Viewer3D } from '@/components/workspace/Viewer3D';
+import { Viewer3D, CameraApiHandle } from '@/components/workspace/Viewer3D';
 import { UnfoldViewer } from '@/components/workspace/UnfoldViewer';
 import { FaceSketchToolbar } from '@/components/workspace/FaceSketchToolbar';
 import { FoldDialog } from '@/components/workspace/FoldDialog';
+import { JogDialog, JogParams } from '@/components/workspace/JogDialog';
+import { ContourFlangeDialog, ContourFlangeParams } from '@/components/workspace/ContourFlangeDialog';
+import { LoftedBendDialog, LoftedBendParams } from '@/components/workspace/LoftedBendDialog';
+import { LoftViewer } from '@/components/workspace/LoftViewer';
 import { ActionTree } from '@/components/workspace/ActionTree';
 import { useSketchStore } from '@/hooks/useSketchStore';
 import { useActionHistory } from '@/hooks/useActionHistory';
+import {
+  insertFeature, removeFeature, resolveFeatures, setRollback, updateCorner, updateFlange, updateFold, updateHem, updateJog,
+  updateArcFlange, updateForm, updatePattern, upsertSketch, patternFeature, foldFeature, jogFeature, flangeFeature, arcFlangeFeature, cornerFeature,
+  hemFeature, formFeature, featureLabel, EMPTY_FEATURE_TREE,
+} from '@/lib/featureTree';
+import { useAutosave } from '@/hooks/useAutosave';
 import {
   extractProfile, extractProfileAndCutouts, Flange, Fold, FaceSketch,
   FaceSketchLine, FaceSketchEntity, FaceSketchTool, classifySketchLineAsFold,
   getOppositeEdgeId, getUserFacingDirection, isEdgeOnFoldLine, isBaseFaceFold,
-  ProfileCutout, circleToPolygon, rectToPolygon,
+  BendReliefType, CornerTreatmentType, FlangeExtent, mirrorFlangeExtent, CORNER_TREATMENT_LABELS,
+  Hem, HEM_TYPE_LABELS, Jog, JOG_DIMENSION_LABELS, jogFolds, getFoldNormal, circleToPolygon, rectToPolygon,
+  extractContourProfile, contourFlange, ArcFlange, arcFlangeSegments, findArcRun,
+  FormFeature, FORM_FEATURE_LABELS, formLocatorPlacement,
+  FaceSketchCircle, FaceSketchRect, SketchPattern, PatternLayout, PatternBounds, expandPattern, patternLabel,
 } from '@/lib/geometry';
+import { bendTableKFactor } from '@/lib/bendTables';
+import { extractLoftProfiles, unfoldLoft } from '@/lib/loft';
 import { getFaceTransform, getFaceDimensionsFromRegistry, apiEdgeToPartEdge, getEdges } from '@/lib/faceRegistry';
 import { Point2D, generateId } from '@/lib/sheetmetal';
+import {
+  ProjectFile, createProjectFile, downloadProject, parseProjectFile, projectFileName, PROJECT_EXTENSION,
+} from '@/lib/projectFile';
+import { getProject, putProject, NEW_PROJECT_SLOT } from '@/lib/projectStore';
+import type { BuildModelResult } from '@/lib/metalHeroApi';
+import type { HemParams } from '@/components/workspace/HemPanel';
+import type { ArcFlangeParams } from '@/components/workspace/ArcFlangePanel';
+import type { FormParams } from '@/components/workspace/FormToolPanel';
+import type { PatternSeed } from '@/components/workspace/PatternPanel';
 import { toast } from 'sonner';
 
+/** Sketchable size of a face: the base profile bounds, or the registry's last build */
+function faceDimensions(faceId: string, profile: Point2D[]): { width: number; height: number } | null {
+  if (faceId === 'base_top' || faceId === 'base_bot') {
+    const xs = profile.map(p => p.x);
+    const ys = profile.map(p => p.y);
+    return { width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+  }
+  return getFaceDimensionsFromRegistry(faceId);
+}
+
+/**
+ * Where pattern copies on a face may go: inside its outline and clear of its
+ * bends. A base face bends along its fold lines and its flanged or hemmed
+ * profile edges; any other face along its own fold lines and along y = 0,
+ * where it hangs from its parent.
+ */
+function patternBounds(
+  faceId: string, profile: Point2D[], folds: Fold[], flanges: Flange[], hems: Hem[], thickness: number,
+): PatternBounds | null {
+  const dims = faceDimensions(faceId, profile);
+  if (!dims) return null;
+  const foldBends = (list: Fold[]) => list.map(f => ({ start: f.lineStart, end: f.lineEnd, clearance: f.bendRadius + thickness }));
+
+  if (faceId === 'base_top' || faceId === 'base_bot') {
+    const minX = Math.min(...profile.map(p => p.x));
+    const minY = Math.min(...profile.map(p => p.y));
+    const outline = profile.map(p => ({ x: p.x - minX, y: p.y - minY }));
+    const edgeBend = (edgeId: string, radius: number) => {
+      const match = edgeId.match(/^edge_(top|bot)_(\d+)$/);
+      if (!match) return [];
+      const i = parseInt(match[2], 10);
+      return [{ start: outline[i], end: outline[(i + 1) % outline.length], clearance: radius + thickness }];
+    };
+    return {
+      outline,
+      bends: [
+        ...foldBends(folds.filter(isBaseFaceFold)),
+        ...flanges.flatMap(f => edgeBend(f.edgeId, f.bendRadius)),
+        ...hems.flatMap(h => edgeBend(h.edgeId, h.radius)),
+      ],
+    };
+  }
+
+  const parent = folds.find(f => faceId === `fold_face_${f.id}`) ?? flanges.find(f => faceId.startsWith(`flange_face_${f.id}_`));
+  return {
+    outline: rectToPolygon({ x: 0, y: 0 }, dims.width, dims.height),
+    bends: [
+      ...foldBends(folds.filter(f => f.faceId === faceId)),
+      { start: { x: 0, y: 0 }, end: { x: dims.width, y: 0 }, clearance: (parent?.bendRadius ?? 0) + thickness },
+    ],
+  };
+}
+
 export default function Workspace() {
   const navigate = useNavigate();
+  const { projectId } = useParams<{ projectId?: string }>();
   const [currentStep, setCurrentStep] = useState<WorkflowStep>('sketch');
   const sketch = useSketchStore();
 
   // 3D state
-  const [profile, setProfile] = useState<Point2D[] | null>(null);
-  const [cutouts, setCutouts] = useState<ProfileCutout[]>([]);
   const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  // Start/end offsets or width for the next flange added
+  const [flangeExtent, setFlangeExtent] = useState<FlangeExtent>({});
 
-  // Action history
+  // Action history — each entry is the base face and its feature tree; the part is rebuilt from its active features
   const history = useActionHistory();
-  const { flanges, folds, faceSketches } = history.currentState;
+  const { part, loft, tree: featureTree } = history.currentState;
+  const profile = part?.profile ?? null;
+  const cutouts = useMemo(() => part?.cutouts ?? [], [part]);
+  // A lofted bend replaces the base face and its features while it is set
+  const loftPattern = useMemo(() => loft && unfoldLoft(loft), [loft]);
+  const { flanges, arcFlanges, folds, jogs, faceSketches, patterns, corners, hems, forms } = useMemo(() => resolveFeatures(featureTree), [featureTree]);
+  // What the kernel builds: plain folds plus the fold pair of every jog
+  const kernelFolds = useMemo(
+    () => [...folds, ...jogs.flatMap(j => jogFolds(j, sketch.sheetMetalDefaults.thickness))],
+    [folds, jogs, sketch.sheetMetalDefaults.thickness],
+  );
+  // ...and plain flanges plus the segment flanges of every arc flange
+  const kernelFlanges = useMemo(
+    () => [...flanges, ...(profile ? arcFlanges.flatMap(a => arcFlangeSegments(a, profile, sketch.sheetMetalDefaults.thickness)) : [])],
+    [flanges, arcFlanges, profile, sketch.sheetMetalDefaults.thickness],
+  );
+  // Fold/flange ids present in the last built model; null until a build has finished
+  const [builtFeatureIds, setBuiltFeatureIds] = useState<Set<string> | null>(null);
+  const [selectedFoldId, setSelectedFoldId] = useState<string | null>(null);
+  const [selectedJogId, setSelectedJogId] = useState<string | null>(null);
 
   // Sub-mode & face sketch state
-  const [subMode, setSubMode] = useState<'edge' | 'sketch' | 'fold'>('edge');
+  const [subMode, setSubMode] = useState<'edge' | 'sketch' | 'fold' | 'jog' | 'corner' | 'form' | 'pattern'>('edge');
   const [activeFaceSketch, setActiveFaceSketch] = useState<string | null>(null);
   const [selectedSketchLineId, setSelectedSketchLineId] = useState<string | null>(null);
   const [foldDialogOpen, setFoldDialogOpen] = useState(false);
+  const [jogDialogOpen, setJogDialogOpen] = useState(false);
 
   const [sketchTool, setSketchTool] = useState<FaceSketchTool>('line');
+  const [sketchPolygonSides, setSketchPolygonSides] = useState(6);
+  const [sketchCornerSize, setSketchCornerSize] = useState(5);
   const [sketchEntities, setSketchEntities] = useState<FaceSketchEntity[]>([]);
   const [sketchSelectedIds, setSketchSelectedIds] = useState<string[]>([]);
-  const cameraApiRef = useRef<{ reset: () => void; setFrontalView: () => void; setViewToFace: (normal: [number,number,number], center: [number,number,number]) => void } | null>(null);
+  const cameraApiRef = useRef<CameraApiHandle | null>(null);
   const [debugOpen, setDebugOpen] = useState(false);
 
+  // Project file
+  const [projectName, setProjectName] = useState('Untitled Project');
+  const projectCreatedAt = useRef<string | undefined>();
+  const projectThumbnail = useRef<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Id of the library project currently in the workspace; null while loading or unsaved
+  const loadedProjectId = useRef<string | null>(null);
+  const [projectReady, setProjectReady] = useState(!projectId);
+
   const canConvert = useMemo(() => extractProfile(sketch.entities) !== null, [sketch.entities]);
+  // An open chain of lines and arcs can be swept into a contour flange instead
+  const contour = useMemo(() => extractContourProfile(sketch.entities), [sketch.entities]);
+  const [contourDialogOpen, setContourDialogOpen] = useState(false);
+  const canLoft = useMemo(() => extractLoftProfiles(sketch.entities, 16) !== null, [sketch.entities]);
+  const [loftDialogOpen, setLoftDialogOpen] = useState(false);
 
   const handleConvertToBaseFace = useCallback(() => {
     const result = extractProfileAndCutouts(sketch.entities);
@@ -62,27 +181,82 @@ export default function Workspace() {
     }
     const { profile: p, cutouts: extractedCutouts } = result;
 
-    setProfile(p);
-    setCutouts(extractedCutouts);
-    history.pushAction('Base Face Created', 'base-face', { flanges: [], folds: [], faceSketches: [] });
+    // Re-converting an edited sketch keeps the feature tree; its features are replayed on the new base face
+    const replaying = profile !== null && featureTree.features.length > 0;
+    history.pushAction(replaying ? 'Base Face Updated' : 'Base Face Created', 'base-face', {
+      part: { profile: p, cutouts: extractedCutouts },
+      loft: null,
+    });
     setSelectedEdgeId(null);
+    setSelectedFoldId(null);
     setSelectedSketchLineId(null);
     setActiveFaceSketch(null);
     setSketchEntities([]);
     setSketchSelectedIds([]);
     setCurrentStep('fold-flanges');
-    toast.success('Base face created', {
-      description: `Profile with ${p.length} vertices${extractedCutouts.length > 0 ? `, ${extractedCutouts.length} cutout(s)` : ''}, thickness: ${sketch.sheetMetalDefaults.thickness}mm`,
+    toast.success(replaying ? 'Base face updated' : 'Base face created', {
+      description: replaying
+        ? `Replaying ${featureTree.features.length} feature(s) on the new profile`
+        : `Profile with ${p.length} vertices${extractedCutouts.length > 0 ? `, ${extractedCutouts.length} cutout(s)` : ''}, thickness: ${sketch.sheetMetalDefaults.thickness}mm`,
     });
-  }, [sketch.entities, sketch.sheetMetalDefaults.thickness, history]);
+  }, [sketch.entities, sketch.sheetMetalDefaults.thickness, profile, featureTree, history]);
+
+  const handleCreateContourFlange = useCallback((params: ContourFlangeParams) => {
+    if (!contour) return;
+    const { thickness, kFactor, bendTable } = sketch.sheetMetalDefaults;
+    const result = contourFlange(contour, {
+      length: params.length, thickness, bendRadius: params.bendRadius, kFactor,
+      table: bendTableKFactor(bendTable), flip: params.flip,
+    });
+    if (!result) {
+      toast.error('Cannot create contour flange', { description: 'A segment is too short for the bends at its ends.' });
+      return;
+    }
+
+    // The contour defines the whole part, so it starts a new feature tree with its folds
+    const replaced = featureTree.features.length;
+    const tree = result.folds.reduce((t, fold) => insertFeature(t, foldFeature(fold)), EMPTY_FEATURE_TREE);
+    history.pushAction('Contour Flange Created', 'contour-flange', { part: { profile: result.profile, cutouts: [] }, loft: null, tree });
+    setContourDialogOpen(false);
+    setSelectedEdgeId(null);
+    setSelectedFoldId(null);
+    setSelectedSketchLineId(null);
+    setActiveFaceSketch(null);
+    setSketchEntities([]);
+    setSketchSelectedIds([]);
+    setCurrentStep('fold-flanges');
+    toast.success('Contour flange created', {
+      description: `${result.folds.length} bend(s), ${params.length}mm long`
+        + (replaced > 0 ? `; replaced ${replaced} earlier feature(s)` : ''),
+    });
+  }, [contour, sketch.sheetMetalDefaults, featureTree, history]);
+
+  const handleCreateLoft = useCallback((params: LoftedBendParams) => {
+    const profiles = extractLoftProfiles(sketch.entities, params.segments);
+    if (!profiles) {
+      toast.error('Cannot create lofted bend', { description: 'Draw two closed shapes first.' });
+      return;
+    }
+    const [bottom, top] = params.swap ? [profiles[1], profiles[0]] : profiles;
+    // The feature tree is kept; converting to a base face again brings it back
+    history.pushAction('Lofted Bend Created', 'loft', { part: null, loft: { bottom, top, height: params.height } });
+    setLoftDialogOpen(false);
+    setSelectedEdgeId(null);
+    setSelectedFoldId(null);
+    setActiveFaceSketch(null);
+    setCurrentStep('fold-flanges');
+    toast.success('Lofted bend created', {
+      description: `${bottom.length}-sided to ${top.length}-sided, ${params.height}mm high`,
+    });
+  }, [sketch.entities, history]);
 
   const handleStepClick = useCallback((step: WorkflowStep) => {
-    if ((step === 'fold-flanges' || step === 'unfold') && !profile) {
+    if ((step === 'fold-flanges' || step === 'unfold') && !profile && !loft) {
       toast.error('Convert your sketch to a base face first');
       return;
     }
     setCurrentStep(step);
-  }, [profile]);
+  }, [profile, loft]);
 
   const profileBounds = useMemo(() => {
     if (!profile) return null;
@@ -95,6 +269,62 @@ export default function Workspace() {
     };
   }, [profile]);
 
+  // ── Patterns — seeds are face-sketch circles and rects, and the circles and rects cut out of the base sketch ──
+  const patternSeeds = useMemo((): PatternSeed[] => {
+    if (!profile || !profileBounds) return [];
+    const faceCenter = (faceId: string): Point2D => {
+      const dims = faceDimensions(faceId, profile);
+      return dims ? { x: dims.width / 2, y: dims.height / 2 } : { x: 0, y: 0 };
+    };
+    const sketched = faceSketches.flatMap(fs => fs.entities
+      .filter((e): e is FaceSketchCircle | FaceSketchRect => e.type === 'circle' || e.type === 'rect')
+      .map((entity): PatternSeed => ({ faceId: fs.faceId, entity, cutout: false, faceCenter: faceCenter(fs.faceId) })));
+
+    // Base-sketch cutouts are patterned on base_top, whose sketch coordinates start at the profile's corner
+    const { origin } = profileBounds;
+    const sameBox = (a: Point2D[], b: Point2D[]) => {
+      const box = (poly: Point2D[]) => [
+        Math.min(...poly.map(p => p.x)), Math.min(...poly.map(p => p.y)), Math.max(...poly.map(p => p.x)), Math.max(...poly.map(p => p.y)),
+      ];
+      const ba = box(a), bb = box(b);
+      return ba.every((v, i) => Math.abs(v - bb[i]) < 0.5);
+    };
+    const cut = sketch.entities.flatMap((e): PatternSeed[] => {
+      if (e.type === 'circle' && cutouts.some(c => sameBox(c.polygon, circleToPolygon(e.center, e.radius)))) {
+        const entity: FaceSketchCircle = { id: e.id, type: 'circle', center: { x: e.center.x - origin.x, y: e.center.y - origin.y }, radius: e.radius };
+        return [{ faceId: 'base_top', entity, cutout: true, faceCenter: faceCenter('base_top') }];
+      }
+      if (e.type === 'rect' && cutouts.some(c => sameBox(c.polygon, rectToPolygon(e.origin, e.width, e.height)))) {
+        const entity: FaceSketchRect = { id: e.id, type: 'rect', origin: { x: e.origin.x - origin.x, y: e.origin.y - origin.y }, width: e.width, height: e.height };
+        return [{ faceId: 'base_top', entity, cutout: true, faceCenter: faceCenter('base_top') }];
+      }
+      return [];
+    });
+    return [...sketched, ...cut];
+  }, [profile, profileBounds, faceSketches, sketch.entities, cutouts]);
+
+  // The face sketches the kernel cuts: each pattern's copies join the sketch of its face
+  const modelBuilt = builtFeatureIds !== null;
+  const { kernelFaceSketches, suppressedCopies } = useMemo(() => {
+    const suppressed: Record<string, number> = {};
+    if (!profile || patterns.length === 0) return { kernelFaceSketches: faceSketches, suppressedCopies: suppressed };
+    const sketches = new Map(faceSketches.map(fs => [fs.faceId, fs.entities]));
+    for (const pattern of patterns) {
+      const seed = patternSeeds.find(s => s.entity.id === pattern.sourceId && s.faceId === pattern.faceId);
+      // Faces off the base are sized by the last build, so copies on them wait for one
+      const sized = modelBuilt || pattern.faceId === 'base_top' || pattern.faceId === 'base_bot';
+      const bounds = seed && sized && patternBounds(pattern.faceId, profile, kernelFolds, kernelFlanges, hems, sketch.sheetMetalDefaults.thickness);
+      if (!seed || !bounds) continue;
+      const { instances, suppressed: count } = expandPattern(pattern, seed.entity, bounds);
+      suppressed[pattern.id] = count;
+      sketches.set(pattern.faceId, [...(sketches.get(pattern.faceId) ?? []), ...instances]);
+    }
+    return {
+      kernelFaceSketches: [...sketches].map(([faceId, entities]): FaceSketch => ({ faceId, entities })),
+      suppressedCopies: suppressed,
+    };
+  }, [profile, patterns, patternSeeds, faceSketches, kernelFolds, kernelFlanges, hems, sketch.sheetMetalDefaults.thickness, modelBuilt]);
+
   // ── Face click handler — uses face registry for camera positioning ──
   const handleFaceClick = useCallback((faceId: string) => {
     console.log('[Workspace] handleFaceClick:', faceId, 'subMode:', subMode, 'step:', currentStep, 'activeFaceSketch:', activeFaceSketch);
@@ -148,16 +378,15 @@ export default function Workspace() {
 
   const handleFinishSketch = useCallback(() => {
     if (!activeFaceSketch) return;
-    const updated = [
-      ...faceSketches.filter(fs => fs.faceId !== activeFaceSketch),
-      { faceId: activeFaceSketch, entities: sketchEntities },
-    ];
-    history.pushAction(`Sketch on ${activeFaceSketch}`, 'sketch', { flanges, folds, faceSketches: updated });
+    history.pushAction(
+      `Sketch on ${activeFaceSketch}`, 'sketch',
+      { tree: upsertSketch(featureTree, { faceId: activeFaceSketch, entities: sketchEntities }) },
+    );
     setActiveFaceSketch(null);
     setSketchEntities([]);
     setSketchSelectedIds([]);
     toast.success('Sketch saved', { description: `${sketchEntities.length} entity(s) on ${activeFaceSketch}` });
-  }, [activeFaceSketch, sketchEntities, flanges, folds, faceSketches, history]);
+  }, [activeFaceSketch, sketchEntities, featureTree, history]);
 
   const handleExitSketch = useCallback(() => {
     setActiveFaceSketch(null);
@@ -186,11 +415,11 @@ export default function Workspace() {
     return null;
   }, [activeFaceSketch, profile, profileBounds]);
 
-  // ── Sketch line click handler (fold sub-mode) ──
+  // ── Sketch line click handler (fold and jog sub-modes) ──
   const handleSketchLineClick = useCallback((lineId: string) => {
-    if (subMode !== 'fold') return;
+    if (subMode !== 'fold' && subMode !== 'jog') return;
     if (!profile) return;
-    if (folds.some(f => f.sketchLineId === lineId)) {
+    if (kernelFolds.some(f => f.sketchLineId === lineId)) {
       toast.error('This line already has a fold applied');
       return;
     }
@@ -199,14 +428,7 @@ export default function Workspace() {
     const faceId = parentFace?.faceId ?? 'base_top';
 
     // Get face dimensions from registry or base profile
-    let faceDims: { width: number; height: number } | null = null;
-    if (faceId === 'base_top' || faceId === 'base_bot') {
-      const xs = profile.map(p => p.x);
-      const ys = profile.map(p => p.y);
-      faceDims = { width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
-    } else {
-      faceDims = getFaceDimensionsFromRegistry(faceId);
-    }
+    const faceDims = faceDimensions(faceId, profile);
     if (!faceDims) {
       toast.error('Cannot determine face dimensions');
       return;
@@ -222,27 +444,22 @@ export default function Workspace() {
     }
 
     setSelectedSketchLineId(lineId);
-    setFoldDialogOpen(true);
-  }, [subMode, folds, profile, faceSketches]);
+    if (subMode === 'jog') setJogDialogOpen(true);
+    else setFoldDialogOpen(true);
+  }, [subMode, kernelFolds, profile, faceSketches]);
 
   // ── Apply fold from dialog ──
   const handleApplyFold = useCallback((params: {
     angle: number; direction: 'up' | 'down'; bendRadius: number;
     foldLocation: 'centerline' | 'material-inside' | 'material-outside';
+    kFactor?: number; reliefType?: BendReliefType;
   }) => {
     if (!selectedSketchLineId || !profile) return;
 
     const parentFace = faceSketches.find(fs => fs.entities.some(e => e.id === selectedSketchLineId));
     const faceId = parentFace?.faceId ?? 'base_top';
 
-    let faceDims: { width: number; height: number } | null = null;
-    if (faceId === 'base_top' || faceId === 'base_bot') {
-      const xs = profile.map(p => p.x);
-      const ys = profile.map(p => p.y);
-      faceDims = { width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
-    } else {
-      faceDims = getFaceDimensionsFromRegistry(faceId);
-    }
+    const faceDims = faceDimensions(faceId, profile);
     if (!faceDims) return;
 
     const sketchLine = faceSketches
@@ -268,22 +485,76 @@ export default function Workspace() {
       sketchLineId: selectedSketchLineId,
       faceId: faceId,
       foldLocation: params.foldLocation,
+      kFactor: params.kFactor,
+      reliefType: params.reliefType,
     };
 
-    history.pushAction(
-      `Fold ${params.angle}° ${params.direction}`,
-      'fold',
-      { flanges, folds: [...folds, fold], faceSketches },
-    );
+    history.pushAction(`Fold ${params.angle}° ${params.direction}`, 'fold', { tree: insertFeature(featureTree, foldFeature(fold)) });
     setFoldDialogOpen(false);
     setSelectedSketchLineId(null);
     toast.success('Fold applied', { description: `${params.angle}° ${params.direction} on ${faceId}` });
-  }, [selectedSketchLineId, profile, faceSketches, flanges, folds, history]);
+  }, [selectedSketchLineId, profile, faceSketches, featureTree, history]);
+
+  const handleUpdateFold = useCallback((id: string, updates: Partial<Fold>) => {
+    history.pushAction('Fold updated', 'update-fold', { tree: updateFold(featureTree, id, updates) });
+  }, [featureTree, history]);
 
   const handleRemoveFold = useCallback((id: string) => {
-    history.pushAction('Fold removed', 'remove-fold', { flanges, folds: folds.filter(f => f.id !== id), faceSketches });
+    history.pushAction('Fold removed', 'remove-fold', { tree: removeFeature(featureTree, id) });
+    if (selectedFoldId === id) setSelectedFoldId(null);
     toast.success('Fold removed');
-  }, [flanges, folds, faceSketches, history]);
+  }, [featureTree, selectedFoldId, history]);
+
+  // ── Jogs — one sketch line, built as two opposing folds ──
+  const handleApplyJog = useCallback((params: JogParams) => {
+    if (!selectedSketchLineId || !profile) return;
+    const close = () => { setJogDialogOpen(false); setSelectedSketchLineId(null); };
+
+    const parentFace = faceSketches.find(fs => fs.entities.some(e => e.id === selectedSketchLineId));
+    const faceId = parentFace?.faceId ?? 'base_top';
+    const faceDims = faceDimensions(faceId, profile);
+    const sketchLine = parentFace?.entities.find(e => e.id === selectedSketchLineId && e.type === 'line') as FaceSketchLine | undefined;
+    const classification = faceDims && sketchLine
+      ? classifySketchLineAsFold(sketchLine, faceDims.width, faceDims.height)
+      : null;
+    if (!faceDims || !classification) {
+      toast.error('Invalid jog line');
+      close();
+      return;
+    }
+
+    // By default the side holding the face centre stays, as with a fold
+    const { lineStart, lineEnd } = classification;
+    const moving = getFoldNormal({ id: '', lineStart, lineEnd, angle: 0, direction: 'up', bendRadius: 0 }, faceDims.width, faceDims.height);
+    const rightMoves = (lineEnd.y - lineStart.y) * moving.x - (lineEnd.x - lineStart.x) * moving.y > 0;
+    const centreSide = rightMoves ? 'left' : 'right';
+    const jog: Jog = {
+      id: generateId(),
+      sketchLineId: selectedSketchLineId,
+      faceId,
+      lineStart,
+      lineEnd,
+      offset: params.offset,
+      dimension: params.dimension,
+      fixedSide: params.fixedSide === 'centre' ? centreSide : centreSide === 'left' ? 'right' : 'left',
+      angle: params.angle,
+      direction: params.direction,
+      bendRadius: params.bendRadius,
+    };
+    history.pushAction(`Jog ${jog.offset}mm ${jog.direction}`, 'jog', { tree: insertFeature(featureTree, jogFeature(jog)) });
+    close();
+    toast.success('Jog applied', { description: `${jog.offset}mm ${JOG_DIMENSION_LABELS[jog.dimension].toLowerCase()} on ${faceId}` });
+  }, [selectedSketchLineId, profile, faceSketches, featureTree, history]);
+
+  const handleUpdateJog = useCallback((id: string, updates: Partial<Jog>) => {
+    history.pushAction('Jog updated', 'update-jog', { tree: updateJog(featureTree, id, updates) });
+  }, [featureTree, history]);
+
+  const handleRemoveJog = useCallback((id: string) => {
+    history.pushAction('Jog removed', 'remove-jog', { tree: removeFeature(featureTree, id) });
+    if (selectedJogId === id) setSelectedJogId(null);
+    toast.success('Jog removed');
+  }, [featureTree, selectedJogId, history]);
 
   // ── Flange operations — edges come from face registry ──
   const handleAddFlange = useCallback((height: number, angle: number, direction: 'up' | 'down') => {
@@ -311,7 +582,11 @@ export default function Workspace() {
     }
 
     if (flanges.some(f => f.edgeId === targetEdgeId)) { toast.error('Edge already has a flange'); return; }
+    if (arcFlanges.some(a => a.edgeIds.includes(targetEdgeId))) { toast.error('Edge already has an arc flange'); return; }
+    if (hems.some(h => h.edgeId === targetEdgeId)) { toast.error('Edge already has a hem'); return; }
 
+    // The opposite face runs the edge the other way round
+    const extent = targetEdgeId === selectedEdgeId ? flangeExtent : mirrorFlangeExtent(flangeExtent);
     const flange: Flange = {
       id: generateId(),
       edgeId: targetEdgeId,
@@ -319,14 +594,12 @@ export default function Workspace() {
       angle,
       direction: 'up',
       bendRadius: sketch.sheetMetalDefaults.bendRadius,
+      ...extent,
     };
-    history.pushAction(
-      `Flange ${height}mm`, 'flange',
-      { flanges: [...flanges, flange], folds, faceSketches },
-    );
+    history.pushAction(`Flange ${height}mm`, 'flange', { tree: insertFeature(featureTree, flangeFeature(flange)) });
     const displayDir = getUserFacingDirection(targetEdgeId);
     toast.success('Flange added', { description: `${height}mm × ${angle}° ${displayDir} on ${targetEdgeId}` });
-  }, [selectedEdgeId, profile, flanges, folds, faceSketches, sketch.sheetMetalDefaults.bendRadius, history]);
+  }, [selectedEdgeId, profile, flanges, arcFlanges, hems, folds, featureTree, flangeExtent, sketch.sheetMetalDefaults.bendRadius, history]);
 
   const handleUpdateFlange = useCallback((id: string, updates: Partial<Flange>) => {
     if (updates.direction && profile) {
@@ -339,27 +612,361 @@ export default function Workspace() {
         const edges = getEdges().map(apiEdgeToPartEdge);
         if (!edges.some(e => e.id === oppositeId)) { toast.error('Opposite edge not available'); return; }
         if (flanges.some(f => f.id !== id && f.edgeId === oppositeId)) { toast.error('Opposite edge already has a flange'); return; }
-        history.pushAction('Flange moved', 'update-flange', {
-          flanges: flanges.map(f => f.id === id ? { ...f, ...updates, edgeId: oppositeId, direction: 'up' } : f),
-          folds, faceSketches,
-        });
+        history.pushAction('Flange moved', 'update-flange',
+          { tree: updateFlange(featureTree, id, { ...updates, ...mirrorFlangeExtent(flange), edgeId: oppositeId, direction: 'up' }) });
         toast.info(`Flange moved to ${oppositeId}`);
         return;
       }
       return;
     }
-    history.pushAction('Flange updated', 'update-flange', {
-      flanges: flanges.map(f => f.id === id ? { ...f, ...updates } : f),
-      folds, faceSketches,
-    });
-  }, [flanges, folds, faceSketches, profile, history]);
+    history.pushAction('Flange updated', 'update-flange', { tree: updateFlange(featureTree, id, updates) });
+  }, [flanges, featureTree, profile, history]);
 
   const handleRemoveFlange = useCallback((id: string) => {
-    history.pushAction('Flange removed', 'remove-flange', {
-      flanges: flanges.filter(f => f.id !== id), folds, faceSketches,
-    });
+    history.pushAction('Flange removed', 'remove-flange', { tree: removeFeature(featureTree, id) });
     toast.success('Flange removed');
-  }, [flanges, folds, faceSketches, history]);
+  }, [featureTree, history]);
+
+  // ── Arc flanges — every facet of the curved base edge the selected edge is on ──
+  const selectedArcRun = useMemo(() => {
+    const match = selectedEdgeId?.match(/^edge_(top|bot)_(\d+)$/);
+    return match && profile ? findArcRun(profile, parseInt(match[2], 10)) : null;
+  }, [selectedEdgeId, profile]);
+
+  const handleAddArcFlange = useCallback((params: ArcFlangeParams) => {
+    if (!selectedEdgeId || !selectedArcRun) return;
+    const face = selectedEdgeId.startsWith('edge_bot_') ? 'bot' : 'top';
+    // As with a flange, "down" puts the arc flange on the opposite face
+    const targetFace = params.direction === 'down' ? (face === 'top' ? 'bot' : 'top') : face;
+    const edgeIds = selectedArcRun.map(i => `edge_${targetFace}_${i}`);
+    const taken = (id: string) =>
+      flanges.some(f => f.edgeId === id) || hems.some(h => h.edgeId === id) || arcFlanges.some(a => a.edgeIds.includes(id));
+    if (edgeIds.some(taken)) { toast.error('Part of the arc already has a flange or hem'); return; }
+
+    const arc: ArcFlange = {
+      id: generateId(),
+      edgeIds,
+      height: params.height,
+      angle: params.angle,
+      direction: params.direction,
+      bendRadius: sketch.sheetMetalDefaults.bendRadius,
+      gap: params.gap,
+    };
+    history.pushAction(`Arc Flange ${arc.height}mm`, 'arc-flange', { tree: insertFeature(featureTree, arcFlangeFeature(arc)) });
+    toast.success('Arc flange added', { description: `${arc.height}mm × ${arc.angle}° ${arc.direction} on ${edgeIds.length} segments` });
+  }, [selectedEdgeId, selectedArcRun, flanges, hems, arcFlanges, featureTree, sketch.sheetMetalDefaults.bendRadius, history]);
+
+  const handleUpdateArcFlange = useCallback((id: string, updates: Partial<ArcFlange>) => {
+    const arc = arcFlanges.find(a => a.id === id);
+    if (!arc) return;
+    if (updates.direction && updates.direction !== arc.direction) {
+      const edgeIds = arc.edgeIds.map(e => getOppositeEdgeId(e) ?? e);
+      if (edgeIds.some(e => flanges.some(f => f.edgeId === e) || hems.some(h => h.edgeId === e))) {
+        toast.error('Opposite edges already have a flange or hem');
+        return;
+      }
+      history.pushAction('Arc flange moved', 'update-arc-flange', { tree: updateArcFlange(featureTree, id, { ...updates, edgeIds }) });
+      return;
+    }
+    history.pushAction('Arc flange updated', 'update-arc-flange', { tree: updateArcFlange(featureTree, id, updates) });
+  }, [arcFlanges, flanges, hems, featureTree, history]);
+
+  const handleRemoveArcFlange = useCallback((id: string) => {
+    history.pushAction('Arc flange removed', 'remove-arc-flange', { tree: removeFeature(featureTree, id) });
+    toast.success('Arc flange removed');
+  }, [featureTree, history]);
+
+  // Applying to a flange pair that already has a treatment edits it
+  const handleApplyCorner = useCallback((flangeIds: [string, string], type: CornerTreatmentType, gap: number) => {
+    if (flangeIds[0] === flangeIds[1]) { toast.error('Pick two different flanges'); return; }
+    const existing = corners.find(c => flangeIds.every(id => c.flangeIds.includes(id)));
+    const label = `Corner ${CORNER_TREATMENT_LABELS[type]}`;
+    if (existing) {
+      history.pushAction(label, 'update-corner', { tree: updateCorner(featureTree, existing.id, { flangeIds, type, gap }) });
+    } else {
+      history.pushAction(label, 'corner', { tree: insertFeature(featureTree, cornerFeature({ id: generateId(), flangeIds, type, gap })) });
+    }
+    toast.success(existing ? 'Corner updated' : 'Corner treatment added', { description: `${label}, gap ${gap}mm` });
+  }, [corners, featureTree, history]);
+
+  const handleRemoveCorner = useCallback((id: string) => {
+    history.pushAction('Corner removed', 'remove-corner', { tree: removeFeature(featureTree, id) });
+    toast.success('Corner treatment removed');
+  }, [featureTree, history]);
+
+  // ── Hem operations — on any free edge without a flange ──
+  const handleAddHem = useCallback((params: HemParams) => {
+    if (!selectedEdgeId) return;
+    if (flanges.some(f => f.edgeId === selectedEdgeId)) { toast.error('Edge already has a flange'); return; }
+    if (hems.some(h => h.edgeId === selectedEdgeId)) { toast.error('Edge already has a hem'); return; }
+    if (arcFlanges.some(a => a.edgeIds.includes(selectedEdgeId))) { toast.error('Edge already has an arc flange'); return; }
+    const hem: Hem = { id: generateId(), edgeId: selectedEdgeId, ...params };
+    const label = `Hem ${HEM_TYPE_LABELS[hem.type]} ${hem.length}mm`;
+    history.pushAction(label, 'hem', { tree: insertFeature(featureTree, hemFeature(hem)) });
+    toast.success('Hem added', { description: `${label} on ${selectedEdgeId}` });
+  }, [selectedEdgeId, flanges, arcFlanges, hems, featureTree, history]);
+
+  const handleUpdateHem = useCallback((id: string, updates: Partial<Hem>) => {
+    history.pushAction('Hem updated', 'update-hem', { tree: updateHem(featureTree, id, updates) });
+  }, [featureTree, history]);
+
+  const handleRemoveHem = useCallback((id: string) => {
+    history.pushAction('Hem removed', 'remove-hem', { tree: removeFeature(featureTree, id) });
+    toast.success('Hem removed');
+  }, [featureTree, history]);
+
+  // ── Form tools — stamped on a face-sketch point or rect ──
+  // Applying to a locator that already has a form edits it
+  const handleApplyForm = useCallback((locatorId: string, params: FormParams) => {
+    const sketchOf = faceSketches.find(fs => fs.entities.some(e => e.id === locatorId));
+    const locator = sketchOf?.entities.find(e => e.id === locatorId);
+    if (!sketchOf || !locator || (locator.type !== 'point' && locator.type !== 'rect')) {
+      toast.error('Locator not found', { description: 'Pick a sketched point or rectangle.' });
+      return;
+    }
+    const form: FormFeature = { id: generateId(), faceId: sketchOf.faceId, locatorId, ...params, ...formLocatorPlacement(locator) };
+    if (locator.type === 'rect') form.rotation = 0;
+    const label = FORM_FEATURE_LABELS[form.type];
+    const existing = forms.find(f => f.locatorId === locatorId);
+    if (existing) {
+      history.pushAction(label, 'update-form', { tree: updateForm(featureTree, existing.id, { ...form, id: existing.id }) });
+    } else {
+      history.pushAction(label, 'form', { tree: insertFeature(featureTree, formFeature(form)) });
+    }
+    toast.success(existing ? 'Form updated' : 'Form added', { description: `${label} on ${form.faceId}` });
+  }, [faceSketches, forms, featureTree, history]);
+
+  const handleRemoveForm = useCallback((id: string) => {
+    history.pushAction('Form removed', 'remove-form', { tree: removeFeature(featureTree, id) });
+    toast.success('Form removed');
+  }, [featureTree, history]);
+
+  // ── Patterns — applying to a seed that already has a pattern edits it ──
+  const handleApplyPattern = useCallback((sourceId: string, layout: PatternLayout) => {
+    const seed = patternSeeds.find(s => s.entity.id === sourceId);
+    if (!seed) {
+      toast.error('Seed not found', { description: 'Pick a sketched circle or rectangle.' });
+      return;
+    }
+    const existing = patterns.find(p => p.sourceId === sourceId);
+    const pattern: SketchPattern = { id: existing?.id ?? generateId(), faceId: seed.faceId, sourceId, layout };
+    const label = patternLabel(pattern);
+    if (existing) {
+      history.pushAction(label, 'update-pattern', { tree: updatePattern(featureTree, existing.id, pattern) });
+    } else {
+      history.pushAction(label, 'pattern', { tree: insertFeature(featureTree, patternFeature(pattern)) });
+    }
+    toast.success(existing ? 'Pattern updated' : 'Pattern added', { description: `${label} on ${pattern.faceId}` });
+  }, [patternSeeds, patterns, featureTree, history]);
+
+  const handleRemovePattern = useCallback((id: string) => {
+    history.pushAction('Pattern removed', 'remove-pattern', { tree: removeFeature(featureTree, id) });
+    toast.success('Pattern removed');
+  }, [featureTree, history]);
+
+  // ── Feature tree ──
+  const handleRollback = useCallback((index: number | null) => {
+    const next = setRollback(featureTree, index);
+    if (next.rollbackIndex === featureTree.rollbackIndex) return;
+    const label = next.rollbackIndex === null
+      ? 'Rolled forward to end'
+      : next.rollbackIndex === 0
+        ? 'Rolled back to base face'
+        : `Rolled back after ${featureLabel(next.features[next.rollbackIndex - 1])}`;
+    history.pushAction(label, 'rollback', { tree: next });
+    setSelectedFoldId(null);
+  }, [featureTree, history]);
+
+  const handleSelectFeature = useCallback((id: string) => {
+    const feature = featureTree.features.find(f => f.id === id);
+    if (!feature) return;
+    setSelectedFoldId(feature.kind === 'fold' ? id : null);
+    setSelectedJogId(feature.kind === 'jog' ? id : null);
+    if (feature.kind === 'flange' || feature.kind === 'hem') {
+      setSubMode('edge');
+      setSelectedEdgeId(feature.kind === 'flange' ? feature.flange.edgeId : feature.hem.edgeId);
+    }
+    if (feature.kind === 'arcFlange') {
+      setSubMode('edge');
+      setSelectedEdgeId(feature.arcFlange.edgeIds[0]);
+    }
+    if (feature.kind === 'corner') setSubMode('corner');
+    if (feature.kind === 'form') setSubMode('form');
+    if (feature.kind === 'pattern') setSubMode('pattern');
+  }, [featureTree]);
+
+  const handleRemoveFeature = useCallback((id: string) => {
+    const feature = featureTree.features.find(f => f.id === id);
+    if (!feature) return;
+    if (feature.kind === 'fold') { handleRemoveFold(id); return; }
+    if (feature.kind === 'jog') { handleRemoveJog(id); return; }
+    if (feature.kind === 'flange') { handleRemoveFlange(id); return; }
+    if (feature.kind === 'arcFlange') { handleRemoveArcFlange(id); return; }
+    if (feature.kind === 'corner') { handleRemoveCorner(id); return; }
+    if (feature.kind === 'hem') { handleRemoveHem(id); return; }
+    if (feature.kind === 'form') { handleRemoveForm(id); return; }
+    if (feature.kind === 'pattern') { handleRemovePattern(id); return; }
+    history.pushAction('Sketch removed', 'remove-sketch', { tree: removeFeature(featureTree, id) });
+    toast.success('Sketch removed');
+  }, [featureTree, history, handleRemoveFold, handleRemoveJog, handleRemoveFlange, handleRemoveArcFlange, handleRemoveCorner, handleRemoveHem, handleRemoveForm, handleRemovePattern]);
+
+  const handleModelBuilt = useCallback((result: BuildModelResult) => {
+    setBuiltFeatureIds(new Set([...result.folds, ...result.flanges, ...result.hems, ...result.forms].map(f => f.id)));
+  }, []);
+
+  // Highlights the stretch of the selected edge the flange covers
+  const flangePreview = useMemo(() => {
+    if (currentStep !== 'fold-flanges' || subMode !== 'edge' || !selectedEdgeId) return null;
+    if (hems.some(h => h.edgeId === selectedEdgeId)) return null;
+    const existing = kernelFlanges.find(f => f.edgeId === selectedEdgeId);
+    return { edgeId: selectedEdgeId, extent: existing ?? flangeExtent };
+  }, [currentStep, subMode, selectedEdgeId, kernelFlanges, hems, flangeExtent]);
+
+  const failedFeatureIds = useMemo(() => {
+    if (!builtFeatureIds) return new Set<string>();
+    const failed = [...folds, ...flanges, ...hems, ...forms].map(f => f.id).filter(id => !builtFeatureIds.has(id));
+    // A jog fails with either of its folds
+    const failedJogs = jogs.filter(j => jogFolds(j, 0).some(f => !builtFeatureIds.has(f.id))).map(j => j.id);
+    // An arc flange fails with any of its segments
+    const failedArcs = profile
+      ? arcFlanges.filter(a => arcFlangeSegments(a, profile, 0).some(f => !builtFeatureIds.has(f.id))).map(a => a.id)
+      : [];
+    // A corner fails with either of its flanges
+    const failedCorners = corners.filter(c => c.flangeIds.some(id => !builtFeatureIds.has(id))).map(c => c.id);
+    // A pattern fails when its seed has been deleted
+    const failedPatterns = patterns.filter(p => !patternSeeds.some(s => s.entity.id === p.sourceId)).map(p => p.id);
+    return new Set([...failed, ...failedJogs, ...failedArcs, ...failedCorners, ...failedPatterns]);
+  }, [builtFeatureIds, profile, folds, jogs, flanges, arcFlanges, hems, forms, corners, patterns, patternSeeds]);
+  // Nothing is built on a lofted bend; its features wait for the base face to come back
+  const loftFailedIds = useMemo(
+    () => new Set(loft ? featureTree.features.map(f => f.id) : []),
+    [loft, featureTree],
+  );
+
+  // ── Project save / open ──
+  const currentProject = useMemo(() => createProjectFile({
+    name: projectName,
+    createdAt: projectCreatedAt.current,
+    sketch: {
+      entities: sketch.entities,
+      gridSize: sketch.gridSize,
+      snapEnabled: sketch.snapEnabled,
+      sheetMetalDefaults: sketch.sheetMetalDefaults,
+    },
+    part,
+    loft,
+    features: featureTree,
+  }), [projectName, sketch.entities, sketch.gridSize, sketch.snapEnabled, sketch.sheetMetalDefaults, part, loft, featureTree]);
+
+  // Autosave after every history change (and sketch edits); an empty workspace is not worth saving
+  const autosaveRecord = useMemo(() => {
+    if (sketch.entities.length === 0 && !profile) return null;
+    return {
+      project: currentProject,
+      history: { entries: history.entries, currentIndex: history.currentIndex },
+      savedAt: Date.now(),
+    };
+  }, [currentProject, sketch.entities.length, profile, history.entries, history.currentIndex]);
+  const { pendingRestore, acceptRestore, discardRestore, markSaved } = useAutosave(
+    projectReady ? projectId ?? NEW_PROJECT_SLOT : null,
+    autosaveRecord,
+  );
+
+  const handleSaveProject = useCallback(async () => {
+    projectCreatedAt.current = currentProject.createdAt;
+    projectThumbnail.current = cameraApiRef.current?.captureThumbnail() ?? projectThumbnail.current;
+    try {
+      const stored = await putProject({ id: projectId, project: currentProject, thumbnail: projectThumbnail.current });
+      markSaved();
+      toast.success('Project saved', { description: currentProject.name });
+      if (!projectId) {
+        loadedProjectId.current = stored.id;
+        navigate(`/workspace/${stored.id}`, { replace: true });
+      }
+    } catch (err) {
+      toast.error('Cannot save project', {
+        description: `${err instanceof Error ? err.message : String(err)} — use Download to keep a copy.`,
+      });
+    }
+  }, [currentProject, projectId, markSaved, navigate]);
+
+  const handleDownloadProject = useCallback(() => {
+    downloadProject(currentProject);
+    toast.success('Project downloaded', { description: projectFileName(currentProject.name) });
+  }, [currentProject]);
+
+  const loadProject = useCallback((project: ProjectFile) => {
+    sketch.loadSketch(project.sketch);
+    history.reset(`Opened ${project.name}`, { part: project.part, loft: project.loft ?? null, tree: project.features });
+    setProjectName(project.name);
+    projectCreatedAt.current = project.createdAt;
+    setSelectedEdgeId(null);
+    setSelectedFoldId(null);
+    setBuiltFeatureIds(null);
+    setSelectedSketchLineId(null);
+    setActiveFaceSketch(null);
+    setSketchEntities([]);
+    setSketchSelectedIds([]);
+    setCurrentStep(project.part || project.loft ? 'fold-flanges' : 'sketch');
+  }, [sketch, history]);
+
+  // Open a library project by id
+  useEffect(() => {
+    if (!projectId) {
+      loadedProjectId.current = null;
+      setProjectReady(true);
+      return;
+    }
+    if (projectId === loadedProjectId.current) return;
+    let cancelled = false;
+    setProjectReady(false);
+    getProject(projectId)
+      .then(stored => {
+        if (cancelled) return;
+        if (!stored) {
+          toast.error('Project not found');
+          navigate('/projects', { replace: true });
+          return;
+        }
+        loadProject(stored.project);
+        projectThumbnail.current = stored.thumbnail;
+        loadedProjectId.current = projectId;
+        setProjectReady(true);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        toast.error('Cannot open project', { description: err instanceof Error ? err.message : String(err) });
+        navigate('/projects', { replace: true });
+      });
+    return () => { cancelled = true; };
+  }, [projectId, loadProject, navigate]);
+
+  const handleRestoreAutosave = useCallback(() => {
+    const saved = acceptRestore();
+    if (!saved) return;
+    loadProject(saved.project);
+    if (saved.history) history.restore(saved.history.entries, saved.history.currentIndex);
+    toast.success('Unsaved work restored', { description: saved.project.name });
+  }, [acceptRestore, loadProject, history]);
+
+  const handleOpenFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const project = parseProjectFile(await file.text());
+      toast.success('Project opened', { description: project.name });
+      try {
+        // Opened files become library projects, so Save never overwrites the project on screen
+        const stored = await putProject({ project, thumbnail: null });
+        navigate(`/workspace/${stored.id}`);
+      } catch {
+        loadProject(project);
+      }
+    } catch (err) {
+      toast.error('Cannot open project', { description: err instanceof Error ? err.message : String(err) });
+    }
+  }, [loadProject, navigate]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -372,6 +979,8 @@ export default function Workspace() {
         return;
       }
       if (e.key === 'y' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); history.redo(); return; }
+      if (e.key === 's' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); handleSaveProject(); return; }
+      if (e.key === 'o' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); fileInputRef.current?.click(); return; }
 
       if (activeFaceSketch) {
         switch (e.key.toLowerCase()) {
@@ -380,6 +989,7 @@ export default function Workspace() {
           case 'c': setSketchTool('circle'); break;
           case 'r': setSketchTool('rect'); break;
           case 'p': setSketchTool('point'); break;
+          case 'a': setSketchTool('arc'); break;
           case 'm': setSketchTool('move'); break;
           case 'delete': case 'backspace':
             if (sketchSelectedIds.length > 0) {
@@ -406,7 +1016,7 @@ export default function Workspace() {
     };
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [currentStep, sketch.setActiveTool, activeFaceSketch, sketchSelectedIds, history]);
+  }, [currentStep, sketch.setActiveTool, activeFaceSketch, sketchSelectedIds, history, handleSaveProject]);
 
   const is3DStep = currentStep === 'fold-flanges';
   const isUnfoldStep = currentStep === 'unfold';
@@ -427,10 +1037,20 @@ export default function Workspace() {
   }, [selectedSketchLineId, faceSketches]);
 
   const viewerMode = useMemo((): 'edge' | 'sketch' | 'fold' | 'view' => {
-    if (currentStep === 'fold-flanges') return subMode;
+    if (currentStep === 'fold-flanges') return subMode === 'corner' || subMode === 'form' || subMode === 'pattern' ? 'view' : subMode === 'jog' ? 'fold' : subMode;
     return 'view';
   }, [currentStep, subMode]);
 
+  const featurePanel = (tree: React.ReactNode) => (
+    <div className="w-52 border-r bg-card/50 flex flex-col shrink-0">
+      <div className="flex items-center gap-2 px-3 py-2 border-b">
+        <GitBranch className="h-3.5 w-3.5 text-muted-foreground" />
+        <p className="text-xs font-semibold">Features ({featureTree.features.length})</p>
+      </div>
+      <div className="p-2 flex-1 overflow-y-auto">{tree}</div>
+    </div>
+  );
+
   return (
     <div className="h-screen flex flex-col bg-background">
       {/* ── Top bar ── */}
@@ -457,7 +1077,32 @@ export default function Workspace() {
             </Button>
           </div>
           <div className="w-px h-6 bg-border mx-1" />
-          <span className="text-xs text-muted-foreground font-mono">Untitled Project</span>
+          <div className="flex items-center gap-0.5">
+            <Button variant="ghost" size="icon" className="h-8 w-8"
+              onClick={() => fileInputRef.current?.click()} title={`Open ${PROJECT_EXTENSION} file (Ctrl+O)`}>
+              <FolderOpen className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8"
+              onClick={handleSaveProject} title="Save to projects (Ctrl+S)">
+              <Save className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8"
+              onClick={handleDownloadProject} title={`Download ${PROJECT_EXTENSION}`}>
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8"
+              onClick={() => navigate('/projects')} title="All projects">
+              <LayoutGrid className="h-4 w-4" />
+            </Button>
+            <input ref={fileInputRef} type="file" accept={`${PROJECT_EXTENSION},application/json`} className="hidden" onChange={handleOpenFile} />
+          </div>
+          <input
+            className="text-xs text-muted-foreground font-mono bg-transparent border-0 outline-none focus:text-foreground w-40"
+            value={projectName}
+            onChange={e => setProjectName(e.target.value)}
+            onBlur={() => !projectName.trim() && setProjectName('Untitled Project')}
+            aria-label="Project name"
+          />
         </div>
 
         <WorkflowBar currentStep={currentStep} onStepClick={handleStepClick} />
@@ -472,10 +1117,20 @@ export default function Workspace() {
             <Bug className="h-3 w-3" /> Debug API
           </Button>
           {currentStep === 'sketch' && (
-            <Button size="sm" className="h-8 text-xs gap-1.5" disabled={!canConvert} onClick={handleConvertToBaseFace}>
-              Convert to Base Face
-              <ArrowRight className="h-3 w-3" />
-            </Button>
+            <>
+              <Button variant="outline" size="sm" className="h-8 text-xs gap-1.5" disabled={!canLoft}
+                onClick={() => setLoftDialogOpen(true)} title="Transition between two closed shapes">
+                <Shapes className="h-3 w-3" /> Lofted Bend
+              </Button>
+              <Button variant="outline" size="sm" className="h-8 text-xs gap-1.5" disabled={!contour}
+                onClick={() => setContourDialogOpen(true)} title="Sweep an open chain of lines and arcs">
+                <Spline className="h-3 w-3" /> Contour Flange
+              </Button>
+              <Button size="sm" className="h-8 text-xs gap-1.5" disabled={!canConvert} onClick={handleConvertToBaseFace}>
+                Convert to Base Face
+                <ArrowRight className="h-3 w-3" />
+              </Button>
+            </>
           )}
           {is3DStep && (
             <>
@@ -507,14 +1162,18 @@ export default function Workspace() {
               activeTool={sketch.activeTool}
               snapEnabled={sketch.snapEnabled}
               gridSize={sketch.gridSize}
+              polygonSides={sketchPolygonSides}
+              cornerSize={sketchCornerSize}
               onToolChange={sketch.setActiveTool}
               onSnapToggle={() => sketch.setSnapEnabled(!sketch.snapEnabled)}
               onGridSizeChange={sketch.setGridSize}
+              onPolygonSidesChange={setSketchPolygonSides}
+              onCornerSizeChange={setSketchCornerSize}
               onClear={sketch.clearAll}
             />
           )}
 
-          {currentStep === 'fold-flanges' && !activeFaceSketch && (
+          {currentStep === 'fold-flanges' && profile && !activeFaceSketch && (
             <div className="flex items-center gap-2 px-3 py-1.5 border-b bg-muted/30 shrink-0">
               <span className="text-xs font-medium text-muted-foreground">Mode:</span>
               <Button variant={subMode === 'edge' ? 'default' : 'outline'} size="sm" className="h-7 text-xs gap-1"
@@ -529,11 +1188,31 @@ export default function Workspace() {
                 onClick={() => { setSubMode('fold'); setSelectedEdgeId(null); }}>
                 <Scissors className="h-3 w-3" /> Fold
               </Button>
+              <Button variant={subMode === 'jog' ? 'default' : 'outline'} size="sm" className="h-7 text-xs gap-1"
+                onClick={() => { setSubMode('jog'); setSelectedEdgeId(null); }}>
+                <TrendingUp className="h-3 w-3" /> Jog
+              </Button>
+              <Button variant={subMode === 'corner' ? 'default' : 'outline'} size="sm" className="h-7 text-xs gap-1"
+                onClick={() => { setSubMode('corner'); setSelectedEdgeId(null); setSelectedSketchLineId(null); }}>
+                <CornerDownRight className="h-3 w-3" /> Corner
+              </Button>
+              <Button variant={subMode === 'form' ? 'default' : 'outline'} size="sm" className="h-7 text-xs gap-1"
+                onClick={() => { setSubMode('form'); setSelectedEdgeId(null); setSelectedSketchLineId(null); }}>
+                <Stamp className="h-3 w-3" /> Form
+              </Button>
+              <Button variant={subMode === 'pattern' ? 'default' : 'outline'} size="sm" className="h-7 text-xs gap-1"
+                onClick={() => { setSubMode('pattern'); setSelectedEdgeId(null); setSelectedSketchLineId(null); }}>
+                <Grid3x3 className="h-3 w-3" /> Pattern
+              </Button>
               <div className="w-px h-4 bg-border mx-1" />
               <span className="text-xs text-muted-foreground">
-                {subMode === 'edge' && 'Select an edge to add a flange'}
+                {subMode === 'edge' && 'Select an edge to add a flange or hem'}
                 {subMode === 'sketch' && 'Click a face to open the sketch editor'}
                 {subMode === 'fold' && 'Select a sketch line to apply fold'}
+                {subMode === 'jog' && 'Select a sketch line to apply a jog'}
+                {subMode === 'corner' && 'Pick two flanges that meet at a corner'}
+                {subMode === 'form' && 'Stamp a form tool on a sketched point or rectangle'}
+                {subMode === 'pattern' && 'Repeat a sketched circle or rectangle, or a base cutout'}
               </span>
             </div>
           )}
@@ -545,6 +1224,8 @@ export default function Workspace() {
               activeTool={sketch.activeTool}
               gridSize={sketch.gridSize}
               snapEnabled={sketch.snapEnabled}
+              polygonSides={sketchPolygonSides}
+              cornerSize={sketchCornerSize}
               onAddLine={sketch.addLine}
               onAddRect={sketch.addRect}
               onAddCircle={sketch.addCircle}
@@ -560,16 +1241,16 @@ export default function Workspace() {
 
           {is3DStep && profile && (
             <div className="flex-1 flex min-h-0 overflow-hidden">
-              {history.entries.length > 1 && (
-                <div className="w-48 border-r bg-card/50 flex flex-col shrink-0">
-                  <div className="flex items-center gap-2 px-3 py-2 border-b">
-                    <GitBranch className="h-3.5 w-3.5 text-muted-foreground" />
-                    <p className="text-xs font-semibold">History ({history.entries.length - 1})</p>
-                  </div>
-                  <div className="p-2 flex-1 overflow-y-auto">
-                    <ActionTree entries={history.entries} currentIndex={history.currentIndex} onGoTo={history.goTo} />
-                  </div>
-                </div>
+              {featureTree.features.length > 0 && featurePanel(
+                <ActionTree
+                  tree={featureTree}
+                  failedIds={failedFeatureIds}
+                  selectedId={selectedFoldId ?? selectedJogId ?? flanges.find(f => f.edgeId === selectedEdgeId)?.id ?? null}
+                  onSelect={handleSelectFeature}
+                  onRollback={handleRollback}
+                  onRemove={handleRemoveFeature}
+                  onEditBaseSketch={() => setCurrentStep('sketch')}
+                />,
               )}
               <div className="flex-1 relative min-h-0 h-full">
                 <Viewer3D
@@ -578,11 +1259,11 @@ export default function Workspace() {
                   cutouts={cutouts}
                   selectedEdgeId={selectedEdgeId}
                   onEdgeClick={setSelectedEdgeId}
-                  flanges={flanges}
-                  folds={folds}
+                  flanges={kernelFlanges}
+                  folds={kernelFolds}
                   interactionMode={viewerMode}
                   onFaceClick={handleFaceClick}
-                  faceSketches={faceSketches}
+                  faceSketches={kernelFaceSketches}
                   selectedSketchLineId={selectedSketchLineId}
                   onSketchLineClick={handleSketchLineClick}
                   sketchPlaneActive={!!activeFaceSketch}
@@ -592,6 +1273,7 @@ export default function Workspace() {
                   sketchFaceHeight={sketchFaceInfo?.height}
                   sketchEntities={sketchEntities}
                   sketchActiveTool={sketchTool}
+                  sketchPolygonSides={sketchPolygonSides}
                   sketchGridSize={sketch.gridSize}
                   sketchSnapEnabled={sketch.snapEnabled}
                   onSketchAddEntity={handleSketchAddEntity}
@@ -602,6 +1284,13 @@ export default function Workspace() {
                   onSketchSelectEntity={handleSketchSelectEntity}
                   cameraApiRef={cameraApiRef}
                   kFactor={sketch.sheetMetalDefaults.kFactor}
+                  bendTable={sketch.sheetMetalDefaults.bendTable}
+                  relief={sketch.sheetMetalDefaults.relief}
+                  corners={corners}
+                  hems={hems}
+                  forms={forms}
+                  flangePreview={flangePreview}
+                  onModelBuilt={handleModelBuilt}
                 >
                   {activeFaceSketch && sketchFaceInfo && (
                     <FaceSketchToolbar
@@ -612,6 +1301,8 @@ export default function Workspace() {
                       faceHeight={sketchFaceInfo.height}
                       onFinish={handleFinishSketch}
                       onExit={handleExitSketch}
+                      polygonSides={sketchPolygonSides}
+                      onPolygonSidesChange={setSketchPolygonSides}
                     />
                   )}
                 </Viewer3D>
@@ -619,15 +1310,61 @@ export default function Workspace() {
             </div>
           )}
 
+          {is3DStep && loft && (
+            <div className="flex-1 flex min-h-0 overflow-hidden">
+              {featurePanel(
+                <ActionTree
+                  base="loft"
+                  tree={featureTree}
+                  failedIds={loftFailedIds}
+                  selectedId={null}
+                  onSelect={() => {}}
+                  onRollback={handleRollback}
+                  onRemove={handleRemoveFeature}
+                  onEditBaseSketch={() => setCurrentStep('sketch')}
+                />,
+              )}
+              <div className="flex-1 relative min-h-0 h-full">
+                <LoftViewer loft={loft} thickness={sketch.sheetMetalDefaults.thickness} />
+              </div>
+            </div>
+          )}
+
+          {isUnfoldStep && loft && (
+            <UnfoldViewer
+              profile={loft.bottom}
+              thickness={sketch.sheetMetalDefaults.thickness}
+              flanges={[]}
+              kFactor={sketch.sheetMetalDefaults.kFactor}
+              flatPattern={loftPattern}
+            />
+          )}
+
+          {currentStep === 'export' && loft && (
+            <ExportPanel
+              profile={loft.bottom}
+              thickness={sketch.sheetMetalDefaults.thickness}
+              flanges={[]}
+              folds={[]}
+              kFactor={sketch.sheetMetalDefaults.kFactor}
+              flatPattern={loftPattern}
+            />
+          )}
+
           {isUnfoldStep && profile && (
             <UnfoldViewer
               profile={profile}
               thickness={sketch.sheetMetalDefaults.thickness}
-              flanges={flanges}
+              flanges={kernelFlanges}
               kFactor={sketch.sheetMetalDefaults.kFactor}
-              folds={folds}
+              bendTable={sketch.sheetMetalDefaults.bendTable}
+              relief={sketch.sheetMetalDefaults.relief}
+              corners={corners}
+              hems={hems}
+              forms={forms}
+              folds={kernelFolds}
               cutouts={cutouts}
-              faceSketches={faceSketches}
+              faceSketches={kernelFaceSketches}
             />
           )}
 
@@ -635,11 +1372,16 @@ export default function Workspace() {
             <ExportPanel
               profile={profile}
               thickness={sketch.sheetMetalDefaults.thickness}
-              flanges={flanges}
-              folds={folds}
+              flanges={kernelFlanges}
+              folds={kernelFolds}
               kFactor={sketch.sheetMetalDefaults.kFactor}
+              bendTable={sketch.sheetMetalDefaults.bendTable}
+              relief={sketch.sheetMetalDefaults.relief}
+              corners={corners}
+              hems={hems}
+              forms={forms}
               cutouts={cutouts}
-              faceSketches={faceSketches}
+              faceSketches={kernelFaceSketches}
             />
           )}
         </div>
@@ -654,10 +1396,38 @@ export default function Workspace() {
           selectedEdge={selectedEdge}
           flanges={flanges}
           onAddFlange={handleAddFlange}
+          flangeExtent={flangeExtent}
+          onFlangeExtentChange={setFlangeExtent}
           onUpdateFlange={handleUpdateFlange}
           onRemoveFlange={handleRemoveFlange}
-          folds={folds}
+          arcFlanges={arcFlanges}
+          arcRunLength={selectedArcRun?.length ?? 0}
+          onAddArcFlange={handleAddArcFlange}
+          onUpdateArcFlange={handleUpdateArcFlange}
+          onRemoveArcFlange={handleRemoveArcFlange}
+          folds={kernelFolds}
+          selectedFoldId={selectedFoldId}
+          jogs={jogs}
+          selectedJogId={selectedJogId}
+          onUpdateJog={handleUpdateJog}
+          onRemoveJog={handleRemoveJog}
+          onUpdateFold={handleUpdateFold}
           onRemoveFold={handleRemoveFold}
+          corners={corners}
+          onApplyCorner={handleApplyCorner}
+          onRemoveCorner={handleRemoveCorner}
+          hems={hems}
+          onAddHem={handleAddHem}
+          onUpdateHem={handleUpdateHem}
+          onRemoveHem={handleRemoveHem}
+          forms={forms}
+          onApplyForm={handleApplyForm}
+          onRemoveForm={handleRemoveForm}
+          patternSeeds={patternSeeds}
+          patterns={patterns}
+          suppressedCopies={suppressedCopies}
+          onApplyPattern={handleApplyPattern}
+          onRemovePattern={handleRemovePattern}
           subMode={currentStep === 'fold-flanges' ? subMode : undefined}
           faceSketches={faceSketches}
           selectedSketchLine={selectedSketchLine}
@@ -669,11 +1439,62 @@ export default function Workspace() {
           open={foldDialogOpen}
           sketchLine={selectedSketchLine}
           defaultBendRadius={sketch.sheetMetalDefaults.bendRadius}
+          defaultKFactor={sketch.sheetMetalDefaults.kFactor}
           onApply={handleApplyFold}
           onClose={() => { setFoldDialogOpen(false); setSelectedSketchLineId(null); }}
         />
       )}
 
+      {jogDialogOpen && selectedSketchLine && (
+        <JogDialog
+          open={jogDialogOpen}
+          sketchLine={selectedSketchLine}
+          defaultBendRadius={sketch.sheetMetalDefaults.bendRadius}
+          onApply={handleApplyJog}
+          onClose={() => { setJogDialogOpen(false); setSelectedSketchLineId(null); }}
+        />
+      )}
+
+      {loftDialogOpen && (
+        <LoftedBendDialog
+          open={loftDialogOpen}
+          entities={sketch.entities}
+          onApply={handleCreateLoft}
+          onClose={() => setLoftDialogOpen(false)}
+        />
+      )}
+
+      {contourDialogOpen && contour && (
+        <ContourFlangeDialog
+          open={contourDialogOpen}
+          contour={contour}
+          defaultBendRadius={sketch.sheetMetalDefaults.bendRadius}
+          onApply={handleCreateContourFlange}
+          onClose={() => setContourDialogOpen(false)}
+        />
+      )}
+
+      <AlertDialog open={!!pendingRestore}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore unsaved work?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRestore && (
+                <>
+                  "{pendingRestore.project.name}" was autosaved {new Date(pendingRestore.savedAt).toLocaleString()}
+                  {' '}with {pendingRestore.project.features.features.length} feature(s).
+                  {' '}Discarding it cannot be undone.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={discardRestore}>Discard</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestoreAutosave}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <DebugPanel open={debugOpen} onClose={() => setDebugOpen(false)} />
     </div>
   );
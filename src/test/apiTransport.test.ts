@@ -0,0 +1,199 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { buildModel, unfoldModel, isAbortError, BuildModelRequest } from "@/lib/metalHeroApi";
+import { buildModelLocal } from "@/lib/cadKernel";
+import { responseCacheKey, clearResponseCache, CACHE_SCHEMA_VERSION } from "@/lib/responseCache";
+import { ApiResponseError } from "@/lib/apiSchemas";
+import { extractProfileAndCutouts, type Flange } from "@/lib/geometry";
+import {
+  createMockTransport, createLocalTransport, setApiTransport, BUILD_MODEL_PATH, fixturesFromApiLogs, ApiTransport,
+  type MockFixture,
+} from "@/lib/apiTransport";
+import plateWithFlange from "./fixtures/plateWithFlange.json";
+
+const profile = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }];
+
+afterEach(() => setApiTransport(null));
+
+describe("mock transport", () => {
+  it("replays a recorded build-model response", async () => {
+    const recorded = buildModelLocal({
+      profile, thickness: 1, cutouts: [], folds: [], flanges: [], faceSketches: [],
+      bendTable: { type: "kFactor", defaultKFactor: 0.44, overrides: [] },
+    });
+    setApiTransport(createMockTransport([{ path: BUILD_MODEL_PATH, response: recorded }]));
+
+    const result = await buildModel({ profile, thickness: 1, kFactor: 0.44 });
+    expect(result.edges).toHaveLength(8);
+    expect(result.faces.map(f => f.faceId)).toEqual(["base_top", "base_bot"]);
+  });
+
+  it("fails when no fixture was recorded for the endpoint", async () => {
+    setApiTransport(createMockTransport([]));
+    await expect(unfoldModel({ profile, thickness: 1, kFactor: 0.44 })).rejects.toThrow("404");
+  });
+
+  it("replays a recorded sketch → flange → unfold session", async () => {
+    setApiTransport(createMockTransport(plateWithFlange as MockFixture[]));
+    // Same steps as the workspace: sketch a plate with a hole, convert it, flange an edge, unfold
+    const part = extractProfileAndCutouts([
+      { id: "l1", type: "rect", origin: { x: 0, y: 0 }, width: 120, height: 60 },
+      { id: "c1", type: "circle", center: { x: 60, y: 30 }, radius: 8 },
+    ])!;
+    const plate = await buildModel({ profile: part.profile, thickness: 1.5, cutouts: part.cutouts, kFactor: 0.44 });
+    expect(plate.faces.map(f => f.faceId)).toEqual(["base_top", "base_bot"]);
+
+    const edgeId = plate.edges.find(e => e.id.startsWith("edge_top"))!.id;
+    const flange: Flange = { id: "f1", edgeId, height: 25, angle: 90, direction: "up", bendRadius: 2 };
+    const flanged = await buildModel({ profile: part.profile, thickness: 1.5, cutouts: part.cutouts, flanges: [flange], kFactor: 0.44 });
+    expect(flanged.flanges.map(f => f.id)).toEqual(["f1"]);
+
+    const flat = await unfoldModel({ profile: part.profile, thickness: 1.5, cutouts: part.cutouts, flanges: [flange], kFactor: 0.44 });
+    expect(flat.bendLines).toHaveLength(2);
+    expect(flat.regions[0].cutouts).toHaveLength(1);
+
+    // A request nobody recorded is not guessed at
+    await expect(unfoldModel({ profile: part.profile, thickness: 2, cutouts: part.cutouts, flanges: [flange], kFactor: 0.44 })).rejects.toThrow("404");
+  });
+
+  it("turns debug log entries into fixtures", () => {
+    const fixtures = fixturesFromApiLogs([
+      { endpoint: "https://api.metal-hero.com/api/v1/build-model", requestBody: { a: 1 }, responseBody: { success: true } },
+      { endpoint: "https://example.com/health", requestBody: null, responseBody: null },
+    ]);
+    expect(fixtures).toEqual([{ path: BUILD_MODEL_PATH, request: { a: 1 }, response: { success: true }, status: undefined }]);
+  });
+});
+
+describe("local transport", () => {
+  it("reports a request the kernel fails on as a failed response with the kernel's error", async () => {
+    const broken = {
+      profile: null as unknown as typeof profile, thickness: 1, cutouts: [], folds: [], flanges: [], faceSketches: [],
+      bendTable: { type: "kFactor", defaultKFactor: 0.44, overrides: [] },
+    };
+    const response = await createLocalTransport().post(BUILD_MODEL_PATH, broken);
+    expect(response).toMatchObject({ ok: false, status: 422, data: { success: false } });
+
+    const { transport, calls } = scriptedTransport([], 0, "local");
+    setApiTransport(transport);
+    const err = await buildModel({ profile: null as unknown as typeof profile, thickness: 1, kFactor: 0.44 }).catch(e => e);
+    expect(err.message).toBe((response.data as { error: string }).error);
+    // Not retried: the same request would fail the same way
+    expect(calls).toHaveLength(1);
+  });
+});
+
+/** Local kernel behind a transport that records calls and can delay or fail them. */
+function scriptedTransport(statuses: number[] = [], delayMs = 0, kind: ApiTransport["kind"] = "mock") {
+  const calls: BuildModelRequest[] = [];
+  const local = createLocalTransport();
+  const transport: ApiTransport = {
+    kind,
+    label: "scripted",
+    async post(path, body, signal) {
+      calls.push(body);
+      await new Promise((resolve, reject) => {
+        const timer = setTimeout(resolve, delayMs);
+        signal?.addEventListener("abort", () => { clearTimeout(timer); reject(signal.reason); });
+      });
+      const status = statuses.shift();
+      if (status) return { url: "mock://x", status, statusText: "Error", ok: false, data: null };
+      return { ...(await local.post(path, body)), url: `scripted://${path}` };
+    },
+  };
+  return { transport, calls };
+}
+
+describe("request control", () => {
+  it("shares identical in-flight requests", async () => {
+    const { transport, calls } = scriptedTransport([], 10);
+    setApiTransport(transport);
+    const [a, b] = await Promise.all([
+      buildModel({ profile, thickness: 1, kFactor: 0.44 }),
+      buildModel({ profile, thickness: 1, kFactor: 0.44 }),
+    ]);
+    expect(calls).toHaveLength(1);
+    expect(a.edges).toEqual(b.edges);
+  });
+
+  it("cancels an older request when a newer payload is sent on the same channel", async () => {
+    const { transport } = scriptedTransport([], 10);
+    setApiTransport(transport);
+    const older = buildModel({ profile, thickness: 1, kFactor: 0.44 }, { channel: "viewer" });
+    const newer = buildModel({ profile, thickness: 2, kFactor: 0.44 }, { channel: "viewer" });
+    const err = await older.catch(e => e);
+    expect(isAbortError(err)).toBe(true);
+    await expect(newer).resolves.toBeTruthy();
+  });
+
+  it("leaves requests of other channels alone", async () => {
+    const { transport, calls } = scriptedTransport([], 10);
+    setApiTransport(transport);
+    const viewer = buildModel({ profile, thickness: 1, kFactor: 0.44 }, { channel: "viewer" });
+    const thumbnail = buildModel({ profile, thickness: 2, kFactor: 0.44 }, { channel: "thumbnail" });
+    await expect(viewer).resolves.toBeTruthy();
+    await expect(thumbnail).resolves.toBeTruthy();
+    expect(calls).toHaveLength(2);
+  });
+
+  it("retries 5xx responses", async () => {
+    const { transport, calls } = scriptedTransport([503, 502]);
+    setApiTransport(transport);
+    await expect(buildModel({ profile, thickness: 3, kFactor: 0.44 })).resolves.toBeTruthy();
+    expect(calls).toHaveLength(3);
+  });
+
+  it("times out a request that does not respond", async () => {
+    const { transport } = scriptedTransport([], 1000);
+    setApiTransport(transport);
+    await expect(buildModel({ profile, thickness: 4, kFactor: 0.44 }, { timeoutMs: 5 })).rejects.toThrow("timeout");
+  });
+});
+
+describe("response cache", () => {
+  afterEach(() => clearResponseCache());
+
+  it("hashes payloads independently of key order", () => {
+    expect(responseCacheKey("a", { x: 1, y: [1, { p: 2, q: 3 }] }))
+      .toBe(responseCacheKey("a", { y: [1, { q: 3, p: 2 }], x: 1 }));
+    expect(responseCacheKey("a", { x: 1 })).not.toBe(responseCacheKey("a", { x: 2 }));
+  });
+
+  it("namespaces keys by cache schema version", () => {
+    expect(responseCacheKey("a", { x: 1 }).startsWith(`v${CACHE_SCHEMA_VERSION}:a#`)).toBe(true);
+  });
+
+  it("serves a repeated remote request from the cache", async () => {
+    const { transport, calls } = scriptedTransport([], 0, "http");
+    setApiTransport(transport);
+    await buildModel({ profile, thickness: 5, kFactor: 0.44 });
+    const again = await buildModel({ profile, thickness: 5, kFactor: 0.44 });
+    expect(calls).toHaveLength(1);
+    expect(again.edges).toHaveLength(8);
+  });
+});
+
+describe("response validation", () => {
+  it("names the field of a malformed mesh", async () => {
+    const recorded = buildModelLocal({
+      profile, thickness: 1, cutouts: [], folds: [], flanges: [], faceSketches: [],
+      bendTable: { type: "kFactor", defaultKFactor: 0.44, overrides: [] },
+    });
+    recorded.model!.meshes.baseFace.indices = [0, 1, 2, 0, 2, 9999];
+    setApiTransport(createMockTransport([{ path: BUILD_MODEL_PATH, response: recorded }]));
+
+    const err = await buildModel({ profile, thickness: 1, kFactor: 0.44 }).catch(e => e);
+    expect(err).toBeInstanceOf(ApiResponseError);
+    expect(err.field).toBe("model.meshes.baseFace.indices[5]");
+  });
+
+  it("rejects a successful response without faces", async () => {
+    const recorded = buildModelLocal({
+      profile, thickness: 1, cutouts: [], folds: [], flanges: [], faceSketches: [],
+      bendTable: { type: "kFactor", defaultKFactor: 0.44, overrides: [] },
+    });
+    delete (recorded.model as Partial<typeof recorded.model>).faces;
+    setApiTransport(createMockTransport([{ path: BUILD_MODEL_PATH, response: recorded }]));
+
+    await expect(buildModel({ profile, thickness: 1, kFactor: 0.44 })).rejects.toThrow("model.faces");
+  });
+});
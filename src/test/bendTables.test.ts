@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { BendTableError, bendOverrides, bendTableKFactor, lookupKFactor, parseBendTable } from "@/lib/bendTables";
+import { bendAllowance, bendDeduction } from "@/lib/sheetmetal";
+
+const csv = [
+  "angle;radius;thickness;BD",
+  "90;1;1;1.7",
+  "90;2;1;2.0",
+  "90;2;2;3.4",
+].join("\n");
+
+describe("bend tables", () => {
+  it("parses CSV and reproduces measured deductions exactly", () => {
+    const table = parseBendTable(csv, "shop-bd.csv");
+    expect(table).toMatchObject({ name: "shop-bd", type: "bendDeduction" });
+    expect(bendDeduction(1, 0.44, 1, 90, bendTableKFactor(table))).toBeCloseTo(1.7, 3);
+    expect(bendDeduction(2, 0.44, 2, 90, bendTableKFactor(table))).toBeCloseTo(3.4, 3);
+  });
+
+  it("interpolates between rows and leaves uncovered thicknesses to the default K", () => {
+    const table = parseBendTable(csv, "shop-bd.csv");
+    const k1 = lookupKFactor(table, 90, 1, 1)!;
+    const k2 = lookupKFactor(table, 90, 2, 1)!;
+    expect(lookupKFactor(table, 90, 1.5, 1)).toBeCloseTo((k1 + k2) / 2, 4);
+    expect(lookupKFactor(table, 90, 1, 3)).toBeNull();
+    expect(bendAllowance(1, 0.44, 3, 90, bendTableKFactor(table))).toBeCloseTo(bendAllowance(1, 0.44, 3, 90), 6);
+  });
+
+  it("produces overrides only for covered bends", () => {
+    const table = parseBendTable(JSON.stringify({
+      type: "kFactor",
+      entries: [{ angle: 90, radius: 1, thickness: 1, value: 0.38 }, { angle: 90, radius: 4, thickness: 1, value: 0.5 }],
+    }), "k.json");
+    const overrides = bendOverrides(table, [
+      { id: "a", angle: 45, bendRadius: 1 },
+      { id: "b", angle: 90, bendRadius: 8 },
+    ], 1);
+    expect(overrides.map(o => o.bendId)).toEqual(["a"]);
+    expect(overrides[0].kFactor).toBe(0.38);
+  });
+
+  it("lets a per-bend K-factor override the table", () => {
+    const table = parseBendTable(csv, "shop-bd.csv");
+    const [override] = bendOverrides(table, [{ id: "a", angle: 90, bendRadius: 1, kFactor: 0.3 }], 1);
+    expect(override.kFactor).toBe(0.3);
+    expect(override.bendAllowance).toBeCloseTo(bendAllowance(1, 0.3, 1, 90), 6);
+  });
+
+  it("rejects CSV without a value column", () => {
+    expect(() => parseBendTable("angle,radius,thickness\n90,1,1", "x.csv")).toThrow(BendTableError);
+  });
+});
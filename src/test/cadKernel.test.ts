@@ -0,0 +1,205 @@
+import { describe, it, expect } from "vitest";
+import { buildModelLocal, buildPart } from "@/lib/cadKernel";
+import { DEFAULT_RELIEF } from "@/lib/sheetmetal";
+import { BuildModelRequest, buildRequestPayload } from "@/lib/metalHeroApi";
+import { arcFlangeSegments, contourFlange, extractContourProfile, findArcRun, jogFolds, type BendReliefType } from "@/lib/geometry";
+
+const PLATE = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }];
+
+function request(overrides: Partial<BuildModelRequest> = {}): BuildModelRequest {
+  return {
+    profile: PLATE,
+    thickness: 1,
+    cutouts: [],
+    folds: [],
+    flanges: [],
+    faceSketches: [],
+    bendTable: { type: "kFactor", defaultKFactor: 0.44, overrides: [] },
+    ...overrides,
+  };
+}
+
+/** A tab from x 40 to 60 on top of the plate, folded up along its root */
+function tabFold(reliefType?: BendReliefType): BuildModelRequest {
+  return request({
+    profile: [
+      { x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 60, y: 50 },
+      { x: 60, y: 80 }, { x: 40, y: 80 }, { x: 40, y: 50 }, { x: 0, y: 50 },
+    ],
+    folds: [{
+      id: "k1", lineStart: { x: 0, y: 50 }, lineEnd: { x: 100, y: 50 }, angle: 90, direction: "up",
+      bendRadius: 1, kFactor: 0.44, foldLocation: "material-inside", parentFaceId: "base_top", movingSide: "left",
+      reliefType,
+    }],
+    relief: { ...DEFAULT_RELIEF, bendRelief: "rectangular", bendReliefWidth: 2, bendReliefDepth: 1 },
+  });
+}
+
+describe("buildModelLocal", () => {
+  it("builds a base face with top and bottom edges", () => {
+    const res = buildModelLocal(request());
+    expect(res.success).toBe(true);
+    expect(res.model!.meshes.baseFace.positions.length).toBeGreaterThan(0);
+    const ids = res.model!.edges.map(e => e.id).sort();
+    expect(ids).toEqual([
+      "edge_bot_0", "edge_bot_1", "edge_bot_2", "edge_bot_3",
+      "edge_top_0", "edge_top_1", "edge_top_2", "edge_top_3",
+    ]);
+    expect(res.model!.faces.map(f => f.faceId)).toEqual(["base_top", "base_bot"]);
+  });
+
+  it("raises a 90° flange to its mold-line height", () => {
+    const res = buildModelLocal(request({
+      flanges: [{ id: "f1", edgeId: "edge_top_0", height: 20, angle: 90, direction: "up", bendRadius: 1, kFactor: 0.44 }],
+    }));
+    const model = res.model!;
+    expect(model.meshes.flanges).toHaveLength(1);
+    const zs = model.meshes.flanges[0].mesh.positions.filter((_, i) => i % 3 === 2);
+    expect(Math.max(...zs)).toBeCloseTo(20, 5);
+    expect(model.faces.some(f => f.faceId === "flange_face_f1_0")).toBe(true);
+    expect(model.edges.some(e => e.id === "flange_f1_tip_outer_0")).toBe(true);
+  });
+
+  it("splits the base face along a fold line", () => {
+    const res = buildModelLocal(request({
+      folds: [{
+        id: "k1", lineStart: { x: 70, y: 0 }, lineEnd: { x: 70, y: 50 }, angle: 90, direction: "up",
+        bendRadius: 1, kFactor: 0.44, foldLocation: "material-inside", parentFaceId: "base_top",
+      }],
+    }));
+    const model = res.model!;
+    expect(model.meshes.folds).toHaveLength(1);
+    const xs = model.meshes.baseFace.positions.filter((_, i) => i % 3 === 0);
+    expect(Math.max(...xs)).toBeCloseTo(70, 5);
+    expect(model.faces.some(f => f.faceId === "fold_face_k1")).toBe(true);
+    expect(model.edges.some(e => e.id.startsWith("fold_k1_tip_outer_"))).toBe(true);
+  });
+
+  it("notches the corner between adjacent flanges and shortens both bends", () => {
+    const flange = (id: string, edgeId: string) => ({
+      id, edgeId, height: 20, angle: 90, direction: "up" as const, bendRadius: 1, kFactor: 0.44,
+    });
+    const part = buildPart(request({
+      flanges: [flange("f1", "edge_top_0"), flange("f2", "edge_top_1")],
+      relief: { ...DEFAULT_RELIEF, cornerRelief: "square", cornerReliefSize: 2 },
+    }));
+    const [base, f1, f2] = part.plates;
+    expect(base.outline).toContainEqual({ x: 98, y: 2 });
+    expect(base.outline).not.toContainEqual({ x: 100, y: 0 });
+    expect(f1.attachment!.span).toEqual([0, 98]);
+    expect(f2.attachment!.span).toEqual([2, 50]);
+  });
+
+  it("cuts a bend relief into material beside the end of a flange", () => {
+    const part = buildPart(request({
+      profile: [{ x: 0, y: 0 }, { x: 60, y: 0 }, { x: 60, y: -30 }, { x: 100, y: -30 }, { x: 100, y: 50 }, { x: 0, y: 50 }],
+      flanges: [{ id: "f1", edgeId: "edge_top_0", height: 20, angle: 90, direction: "up", bendRadius: 1, kFactor: 0.44, reliefType: "rectangular" }],
+      relief: { ...DEFAULT_RELIEF, bendReliefWidth: 2, bendReliefDepth: 1 },
+    }));
+    const outline = part.plates[0].outline;
+    expect(outline).toContainEqual({ x: 60, y: 1 });
+    expect(outline).toContainEqual({ x: 62, y: 1 });
+  });
+
+  it("stops a flange short of the edge ends and reliefs both ends", () => {
+    const part = buildPart(request({
+      flanges: [{
+        id: "f1", edgeId: "edge_top_0", height: 20, angle: 90, direction: "up", bendRadius: 1, kFactor: 0.44,
+        reliefType: "rectangular", startOffset: 10, endOffset: 20,
+      }],
+      relief: { ...DEFAULT_RELIEF, bendReliefWidth: 2, bendReliefDepth: 1 },
+    }));
+    const [base, f1] = part.plates;
+    expect(f1.attachment!.linePoint).toEqual({ x: 10, y: 0 });
+    expect(f1.attachment!.span).toEqual([0, 70]);
+    expect(base.outline).toContainEqual({ x: 8, y: 1 });
+    expect(base.outline).toContainEqual({ x: 82, y: 1 });
+  });
+
+  it("relieves the ends of a fold that bends up a tab", () => {
+    const req = tabFold();
+    const [base, tab] = buildPart(req).plates;
+    expect(tab.attachment!.span).toEqual([40, 60]);
+    expect(base.outline).toContainEqual({ x: 38, y: 49 });
+    expect(base.outline).toContainEqual({ x: 62, y: 49 });
+    const arcXs = buildModelLocal(req).model!.meshes.folds[0].arc.positions.filter((_, i) => i % 3 === 0);
+    expect(Math.min(...arcXs)).toBeCloseTo(40, 5);
+    expect(Math.max(...arcXs)).toBeCloseTo(60, 5);
+  });
+
+  it("takes a fold's own relief type over the part default", () => {
+    const base = buildPart(tabFold("none")).plates[0];
+    expect(base.outline).not.toContainEqual({ x: 38, y: 49 });
+    expect(base.outline).not.toContainEqual({ x: 62, y: 49 });
+  });
+
+  it("offsets a jog's far side by the outside dimension", () => {
+    const folds = jogFolds({
+      id: "j1", sketchLineId: "l1", faceId: "base_top", lineStart: { x: 60, y: 0 }, lineEnd: { x: 60, y: 50 },
+      offset: 10, dimension: "outside", fixedSide: "left", angle: 90, direction: "up", bendRadius: 1,
+    }, 1);
+    const part = buildPart(buildRequestPayload({ profile: PLATE, thickness: 1, folds, kFactor: 0.44 }));
+    const [base, , far] = part.plates;
+    expect(part.plates).toHaveLength(3);
+    expect(far.frame.origin.z - base.frame.origin.z).toBeCloseTo(10, 5);
+    expect(far.frame.normal.z).toBeCloseTo(1, 5);
+  });
+
+  it("sweeps an open contour into a channel with bends at its corners", () => {
+    const contour = extractContourProfile([
+      { id: "a", type: "line", start: { x: 0, y: 20 }, end: { x: 0, y: 0 } },
+      { id: "b", type: "line", start: { x: 0, y: 0 }, end: { x: 50, y: 0 } },
+      { id: "c", type: "line", start: { x: 50, y: 20 }, end: { x: 50, y: 0 } },
+    ])!;
+    expect(contour.points).toHaveLength(4);
+    const { profile, folds } = contourFlange(contour, { length: 40, thickness: 1, bendRadius: 1, kFactor: 0.44 })!;
+    expect(folds.map(f => f.direction)).toEqual(["up", "up"]);
+    const part = buildPart(buildRequestPayload({ profile, thickness: 1, folds, kFactor: 0.44 }));
+    const [base, web, leg] = part.plates;
+    expect(part.plates).toHaveLength(3);
+    expect(leg.frame.normal.z).toBeCloseTo(-1, 5);
+    expect(leg.frame.origin.z - base.frame.origin.z).toBeCloseTo(50, 5);
+    expect(Math.max(...web.outline.map(p => p.y))).toBeCloseTo(48, 5);
+    expect(Math.max(...leg.outline.map(p => p.y))).toBeCloseTo(19, 5);
+  });
+
+  it("flanges every facet of an arc edge", () => {
+    // Straight bottom, left and top edges closed by a half circle on the right
+    const arc = Array.from({ length: 17 }, (_, k) => {
+      const t = -Math.PI / 2 + (Math.PI * k) / 16;
+      return { x: 100 + 50 * Math.cos(t), y: 50 + 50 * Math.sin(t) };
+    });
+    const profile = [{ x: 0, y: 0 }, ...arc, { x: 0, y: 100 }];
+    const run = findArcRun(profile, 5)!;
+    expect(run).toEqual(Array.from({ length: 16 }, (_, k) => k + 1));
+    expect(findArcRun(profile, 0)).toBeNull();
+
+    const segments = arcFlangeSegments({
+      id: "a1", edgeIds: run.map(i => `edge_top_${i}`), height: 10, angle: 90, direction: "up", bendRadius: 1, gap: 0,
+    }, profile, 1);
+    expect(segments).toHaveLength(16);
+    const part = buildPart(request({
+      profile,
+      flanges: segments.map(f => ({ ...f, kFactor: 0.44 })),
+    }));
+    expect(part.plates.filter(p => p.kind === "flange")).toHaveLength(16);
+  });
+
+  it("cuts back segments of a concave arc flange so they do not overlap", () => {
+    const arc = Array.from({ length: 9 }, (_, k) => {
+      const t = Math.PI - (Math.PI / 2) * (k / 8);
+      return { x: 100 + 40 * Math.cos(t), y: 40 * Math.sin(t) };
+    });
+    // Square with a quarter-circle bite out of its bottom edge
+    const profile = [{ x: 0, y: 0 }, { x: 60, y: 0 }, ...arc.slice(1), { x: 100, y: 100 }, { x: 0, y: 100 }]
+      .filter((p, i, all) => i === 0 || Math.hypot(p.x - all[i - 1].x, p.y - all[i - 1].y) > 1e-9);
+    const run = findArcRun(profile, 3)!;
+    expect(run).toHaveLength(8);
+    const segments = arcFlangeSegments({
+      id: "a1", edgeIds: run.map(i => `edge_top_${i}`), height: 10, angle: 90, direction: "up", bendRadius: 1, gap: 0,
+    }, profile, 1);
+    expect(segments[0].startOffset).toBe(0);
+    expect(segments[0].endOffset).toBeGreaterThan(0);
+    expect(segments[7].endOffset).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import type { Fold, Flange } from "@/lib/geometry";
+import {
+  EMPTY_FEATURE_TREE, carryOverFeatures, flangeFeature, foldFeature, insertFeature,
+  removeFeature, resolveFeatures, setRollback, updateFold,
+} from "@/lib/featureTree";
+
+const fold = (id: string): Fold => ({
+  id, lineStart: { x: 50, y: 0 }, lineEnd: { x: 50, y: 50 }, angle: 90, direction: "up", bendRadius: 1,
+});
+const flange = (id: string): Flange => ({ id, edgeId: `edge_${id}`, height: 20, angle: 90, direction: "up", bendRadius: 1 });
+
+const tree = [foldFeature(fold("k1")), flangeFeature(flange("f1")), flangeFeature(flange("f2"))]
+  .reduce(insertFeature, EMPTY_FEATURE_TREE);
+
+describe("feature tree", () => {
+  it("builds only the features before the rollback marker", () => {
+    const rolled = setRollback(tree, 1);
+    expect(resolveFeatures(rolled).folds.map(f => f.id)).toEqual(["k1"]);
+    expect(resolveFeatures(rolled).flanges).toEqual([]);
+    expect(setRollback(rolled, null).rollbackIndex).toBeNull();
+  });
+
+  it("inserts at the rollback marker and keeps later features", () => {
+    const inserted = insertFeature(setRollback(tree, 1), flangeFeature(flange("f3")));
+    expect(inserted.features.map(f => f.id)).toEqual(["k1", "f3", "f1", "f2"]);
+    expect(resolveFeatures(inserted).flanges.map(f => f.id)).toEqual(["f3"]);
+  });
+
+  it("edits a feature in place and keeps its successors", () => {
+    const edited = updateFold(tree, "k1", { angle: 45 });
+    expect(resolveFeatures(edited).folds[0].angle).toBe(45);
+    expect(resolveFeatures(edited).flanges.map(f => f.id)).toEqual(["f1", "f2"]);
+  });
+
+  it("shifts the rollback marker when an active feature is removed", () => {
+    expect(removeFeature(setRollback(tree, 2), "k1").rollbackIndex).toBe(1);
+  });
+
+  it("keeps undone features rolled back when the history branches", () => {
+    const undone = removeFeature(tree, "f2");
+    const branched = insertFeature(undone, flangeFeature(flange("f4")));
+    const { tree: next, carried } = carryOverFeatures(branched, undone, tree);
+    expect(carried.map(f => f.id)).toEqual(["f2"]);
+    expect(next.features.map(f => f.id)).toEqual(["k1", "f1", "f4", "f2"]);
+    expect(resolveFeatures(next).flanges.map(f => f.id)).toEqual(["f1", "f4"]);
+  });
+
+  it("does not bring back a feature deleted after an undo", () => {
+    const undone = removeFeature(tree, "f2");
+    const deleted = removeFeature(undone, "k1");
+    const { tree: next, carried } = carryOverFeatures(deleted, undone, tree);
+    expect(carried.map(f => f.id)).toEqual(["f2"]);
+    expect(next.features.map(f => f.id)).toEqual(["f1", "f2"]);
+    expect(next.rollbackIndex).toBe(1);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  expandPattern, extractProfileAndCutouts, polygonArea, rectToPolygon,
+  type FaceSketchCircle, type PatternBounds, type SketchPattern,
+} from "@/lib/geometry";
+import {
+  chamferCorner, filletCorner, findLineCorner, regularPolygonEntities, slotEntities,
+  type CornerResult, type SketchEntity,
+} from "@/lib/sheetmetal";
+
+const hole: FaceSketchCircle = { id: "h1", type: "circle", center: { x: 10, y: 10 }, radius: 2 };
+const face: PatternBounds = { outline: rectToPolygon({ x: 0, y: 0 }, 100, 50), bends: [] };
+
+describe("sketch patterns", () => {
+  it("lays out a grid after the seed and drops copies off the face", () => {
+    const pattern: SketchPattern = {
+      id: "p1", faceId: "base_top", sourceId: "h1",
+      layout: { type: "linear", columns: 5, rows: 2, columnSpacing: 25, rowSpacing: 20 },
+    };
+    const { instances, suppressed } = expandPattern(pattern, hole, face);
+    // The fifth column lands at x = 110, past the 100 mm face
+    expect(instances).toHaveLength(7);
+    expect(suppressed).toBe(2);
+    expect(instances[0]).toMatchObject({ type: "circle", center: { x: 35, y: 10 }, radius: 2 });
+  });
+
+  it("turns copies around the centre and drops those within reach of a bend", () => {
+    const pattern: SketchPattern = {
+      id: "p2", faceId: "base_top", sourceId: "h1",
+      layout: { type: "circular", count: 4, angle: 360, center: { x: 25, y: 25 } },
+    };
+    const bend = { start: { x: 50, y: 0 }, end: { x: 50, y: 50 }, clearance: 2 };
+    expect(expandPattern(pattern, hole, face).instances.map(i => i.type === "circle" && i.center)).toEqual([
+      { x: expect.closeTo(40), y: expect.closeTo(10) },
+      { x: expect.closeTo(40), y: expect.closeTo(40) },
+      { x: expect.closeTo(10), y: expect.closeTo(40) },
+    ]);
+    // Copies at x = 40 keep 8 mm to the bend line; a 7 mm clearance still fits, 9 mm does not
+    expect(expandPattern(pattern, hole, { ...face, bends: [{ ...bend, clearance: 7 }] }).suppressed).toBe(0);
+    expect(expandPattern(pattern, hole, { ...face, bends: [{ ...bend, clearance: 9 }] }).suppressed).toBe(2);
+  });
+});
+
+describe("slot, polygon, fillet and chamfer tools", () => {
+  const applyCorner = (entities: SketchEntity[], result: CornerResult | null) => {
+    expect(result).not.toBeNull();
+    const { first, second, joint } = result!;
+    return [...entities.map(e => e.id === first.id ? first : e.id === second.id ? second : e), joint];
+  };
+
+  it("keeps a filleted and chamfered outline closed around slot and polygon cutouts", () => {
+    const outline = rectToPolygon({ x: 0, y: 0 }, 100, 60);
+    let entities: SketchEntity[] = outline.map((p, i) => ({
+      id: `l${i}`, type: "line", start: p, end: outline[(i + 1) % outline.length],
+    }));
+    entities = applyCorner(entities, filletCorner(findLineCorner(entities, { x: 1, y: 1 }, 5)!, 10));
+    entities = applyCorner(entities, chamferCorner(findLineCorner(entities, { x: 99, y: 59 }, 5)!, 5));
+    entities.push(...slotEntities({ x: 30, y: 30 }, { x: 60, y: 30 }, 5));
+    entities.push(...regularPolygonEntities({ x: 80, y: 20 }, 8, 6, 0));
+
+    const result = extractProfileAndCutouts(entities)!;
+    // 6000 less the fillet's (1 - π/4)·R² and the chamfer's 12.5, short of the facets
+    expect(Math.abs(polygonArea(result.profile))).toBeCloseTo(5966, 0);
+    expect(result.cutouts).toHaveLength(2);
+    const areas = result.cutouts.map(c => Math.abs(polygonArea(c.polygon))).sort((a, b) => a - b);
+    expect(areas[0]).toBeCloseTo(166.3, 0); // hexagon, 3√3/2 · 8²
+    expect(areas[1]).toBeCloseTo(378, 0); // 30 × 10 plus a ⌀10 circle
+  });
+
+  it("refuses a fillet that does not fit on the lines", () => {
+    const lines: SketchEntity[] = [
+      { id: "a", type: "line", start: { x: 0, y: 0 }, end: { x: 10, y: 0 } },
+      { id: "b", type: "line", start: { x: 0, y: 0 }, end: { x: 0, y: 10 } },
+    ];
+    const corner = findLineCorner(lines, { x: 0, y: 0 }, 5)!;
+    expect(filletCorner(corner, 12)).toBeNull();
+    expect(filletCorner(corner, 4)!.joint).toMatchObject({ type: "arc", center: { x: 4, y: 4 }, radius: 4 });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { LoftedBend, loftBends, unfoldLoft } from "@/lib/loft";
+import { circleToPolygon, rectToPolygon } from "@/lib/geometry";
+import { Point2D } from "@/lib/sheetmetal";
+
+const perimeter = (pts: Point2D[]) =>
+  pts.slice(1).reduce((s, p, i) => s + Math.hypot(p.x - pts[i].x, p.y - pts[i].y), 0);
+
+describe("lofted bend", () => {
+  const squareToRound: LoftedBend = {
+    bottom: rectToPolygon({ x: -50, y: -50 }, 100, 100),
+    top: circleToPolygon({ x: 0, y: 0 }, 30, 16),
+    height: 80,
+  };
+
+  it("develops a square-to-round keeping the length of both profiles", () => {
+    const pattern = unfoldLoft(squareToRound);
+    const polygon = pattern.regions[0].polygon;
+    // Bottom chain (5 points incl. the seam twice), then the top chain back (17 points)
+    expect(polygon).toHaveLength(5 + 17);
+    expect(perimeter(polygon.slice(0, 5))).toBeCloseTo(400, 6);
+    expect(perimeter(polygon.slice(5))).toBeCloseTo(perimeter([...squareToRound.top, squareToRound.top[0]]), 6);
+    // Both sides of the seam are the same rung
+    const seam = (a: Point2D, b: Point2D) => Math.hypot(a.x - b.x, a.y - b.y);
+    expect(seam(polygon[0], polygon[polygon.length - 1])).toBeCloseTo(seam(polygon[4], polygon[5]), 6);
+    expect(pattern.bendLines.length).toBe(loftBends(squareToRound).length);
+    expect(pattern.bendLines.length).toBeGreaterThanOrEqual(16);
+  });
+
+  it("bends a rectangular hopper only at its corners", () => {
+    const bends = loftBends({
+      bottom: rectToPolygon({ x: 0, y: 0 }, 200, 100),
+      top: rectToPolygon({ x: 50, y: 25 }, 100, 50),
+      height: 60,
+    });
+    // Four corners, one of them the seam
+    expect(bends).toHaveLength(3);
+    expect(bends.every(b => b.angle > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import {
+  BUILT_IN_MATERIALS, applyMaterial, getMaterial, importMaterialLibrary, kFactorFor,
+  minBendRadiusFor, serializeMaterialLibrary, MaterialLibraryError,
+} from "@/lib/materials";
+import { DEFAULT_SHEET_METAL } from "@/lib/sheetmetal";
+
+const steel = BUILT_IN_MATERIALS.find(m => m.name === "Steel")!;
+
+describe("material library", () => {
+  it("interpolates the K-factor over r/t and clamps outside the table", () => {
+    expect(kFactorFor(steel, 1, 1)).toBe(0.44);
+    expect(kFactorFor(steel, 4, 2)).toBe(0.455);
+    expect(kFactorFor(steel, 20, 1)).toBe(0.5);
+  });
+
+  it("interpolates the minimum bend radius between gauges", () => {
+    const custom = { ...steel, gauges: [{ thickness: 1, minBendRadius: 1 }, { thickness: 3, minBendRadius: 6 }] };
+    expect(minBendRadiusFor(custom, 2)).toBe(3);
+  });
+
+  it("drives the defaults from the selected material", () => {
+    const aluminum = BUILT_IN_MATERIALS.find(m => m.name === "Aluminum")!;
+    const defaults = applyMaterial({ ...DEFAULT_SHEET_METAL, thickness: 1.9 }, aluminum);
+    expect(defaults).toMatchObject({ material: "Aluminum", thickness: 2, bendRadius: 3 });
+    expect(defaults.kFactor).toBe(kFactorFor(aluminum, 3, 2));
+  });
+
+  it("imports custom materials and skips built-in names", () => {
+    const custom = { ...steel, name: "Brass", builtIn: undefined };
+    expect(importMaterialLibrary(serializeMaterialLibrary([custom, steel]))).toBe(1);
+    expect(getMaterial("brass")?.builtIn).toBe(false);
+  });
+
+  it("names the invalid field on import", () => {
+    const broken = JSON.stringify({ format: "smmaterials", materials: [{ ...steel, gauges: [] }] });
+    expect(() => importMaterialLibrary(broken)).toThrow(MaterialLibraryError);
+    expect(() => importMaterialLibrary(broken)).toThrow("materials.0.gauges");
+  });
+});
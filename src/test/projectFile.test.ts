@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  createProjectFile, parseProjectFile, serializeProject, ProjectFileError, PROJECT_VERSION,
+} from "@/lib/projectFile";
+import { DEFAULT_SHEET_METAL } from "@/lib/sheetmetal";
+import { treeFromLists } from "@/lib/featureTree";
+
+const project = createProjectFile({
+  name: "Bracket",
+  sketch: {
+    entities: [{ id: "r1", type: "rect", origin: { x: 0, y: 0 }, width: 100, height: 50 }],
+    gridSize: 10,
+    snapEnabled: true,
+    sheetMetalDefaults: DEFAULT_SHEET_METAL,
+  },
+  part: {
+    profile: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }],
+    cutouts: [],
+  },
+  features: treeFromLists({
+    flanges: [{ id: "f1", edgeId: "edge_top_0", height: 20, angle: 90, direction: "up", bendRadius: 1 }],
+    arcFlanges: [],
+    folds: [],
+    faceSketches: [],
+    patterns: [],
+    corners: [],
+    jogs: [],
+    hems: [],
+    forms: [],
+  }),
+});
+
+describe("project file", () => {
+  it("round-trips through JSON", () => {
+    const parsed = parseProjectFile(serializeProject(project));
+    expect(parsed).toEqual(project);
+  });
+
+  it("rejects files from a newer version", () => {
+    const newer = { ...project, version: PROJECT_VERSION + 1 };
+    expect(() => parseProjectFile(JSON.stringify(newer))).toThrow(ProjectFileError);
+  });
+
+  it("migrates v1 feature lists to an ordered feature tree", () => {
+    const flange = { id: "f1", edgeId: "edge_top_0", height: 20, angle: 90, direction: "up", bendRadius: 1 };
+    const fold = { id: "k1", lineStart: { x: 50, y: 0 }, lineEnd: { x: 50, y: 50 }, angle: 90, direction: "up", bendRadius: 1, foldLocation: "centerline" };
+    const v1 = { ...project, version: 1, features: { flanges: [flange], folds: [fold], faceSketches: [] } };
+    const parsed = parseProjectFile(JSON.stringify(v1));
+    expect(parsed.version).toBe(PROJECT_VERSION);
+    expect(parsed.features.rollbackIndex).toBeNull();
+    expect(parsed.features.features.map(f => f.id)).toEqual(["k1", "f1"]);
+  });
+
+  it("carries a v2 document over to the current version", () => {
+    const { loft: _loft, ...v2 } = { ...project, version: 2 };
+    const parsed = parseProjectFile(JSON.stringify(v2));
+    expect(parsed).toEqual({ ...project, version: PROJECT_VERSION });
+  });
+
+  it("rejects a per-bend K-factor outside 0 to 1", () => {
+    const flange = { id: "f1", edgeId: "edge_top_0", height: 20, angle: 90, direction: "up", bendRadius: 1, kFactor: 5 };
+    const broken = { ...project, features: { ...project.features, features: [{ kind: "flange", id: "f1", flange }] } };
+    expect(() => parseProjectFile(JSON.stringify(broken))).toThrow("features.features.0.flange.kFactor");
+  });
+
+  it("names the field that failed validation", () => {
+    const broken = { ...project, features: { ...project.features, features: [{ kind: "fold", id: "k1", fold: { id: "k1" } }] } };
+    expect(() => parseProjectFile(JSON.stringify(broken))).toThrow("features.features.0.fold.lineStart");
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import { unfoldLocal } from "@/lib/unfold";
+import { BuildModelRequest, buildRequestPayload } from "@/lib/metalHeroApi";
+import { faceSketchCutouts, jogFolds, type FaceSketchEntity, type Hem } from "@/lib/geometry";
+import type { BendTable } from "@/lib/bendTables";
+import { DEFAULT_RELIEF, bendAllowance, flatLength } from "@/lib/sheetmetal";
+
+const base: BuildModelRequest = {
+  profile: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }],
+  thickness: 1,
+  cutouts: [],
+  folds: [],
+  flanges: [],
+  faceSketches: [],
+  bendTable: { type: "kFactor", defaultKFactor: 0.44, overrides: [] },
+};
+
+describe("unfoldLocal", () => {
+  it("returns the profile itself when there are no bends", () => {
+    const pattern = unfoldLocal(base);
+    expect(pattern.regions).toHaveLength(1);
+    expect(pattern.regions[0].id).toBe("base");
+    expect(pattern.overallWidth).toBeCloseTo(100);
+    expect(pattern.overallHeight).toBeCloseTo(50);
+  });
+
+  it("develops a flange to its flat length", () => {
+    const pattern = unfoldLocal({
+      ...base,
+      flanges: [{ id: "f1", edgeId: "edge_top_0", height: 20, angle: 90, direction: "up", bendRadius: 1, kFactor: 0.44 }],
+    });
+    expect(pattern.overallWidth).toBeCloseTo(100);
+    expect(pattern.overallHeight).toBeCloseTo(50 + flatLength(20, 1, 0.44, 1, 90), 6);
+    expect(pattern.bendLines).toHaveLength(2);
+    expect(pattern.bendLines[0].label).toBe("B1");
+    expect(pattern.bendLines[0].angle).toBe(90);
+  });
+
+  it("keeps the overall length of a folded face plus bend allowance", () => {
+    const pattern = unfoldLocal({
+      ...base,
+      folds: [{
+        id: "k1", lineStart: { x: 70, y: 0 }, lineEnd: { x: 70, y: 50 }, angle: 90, direction: "down",
+        bendRadius: 1, kFactor: 0.44, foldLocation: "material-inside", parentFaceId: "base_top",
+      }],
+    });
+    const tip = pattern.regions.find(r => r.id === "fold_k1")!;
+    const tipXs = tip.polygon.map(p => p.x);
+    const ba = Math.PI * (1 + 0.44) / 2;
+    expect(Math.min(...tipXs)).toBeCloseTo(70 + ba, 6);
+    expect(pattern.bendLines.every(bl => bl.angle === -90)).toBe(true);
+  });
+
+  it("cuts bend relief beside a jog in a tab", () => {
+    const folds = jogFolds({
+      id: "j1", sketchLineId: "l1", faceId: "base_top", lineStart: { x: 0, y: 50 }, lineEnd: { x: 100, y: 50 },
+      offset: 5, dimension: "outside", fixedSide: "right", angle: 90, direction: "up", bendRadius: 1,
+    }, 1);
+    const pattern = unfoldLocal(buildRequestPayload({
+      profile: [
+        { x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 60, y: 50 },
+        { x: 60, y: 80 }, { x: 40, y: 80 }, { x: 40, y: 50 }, { x: 0, y: 50 },
+      ],
+      thickness: 1,
+      folds,
+      kFactor: 0.44,
+      relief: { ...DEFAULT_RELIEF, bendReliefWidth: 2, bendReliefDepth: 1 },
+    }));
+    const blank = pattern.regions.find(r => r.id === "base")!.polygon;
+    expect(blank).toContainEqual({ x: 38, y: 49 });
+    expect(blank).toContainEqual({ x: 62, y: 49 });
+    // Both bends of the jog stay as wide as the tab
+    for (const id of ["bend_j1_1", "bend_j1_2"]) {
+      const xs = pattern.regions.find(r => r.id === id)!.polygon.map(p => p.x);
+      expect([Math.min(...xs), Math.max(...xs)]).toEqual([40, 60]);
+    }
+  });
+
+  it("runs the first flange over the second at an overlapped corner", () => {
+    const flange = (id: string, edgeId: string) => ({
+      id, edgeId, height: 20, angle: 90, direction: "up" as const, bendRadius: 1, kFactor: 0.44,
+    });
+    const pattern = unfoldLocal({
+      ...base,
+      flanges: [flange("f1", "edge_top_0"), flange("f2", "edge_top_1")],
+      corners: [{ id: "c1", flangeIds: ["f1", "f2"], type: "overlap", gap: 0.5 }],
+    });
+    const xs = pattern.regions.find(r => r.id === "flange_f1")!.polygon.map(p => p.x);
+    const ys = pattern.regions.find(r => r.id === "flange_f2")!.polygon.map(p => p.y);
+    // f1 reaches the outer face of f2 (r + t), f2 stops the gap short of the inner face of f1 (r)
+    expect(Math.max(...xs)).toBeCloseTo(102, 6);
+    expect(Math.min(...ys)).toBeCloseTo(-0.5, 6);
+  });
+
+  it("develops a closed hem to its leg plus a 180° bend allowance", () => {
+    const pattern = unfoldLocal({
+      ...base,
+      hems: [{ id: "h1", edgeId: "edge_top_0", type: "closed", length: 10, radius: 0.5, direction: "up", kFactor: 0.44 }],
+    });
+    // The leg runs from the tip to the bend, 10 - (r + t) long
+    expect(pattern.overallHeight).toBeCloseTo(50 + bendAllowance(0.5, 0.44, 1, 180) + 8.5, 6);
+    expect(pattern.bendLines[0].angle).toBe(180);
+  });
+
+  it("develops a hem with the K-factor the bend table gives at 180°", () => {
+    const hem: Hem = { id: "h1", edgeId: "edge_top_0", type: "closed", length: 10, radius: 0.5, direction: "up" };
+    const table: BendTable = {
+      name: "Measured",
+      type: "kFactor",
+      entries: [{ angle: 90, radius: 0.5, thickness: 1, value: 0.3 }, { angle: 180, radius: 0.5, thickness: 1, value: 0.25 }],
+    };
+    const part = { profile: base.profile, thickness: 1, kFactor: 0.44, hems: [hem] };
+    const plain = unfoldLocal(buildRequestPayload(part));
+    const measured = unfoldLocal(buildRequestPayload({ ...part, bendTable: table }));
+    expect(measured.overallHeight - plain.overallHeight)
+      .toBeCloseTo(bendAllowance(0.5, 0.25, 1, 180) - bendAllowance(0.5, 0.44, 1, 180), 6);
+  });
+
+  it("folds a teardrop hem past 180°", () => {
+    const pattern = unfoldLocal({
+      ...base,
+      hems: [{ id: "h1", edgeId: "edge_top_0", type: "teardrop", length: 10, radius: 2, direction: "up", kFactor: 0.44 }],
+    });
+    expect(pattern.bendLines[0].angle).toBeGreaterThan(180);
+    expect(pattern.regions.map(r => r.id)).toContain("hem_h1");
+  });
+
+  it("marks a form tool hit where it lands on the blank", () => {
+    const form = {
+      id: "x1", faceId: "base_top", center: { x: 20, y: 25 }, width: 10, height: 3, rotation: 0, direction: "up" as const,
+    };
+    const pattern = unfoldLocal({
+      ...base,
+      folds: [{
+        id: "k1", lineStart: { x: 70, y: 0 }, lineEnd: { x: 70, y: 50 }, angle: 90, direction: "up",
+        bendRadius: 1, kFactor: 0.44, foldLocation: "material-inside", parentFaceId: "base_top",
+      }],
+      forms: [
+        { ...form, type: "extrudedHole", length: 10 },
+        // Past the fold line, so not on the base plate any more
+        { ...form, id: "x2", type: "louver", length: 20, center: { x: 90, y: 25 } },
+      ],
+    });
+    expect(pattern.formMarkers).toHaveLength(1);
+    const marker = pattern.formMarkers![0];
+    expect(marker.type).toBe("extrudedHole");
+    expect(marker.center.x).toBeCloseTo(20, 6);
+    expect(marker.center.y).toBeCloseTo(25, 6);
+    // The collar is drawn from an undersize pre-pierce
+    const prePierce = pattern.regions[0].cutouts[0].polygon as { x: number }[];
+    expect(Math.max(...prePierce.map(p => p.x)) - 20).toBeLessThan(4);
+  });
+
+  it("cuts face-sketch slots and closed arc-and-line chains out of the blank", () => {
+    const entities: FaceSketchEntity[] = [
+      { id: "s1", type: "slot", start: { x: 10, y: 25 }, end: { x: 30, y: 25 }, radius: 3 },
+      // D-hole: a half circle closed by its chord
+      { id: "a1", type: "arc", center: { x: 60, y: 25 }, radius: 5, startAngle: 0, endAngle: Math.PI },
+      { id: "l1", type: "line", start: { x: 55, y: 25 }, end: { x: 65, y: 25 } },
+      // An open line is a fold line and cuts nothing
+      { id: "l2", type: "line", start: { x: 80, y: 0 }, end: { x: 80, y: 50 } },
+    ];
+    const pattern = unfoldLocal({
+      ...base,
+      faceSketches: [{ faceId: "base_top", side: "top", entities, cutouts: faceSketchCutouts(entities) }],
+    });
+    const cutouts = pattern.regions[0].cutouts.map(c => c.polygon as { x: number; y: number }[]);
+    expect(cutouts).toHaveLength(2);
+    const xs = cutouts[0].map(p => p.x);
+    expect(Math.max(...xs) - Math.min(...xs)).toBeCloseTo(26, 6);
+    expect(Math.min(...cutouts[1].map(p => p.y))).toBeCloseTo(25, 6);
+    expect(Math.max(...cutouts[1].map(p => p.y))).toBeCloseTo(30, 6);
+  });
+});
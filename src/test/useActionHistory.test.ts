@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import type { Flange, Fold } from "@/lib/geometry";
+import { useActionHistory } from "@/hooks/useActionHistory";
+import { EMPTY_FEATURE_TREE, flangeFeature, foldFeature, insertFeature, removeFeature } from "@/lib/featureTree";
+
+const square = (size: number) => ({
+  profile: [{ x: 0, y: 0 }, { x: size, y: 0 }, { x: size, y: size }, { x: 0, y: size }],
+  cutouts: [],
+});
+const fold = (id: string): Fold => ({
+  id, lineStart: { x: 10, y: 0 }, lineEnd: { x: 10, y: 30 }, angle: 90, direction: "up", bendRadius: 1,
+});
+const flange = (id: string): Flange => ({ id, edgeId: `edge_${id}`, height: 20, angle: 90, direction: "up", bendRadius: 1 });
+
+describe("useActionHistory", () => {
+  it("restores the earlier base face when a base face update is undone", () => {
+    const { result } = renderHook(() => useActionHistory());
+    act(() => result.current.pushAction("Base Face Created", "base-face", { part: square(100) }));
+    const tree = insertFeature(EMPTY_FEATURE_TREE, flangeFeature(flange("f1")));
+    act(() => result.current.pushAction("Flange", "flange", { tree }));
+    act(() => result.current.pushAction("Base Face Updated", "base-face", { part: square(200) }));
+
+    expect(result.current.currentState.part).toEqual(square(200));
+    expect(result.current.currentState.tree).toBe(tree);
+
+    act(() => result.current.undo());
+    expect(result.current.currentState.part).toEqual(square(100));
+    expect(result.current.currentState.tree).toBe(tree);
+  });
+
+  it("undoes a contour flange together with the features it replaced", () => {
+    const { result } = renderHook(() => useActionHistory());
+    const one = insertFeature(EMPTY_FEATURE_TREE, flangeFeature(flange("f1")));
+    const two = insertFeature(one, flangeFeature(flange("f2")));
+    act(() => result.current.pushAction("Base Face Created", "base-face", { part: square(100) }));
+    act(() => result.current.pushAction("Flange", "flange", { tree: one }));
+    act(() => result.current.pushAction("Flange", "flange", { tree: two }));
+    act(() => result.current.undo());
+    const contour = insertFeature(EMPTY_FEATURE_TREE, foldFeature(fold("k1")));
+    act(() => result.current.pushAction("Contour Flange Created", "contour-flange", { part: square(30), tree: contour }));
+
+    // The undone flange belongs to the old base face and is not carried onto the contour blank
+    expect(result.current.currentState.tree).toBe(contour);
+    act(() => result.current.undo());
+    expect(result.current.currentState).toEqual({ part: square(100), loft: null, tree: one });
+  });
+
+  it("restores the base face and leaves the tree alone when a lofted bend is undone", () => {
+    const { result } = renderHook(() => useActionHistory());
+    const tree = insertFeature(EMPTY_FEATURE_TREE, flangeFeature(flange("f1")));
+    act(() => result.current.pushAction("Base Face Created", "base-face", { part: square(100), tree }));
+    const loft = { bottom: square(100).profile, top: square(50).profile, height: 40 };
+    act(() => result.current.pushAction("Lofted Bend Created", "loft", { part: null, loft }));
+
+    expect(result.current.currentState).toEqual({ part: null, loft, tree });
+    act(() => result.current.undo());
+    expect(result.current.currentState).toEqual({ part: square(100), loft: null, tree });
+  });
+
+  it("keeps a feature deleted after an undo deleted", () => {
+    const { result } = renderHook(() => useActionHistory());
+    const one = insertFeature(EMPTY_FEATURE_TREE, flangeFeature(flange("1")));
+    const two = insertFeature(one, flangeFeature(flange("2")));
+    const three = insertFeature(two, flangeFeature(flange("3")));
+    act(() => result.current.pushAction("Flange", "flange", { tree: one }));
+    act(() => result.current.pushAction("Flange", "flange", { tree: two }));
+    act(() => result.current.pushAction("Flange", "flange", { tree: three }));
+    act(() => result.current.undo());
+    act(() => result.current.pushAction("Flange removed", "remove-flange", { tree: removeFeature(two, "1") }));
+
+    const { tree } = result.current.currentState;
+    expect(tree.features.map(f => f.id)).toEqual(["2", "3"]);
+    expect(tree.rollbackIndex).toBe(1);
+  });
+});
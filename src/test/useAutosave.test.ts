@@ -0,0 +1,71 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { useAutosave } from "@/hooks/useAutosave";
+import { AutosaveRecord, loadAutosave, saveAutosave } from "@/lib/projectStore";
+import { createProjectFile } from "@/lib/projectFile";
+import { DEFAULT_SHEET_METAL } from "@/lib/sheetmetal";
+import { treeFromLists } from "@/lib/featureTree";
+
+function record(name: string): AutosaveRecord {
+  const project = createProjectFile({
+    name,
+    sketch: { entities: [], gridSize: 10, snapEnabled: true, sheetMetalDefaults: DEFAULT_SHEET_METAL },
+    part: null,
+    features: treeFromLists({
+      flanges: [], arcFlanges: [], folds: [], faceSketches: [], patterns: [],
+      corners: [], jogs: [], hems: [], forms: [],
+    }),
+  });
+  return { project, history: null, savedAt: Date.now() };
+}
+
+/** Render the hook on an empty slot and wait until it starts saving */
+async function armed(slot: string) {
+  const hook = renderHook(({ rec }) => useAutosave(slot, rec), {
+    initialProps: { rec: null as AutosaveRecord | null },
+  });
+  // Arming happens once the (empty) slot has been read back
+  await new Promise(resolve => setTimeout(resolve, 50));
+  return hook;
+}
+
+// Flushed saves must land well before the autosave delay would have written them
+const FLUSH_TIMEOUT = { timeout: 200 };
+
+describe("useAutosave", () => {
+  it("offers an existing autosave instead of overwriting it", async () => {
+    await saveAutosave("offered", record("Earlier"));
+    const { result, rerender } = renderHook(({ rec }) => useAutosave("offered", rec), {
+      initialProps: { rec: null as AutosaveRecord | null },
+    });
+    await waitFor(() => expect(result.current.pendingRestore?.project.name).toBe("Earlier"));
+    rerender({ rec: record("Later") });
+    await new Promise(resolve => setTimeout(resolve, 600));
+    expect((await loadAutosave("offered"))?.project.name).toBe("Earlier");
+  });
+
+  it("writes a pending save when the workspace unmounts", async () => {
+    const { rerender, unmount } = await armed("unmount");
+    rerender({ rec: record("Bracket") });
+    unmount();
+    await waitFor(async () => expect((await loadAutosave("unmount"))?.project.name).toBe("Bracket"), FLUSH_TIMEOUT);
+  });
+
+  it("writes a pending save when the page is hidden", async () => {
+    const { rerender, unmount } = await armed("pagehide");
+    rerender({ rec: record("Panel") });
+    window.dispatchEvent(new Event("pagehide"));
+    await waitFor(async () => expect((await loadAutosave("pagehide"))?.project.name).toBe("Panel"), FLUSH_TIMEOUT);
+    unmount();
+  });
+
+  it("drops a pending save once the work is saved elsewhere", async () => {
+    const { result, rerender, unmount } = await armed("saved");
+    rerender({ rec: record("Housing") });
+    result.current.markSaved();
+    unmount();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(await loadAutosave("saved")).toBeNull();
+  });
+});
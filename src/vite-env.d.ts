@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the Metal Hero backend (defaults to https://api.metal-hero.com) */
+  readonly VITE_METAL_HERO_API_URL?: string;
+}